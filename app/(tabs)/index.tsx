@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, lazy, Suspense } from "react";
+import React, { useState, useRef, lazy, Suspense } from "react";
 import {
   View,
   StyleSheet,
@@ -6,6 +6,7 @@ import {
   Alert,
   Animated,
   ActivityIndicator,
+  Platform,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import * as ImagePicker from "expo-image-picker";
@@ -13,18 +14,26 @@ import * as Clipboard from "expo-clipboard";
 import Constants from "expo-constants";
 import { useDocuments } from "@/contexts/DocumentContext";
 import { useOCRSettings } from "@/contexts/OCRSettingsContext";
-import { useOCRWorker } from "@/lib/ocrWorker";
+import { useProcessingPresets } from "@/contexts/ProcessingPresetsContext";
+import { useSignatures } from "@/contexts/SignatureContext";
+import { useDocumentEditing } from "@/contexts/DocumentEditingContext";
+import { useOCRWorker, OCR_PRIORITY, OCRResult, OCREngineKind } from "@/lib/ocrWorker";
 import ScannerHeader from "@/components/scanner/ScannerHeader";
 import EmptyState from "@/components/scanner/EmptyState";
-import { DocumentPage, SignatureInstance, ScanMode, IDCardScan, QRCodeScan } from "@/types/scan";
-import { OCRLanguage } from "@/contexts/OCRSettingsContext";
+import { DocumentPage, SignatureInstance, ScanMode, IDCardScan, QRCodeScan, OCRLayout } from "@/types/scan";
 import { optimizeDocumentImage, OptimizedImageResult } from "@/lib/imageOptimizer";
 import { 
-  fullDocumentEnhancement, 
+  processWithPreset, 
   quickDocumentEnhancement, 
   ProcessingResult,
-  validateDocumentImage 
+  validateDocumentImage,
+  batchProcessDocuments,
+  processBookSpread,
+  ProcessingCancelledError
 } from "@/lib/advancedImageProcessor";
+import { getBuiltInPreset } from "@/lib/processingPresets";
+import { importDocumentFile } from "@/lib/documentImport";
+import { DocumentMetadata, ImportedDocument } from "@/lib/documentJSON";
 
 // Lazy load heavy components to improve initial render time
 const TextFormatter = lazy(() => import("@/components/TextFormatter"));
@@ -41,6 +50,7 @@ const AdvancedProcessingOverlay = lazy(() => import("@/components/scanner/Advanc
 const ScanModeSelector = lazy(() => import("@/components/scanner/ScanModeSelector"));
 const IDCardScanner = lazy(() => import("@/components/scanner/IDCardScanner"));
 const QRCodeScanner = lazy(() => import("@/components/scanner/QRCodeScanner"));
+const SmartCameraView = lazy(() => import("@/components/scanner/SmartCameraView"));
 
 // Loading component for lazy-loaded components
 const ComponentLoader = () => (
@@ -54,10 +64,18 @@ const ComponentLoader = () => (
 export default function ScannerScreen() {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [extractedText, setExtractedText] = useState<string>("");
+  const [ocrLayout, setOcrLayout] = useState<OCRLayout | undefined>(undefined);
+  const [ocrEngine, setOcrEngine] = useState<OCREngineKind | undefined>(undefined);
   const [showFormatter, setShowFormatter] = useState(false);
   const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
   const [isDocumentSaved, setIsDocumentSaved] = useState(false);
   const [pages, setPages] = useState<DocumentPage[]>([]);
+  // Set when the pages came from an imported document, so exports keep it
+  const [documentMetadata, setDocumentMetadata] = useState<DocumentMetadata | undefined>(undefined);
+  // Formatting from an imported document, picked up by the text formatter
+  const [importedFormatting, setImportedFormatting] = useState<
+    Pick<ImportedDocument, 'runs' | 'handwrittenSignatures'> | undefined
+  >(undefined);
   const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
   const [isMultiPageMode, setIsMultiPageMode] = useState(false);
   const [showImageEditor, setShowImageEditor] = useState(false);
@@ -75,66 +93,37 @@ export default function ScannerScreen() {
   const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null);
   const [currentScanMode, setCurrentScanMode] = useState<ScanMode | null>(null);
   const [showModeSelector, setShowModeSelector] = useState(false);
+  const [showSmartCamera, setShowSmartCamera] = useState(false);
   const { addDocument } = useDocuments();
-  const { selectedLanguage } = useOCRSettings();
-  const { submitTask, getResult, clearResults, isProcessing, queueStatus } = useOCRWorker();
+  const { selectedLanguages, engineMode } = useOCRSettings();
+  const { selectedPreset } = useProcessingPresets();
+  const { importSignatures } = useSignatures();
+  const { loadAnnotations, clearAnnotations } = useDocumentEditing();
+  const { submitTask, cancelTask, setTaskPriority, clearResults, isProcessing, queueStatus } = useOCRWorker({
+    // Results are pushed as each task finishes
+    onResult: (result) => {
+      handleOCRResult(result);
+      setActiveOCRTasks(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(result.id);
+        return newSet;
+      });
+    },
+  });
   
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const sparkleAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(0)).current;
+  const batchAbortRef = useRef<AbortController | null>(null);
 
-  // Handle OCR results - optimized with requestAnimationFrame for better performance
-  useEffect(() => {
-    let animationFrame: number;
-    
-    const checkForResults = () => {
-      const tasksToCheck = Array.from(activeOCRTasks);
-      
-      tasksToCheck.forEach(taskId => {
-        const result = getResult(taskId);
-        if (result) {
-          handleOCRResult(taskId, result.text, result.error);
-          setActiveOCRTasks(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(taskId);
-            return newSet;
-          });
-        }
-      });
-      
-      // Continue checking if there are still active tasks
-      if (activeOCRTasks.size > 0) {
-        animationFrame = requestAnimationFrame(() => {
-          setTimeout(checkForResults, 500);
-        });
-      }
-    };
-
-    if (activeOCRTasks.size > 0) {
-      checkForResults();
+  const pickImage = async (useCamera: boolean) => {
+    // The smart camera detects the page and captures on its own; the web has
+    // no live preview to analyze, so it keeps the system camera
+    if (useCamera && Platform.OS !== 'web') {
+      setShowSmartCamera(true);
+      return;
     }
-    
-    return () => {
-      if (animationFrame) {
-        cancelAnimationFrame(animationFrame);
-      }
-    };
-  }, [activeOCRTasks, getResult]);
-
-  const getLanguagePrompt = (languageCode: OCRLanguage): string => {
-    const languageMap: Record<OCRLanguage, string> = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'auto': 'Auto-detect',
-    };
-    return languageMap[languageCode] || 'English';
-  };
 
-  const pickImage = async (useCamera: boolean) => {
     try {
       const { status } = useCamera
         ? await ImagePicker.requestCameraPermissionsAsync()
@@ -157,58 +146,82 @@ export default function ScannerScreen() {
           })
         : await ImagePicker.launchImageLibraryAsync({
             mediaTypes: ImagePicker.MediaTypeOptions.Images,
-            allowsEditing: true,
-            aspect: [4, 3],
+            // Cropping is not offered for several photos; pages are cropped
+            // after processing instead
+            allowsMultipleSelection: true,
             quality: 0.6,
           });
 
-      if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
+      if (!result.canceled && result.assets.length > 1) {
+        await processImageBatch(result.assets.map(asset => asset.uri));
+      } else if (!result.canceled && result.assets[0]) {
+        await processNewImage(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error("Error picking image:", error);
+      Alert.alert("Error", "Failed to select image. Please try again.");
+    }
+  };
+
+  // Whiteboards get their own cleanup; other scans use the user's preset
+  const getActivePreset = () =>
+    currentScanMode === 'whiteboard' ? getBuiltInPreset('whiteboard') : selectedPreset;
+
+  const processNewImage = async (imageUri: string) => {
+    // Validate and process image with advanced enhancements
+    setIsAdvancedProcessing(true);
+    setAdvancedProcessingStep('Validating image...');
+    setAppliedEnhancements([]);
+    
+    try {
+      console.log('🔍 Validating document image...');
+      const validation = await validateDocumentImage(imageUri);
+      
+      if (!validation.isValid) {
+        console.warn('⚠️ Image validation issues:', validation.issues);
+        // Still proceed but show warnings
+      }
+      
+      if (currentScanMode === 'book') {
+        console.log('📖 Starting book spread processing...');
+        setAdvancedProcessingStep('Splitting pages...');
         
-        // Validate and process image with advanced enhancements
-        setIsAdvancedProcessing(true);
-        setAdvancedProcessingStep('Validating image...');
-        setAppliedEnhancements([]);
+        const spread = await processBookSpread(imageUri);
+        setAppliedEnhancements(spread.pages[0].appliedEnhancements);
+        setAdvancedProcessingStep('Complete');
         
-        try {
-          console.log('🔍 Validating document image...');
-          const validation = await validateDocumentImage(imageUri);
-          
-          if (!validation.isValid) {
-            console.warn('⚠️ Image validation issues:', validation.issues);
-            // Still proceed but show warnings
-          }
-          
-          console.log('🚀 Starting advanced document processing...');
-          setAdvancedProcessingStep('Processing document...');
-          
-          // Apply full document enhancement
-          const processingResult = await fullDocumentEnhancement(imageUri);
-          setProcessingResult(processingResult);
-          setAppliedEnhancements(processingResult.appliedEnhancements);
-          setAdvancedProcessingStep('Complete');
-          
-          console.log(`✅ Advanced processing complete in ${processingResult.processingTimeMs}ms`);
-          console.log(`📊 Applied enhancements: ${processingResult.appliedEnhancements.join(', ')}`);
-          
-          // Show image editor with processed image
-          setTimeout(() => {
-            setImageToEdit(processingResult.uri);
-            setShowImageEditor(true);
-            setIsAdvancedProcessing(false);
-          }, 1500); // Show results for a moment
-          
-        } catch (error) {
-          console.error('⚠️ Advanced processing failed, using original:', error);
-          // Fallback to original image if processing fails
-          setImageToEdit(imageUri);
-          setShowImageEditor(true);
+        // Both pages go straight into the document
+        setTimeout(() => {
+          addPagesToDocument(spread.pages.map(page => page.uri));
           setIsAdvancedProcessing(false);
-        }
+        }, 1500);
+        return;
       }
+      
+      console.log('🚀 Starting advanced document processing...');
+      setAdvancedProcessingStep('Processing document...');
+      
+      const processingResult = await processWithPreset(imageUri, getActivePreset());
+      setProcessingResult(processingResult);
+      setAppliedEnhancements(processingResult.appliedEnhancements);
+      setAdvancedProcessingStep('Complete');
+      
+      console.log(`✅ Advanced processing complete in ${processingResult.processingTimeMs}ms`);
+      console.log(`📊 Applied enhancements: ${processingResult.appliedEnhancements.join(', ')}`);
+      
+      // Show image editor with processed image
+      setTimeout(() => {
+        setImageToEdit(processingResult.uri);
+        setShowImageEditor(true);
+        setIsAdvancedProcessing(false);
+      }, 1500); // Show results for a moment
+      
     } catch (error) {
-      console.error("Error picking image:", error);
-      Alert.alert("Error", "Failed to select image. Please try again.");
+      console.error('⚠️ Advanced processing failed, using original:', error);
+      // Fallback to original image if processing fails
+      setImageToEdit(imageUri);
+      setShowImageEditor(true);
+      setIsAdvancedProcessing(false);
     }
   };
 
@@ -228,6 +241,128 @@ export default function ScannerScreen() {
     }
   };
 
+  const addPagesToDocument = (imageUris: string[]) => {
+    const now = Date.now();
+    // Functional update: book mode adds pages from a timer, when `pages` is stale
+    setPages(prevPages => [
+      ...prevPages,
+      ...imageUris.map((imageUri, index): DocumentPage => ({
+        id: `${now}-${index}`,
+        imageUri,
+        order: prevPages.length + index,
+      })),
+    ]);
+    setSelectedPageId(`${now}-0`);
+    
+    if (!isMultiPageMode) {
+      setIsMultiPageMode(true);
+    }
+  };
+
+  const importDocument = async () => {
+    try {
+      const restored = await importDocumentFile();
+      if (!restored) return;
+
+      // Placements on the pages refer to the saved signatures by id
+      await importSignatures(restored.signatures);
+      const { pages: importedPages, ...metadata } = restored.document;
+      setDocumentMetadata(metadata);
+      setPages(importedPages);
+      setExtractedText(restored.text);
+      loadAnnotations(restored.annotations);
+      setImportedFormatting({ runs: restored.runs, handwrittenSignatures: restored.handwrittenSignatures });
+      setSelectedPageId(importedPages[0].id);
+      setIsMultiPageMode(true);
+    } catch (error) {
+      console.error('Error importing document:', error);
+      Alert.alert(
+        "Import Failed",
+        error instanceof Error ? error.message : "Could not read the document file."
+      );
+    }
+  };
+
+  const handleSmartCapture = async (imageUri: string) => {
+    setShowSmartCamera(false);
+    await processNewImage(imageUri);
+  };
+
+  // Enhances several photos at once and adds them as pages; the overlay's
+  // cancel button stops the batch at the next processing step
+  const processImageBatch = async (imageUris: string[]) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsOptimizingImage(true);
+    setOptimizationProgress(`Enhancing ${imageUris.length} pages...`);
+    
+    try {
+      if (currentScanMode === 'book') {
+        const pageUris: string[] = [];
+        for (let i = 0; i < imageUris.length && !controller.signal.aborted; i++) {
+          setOptimizationProgress(`Splitting spread ${i + 1} of ${imageUris.length}...`);
+          try {
+            const spread = await processBookSpread(imageUris[i], controller.signal);
+            pageUris.push(...spread.pages.map(page => page.uri));
+          } catch (error) {
+            // Spreads finished before the cancel are still added
+            if (error instanceof ProcessingCancelledError) break;
+            throw error;
+          }
+        }
+        if (pageUris.length > 0) {
+          addPagesToDocument(pageUris);
+        }
+        return;
+      }
+      
+      console.log(`📚 Enhancing ${imageUris.length} pages...`);
+      const summary = await batchProcessDocuments(imageUris, getActivePreset(), {
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          setOptimizationProgress(`Enhanced ${completed} of ${total} pages...`);
+        },
+      });
+      
+      // Failed pages carry the original photo, so only cancelled ones are missing
+      const pageUris = summary.results.flatMap(result => (result ? [result.uri] : []));
+      if (pageUris.length > 0) {
+        addPagesToDocument(pageUris);
+      }
+      
+      if (summary.cancelled || summary.failures.length > 0) {
+        const notes: string[] = [];
+        if (summary.failures.length > 0) {
+          notes.push(`${summary.failures.length} could not be enhanced and were added as photographed.`);
+        }
+        if (summary.cancelled) {
+          notes.push(`${imageUris.length - pageUris.length} were skipped after you cancelled.`);
+        }
+        Alert.alert(
+          `Added ${pageUris.length} of ${imageUris.length} pages`,
+          notes.join(' ')
+        );
+      }
+    } catch (error) {
+      console.error('⚠️ Batch enhancement failed, using original pages:', error);
+      addPagesToDocument(imageUris);
+    } finally {
+      batchAbortRef.current = null;
+      setIsOptimizingImage(false);
+      setOptimizationProgress('');
+    }
+  };
+
+  const cancelImageBatch = () => {
+    batchAbortRef.current?.abort();
+    setOptimizationProgress('Stopping after the current step...');
+  };
+
+  const handleBatchCapture = async (imageUris: string[]) => {
+    setShowSmartCamera(false);
+    await processImageBatch(imageUris);
+  };
+
   const deletePageFromDocument = (pageId: string) => {
     const updatedPages = pages.filter(page => page.id !== pageId);
     setPages(updatedPages);
@@ -246,6 +381,8 @@ export default function ScannerScreen() {
 
   const selectPage = (pageId: string) => {
     setSelectedPageId(pageId);
+    // OCR the page the user is looking at before the rest of the batch
+    setTaskPriority(`page-${pageId}`, OCR_PRIORITY.visible);
   };
 
   const convertToMultiPage = () => {
@@ -254,6 +391,8 @@ export default function ScannerScreen() {
         id: Date.now().toString(),
         imageUri: selectedImage,
         extractedText: extractedText || undefined,
+        ocrLayout,
+        ocrEngine,
         order: 0,
       };
       
@@ -262,10 +401,12 @@ export default function ScannerScreen() {
       setIsMultiPageMode(true);
       setSelectedImage(null);
       setExtractedText("");
+      setOcrLayout(undefined);
+      setOcrEngine(undefined);
     }
   };
 
-  const handleOCRResult = (taskId: string, text: string, error?: string) => {
+  const handleOCRResult = ({ id: taskId, text, error, layout, engine }: OCRResult) => {
     if (error) {
       console.error(`OCR failed for task ${taskId}:`, error);
       Alert.alert("Error", "Failed to extract text. Please check your internet connection and try again.");
@@ -277,6 +418,8 @@ export default function ScannerScreen() {
     // Check if this is for a single image or a page
     if (taskId.startsWith('single-')) {
       setExtractedText(text);
+      setOcrLayout(layout);
+      setOcrEngine(engine);
       
       if (text !== "No text detected") {
         // Success animation
@@ -319,7 +462,7 @@ export default function ScannerScreen() {
       const pageId = taskId.replace('page-', '');
       setPages(prevPages => {
         const updatedPages = prevPages.map(p => 
-          p.id === pageId ? { ...p, extractedText: text } : p
+          p.id === pageId ? { ...p, extractedText: text, ocrLayout: layout, ocrEngine: engine } : p
         );
         
         // Check if all pages are now processed
@@ -377,7 +520,9 @@ export default function ScannerScreen() {
     submitTask({
       id: taskId,
       imageUri,
-      language: selectedLanguage,
+      languages: selectedLanguages,
+      engineMode,
+      priority: OCR_PRIORITY.visible,
       onProgress: (progress) => {
         setOcrProgress(progress);
       },
@@ -444,7 +589,9 @@ export default function ScannerScreen() {
           submitTask({
             id: taskId,
             imageUri,
-            language: selectedLanguage,
+            languages: selectedLanguages,
+            engineMode,
+            priority: page.id === selectedPageId ? OCR_PRIORITY.visible : OCR_PRIORITY.normal,
             onProgress: (progress) => {
               setOcrProgress(`Page ${i + 1}: ${progress}`);
             },
@@ -524,6 +671,8 @@ export default function ScannerScreen() {
         // First image - single page mode
         setSelectedImage(finalImageUri);
         setExtractedText("");
+        setOcrLayout(undefined);
+        setOcrEngine(undefined);
         setCurrentDocumentId(null);
         setIsDocumentSaved(false);
         
@@ -541,6 +690,8 @@ export default function ScannerScreen() {
       if (pages.length === 0) {
         setSelectedImage(editedImageUri);
         setExtractedText("");
+        setOcrLayout(undefined);
+        setOcrEngine(undefined);
         setCurrentDocumentId(null);
         setIsDocumentSaved(false);
         
@@ -591,6 +742,8 @@ export default function ScannerScreen() {
       
       // Re-extract text from the optimized edited image
       setExtractedText("");
+      setOcrLayout(undefined);
+      setOcrEngine(undefined);
       setCurrentDocumentId(null);
       setIsDocumentSaved(false);
       
@@ -603,6 +756,8 @@ export default function ScannerScreen() {
       setSelectedImage(editedImageUri);
       
       setExtractedText("");
+      setOcrLayout(undefined);
+      setOcrEngine(undefined);
       setCurrentDocumentId(null);
       setIsDocumentSaved(false);
       
@@ -619,17 +774,22 @@ export default function ScannerScreen() {
   const clearScan = () => {
     // Cancel any active OCR tasks
     activeOCRTasks.forEach(taskId => {
-      console.log(`🚫 Cancelling OCR task ${taskId}`);
+      cancelTask(taskId);
     });
     setActiveOCRTasks(new Set());
     clearResults();
     
     setSelectedImage(null);
     setExtractedText("");
+    setOcrLayout(undefined);
+    setOcrEngine(undefined);
     setShowFormatter(false);
     setCurrentDocumentId(null);
     setIsDocumentSaved(false);
     setPages([]);
+    setDocumentMetadata(undefined);
+    setImportedFormatting(undefined);
+    clearAnnotations();
     setSelectedPageId(null);
     setIsMultiPageMode(false);
     setShowImageEditor(false);
@@ -743,6 +903,18 @@ export default function ScannerScreen() {
     );
   }
 
+  if (showSmartCamera) {
+    return (
+      <Suspense fallback={<ComponentLoader />}>
+        <SmartCameraView
+          onCapture={handleSmartCapture}
+          onBatchComplete={handleBatchCapture}
+          onCancel={() => setShowSmartCamera(false)}
+        />
+      </Suspense>
+    );
+  }
+
   // Show specialized scanners
   if (currentScanMode === 'id-card') {
     return (
@@ -801,6 +973,8 @@ export default function ScannerScreen() {
       <Suspense fallback={<ComponentLoader />}>
         <TextFormatter
           initialText={extractedText}
+          initialRuns={importedFormatting?.runs}
+          initialSignatures={importedFormatting?.handwrittenSignatures}
           onBack={closeFormatter}
           documentId={currentDocumentId || undefined}
         />
@@ -840,6 +1014,7 @@ export default function ScannerScreen() {
             {allPagesProcessed && hasExtractedText && (
               <MultiPageResultsView
                 pages={pages}
+                document={documentMetadata}
                 onOpenFormatter={openFormatter}
                 onCopyToClipboard={copyToClipboard}
                 onClearScan={clearScan}
@@ -878,6 +1053,7 @@ export default function ScannerScreen() {
             onTakePhoto={() => pickImage(true)}
             onChooseFromGallery={() => pickImage(false)}
             onShowModeSelector={showScanModeSelector}
+            onImportDocument={importDocument}
             sparkleAnim={sparkleAnim}
           />
         ) : (
@@ -896,6 +1072,16 @@ export default function ScannerScreen() {
                 <ResultsView
                   extractedText={extractedText}
                   currentDocumentId={currentDocumentId}
+                  ocrEngine={ocrEngine}
+                  page={{
+                    id: currentDocumentId ?? 'page-1',
+                    imageUri: selectedImage,
+                    extractedText,
+                    ocrLayout,
+                    ocrEngine,
+                    signatures: documentSignatures,
+                    order: 0,
+                  }}
                   onOpenFormatter={openFormatter}
                   onCopyToClipboard={copyToClipboard}
                   onClearScan={clearScan}
@@ -914,6 +1100,7 @@ export default function ScannerScreen() {
         <OptimizationOverlay
           visible={isOptimizingImage}
           progress={optimizationProgress}
+          onCancel={batchAbortRef.current ? cancelImageBatch : undefined}
         />
         
         <AdvancedProcessingOverlay
@@ -12,16 +12,17 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { ChevronRight, Info, Trash2, Star, LogOut, User, Settings as SettingsIcon, Shield, Globe, Cloud, PenTool } from "lucide-react-native";
 import { useDocuments } from "@/contexts/DocumentContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { useOCRSettings } from "@/contexts/OCRSettingsContext";
 import { usePinSecurity } from "@/contexts/PinSecurityContext";
 import LanguageSelector from "@/components/LanguageSelector";
 import CloudSyncToggle from "@/components/CloudSyncToggle";
+import OnDeviceOCRToggle from "@/components/OnDeviceOCRToggle";
+import { isOnDeviceOCRAvailable } from "@/lib/onDeviceOcr";
 import SavedSignaturesManager from "@/components/SavedSignaturesManager";
+import ProcessingPresetManager from "@/components/ProcessingPresetManager";
 
 export default function SettingsScreen() {
   const { clearAllDocuments, documents } = useDocuments();
   const { user, signOut } = useAuth();
-  const { selectedLanguage, getLanguageNativeName } = useOCRSettings();
   const { isPinEnabled, startPinSetup, disablePin } = usePinSecurity();
 
   const confirmClearHistory = () => {
@@ -198,6 +199,14 @@ export default function SettingsScreen() {
           <Text style={styles.sectionTitle}>OCR Settings</Text>
           <View style={styles.sectionContent}>
             <LanguageSelector />
+            {isOnDeviceOCRAvailable() && <OnDeviceOCRToggle />}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Image Processing</Text>
+          <View style={styles.sectionContent}>
+            <ProcessingPresetManager />
           </View>
         </View>
 
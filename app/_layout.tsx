@@ -14,6 +14,7 @@ import { DocumentProvider } from "@/contexts/DocumentContext";
 import { DocumentEditingProvider } from "@/contexts/DocumentEditingContext";
 import { SignatureProvider } from "@/contexts/SignatureContext";
 import { OCRSettingsProvider } from "@/contexts/OCRSettingsContext";
+import { ProcessingPresetsProvider } from "@/contexts/ProcessingPresetsContext";
 import { CloudSyncProvider } from "@/contexts/CloudSyncContext";
 import { PinSecurityProvider } from "@/contexts/PinSecurityContext";
 import { PinGuard } from "@/components/security";
@@ -73,15 +74,17 @@ export default function RootLayout() {
               <PinSecurityProvider>
                 <PinGuard>
                   <DocumentProvider>
-                    <DocumentEditingProvider>
-                      <CloudSyncProvider>
-                        <SignatureProvider>
+                    <SignatureProvider>
+                      <DocumentEditingProvider>
+                        <CloudSyncProvider>
                           <OCRSettingsProvider>
-                            <RootLayoutNav />
+                            <ProcessingPresetsProvider>
+                              <RootLayoutNav />
+                            </ProcessingPresetsProvider>
                           </OCRSettingsProvider>
-                        </SignatureProvider>
-                      </CloudSyncProvider>
-                    </DocumentEditingProvider>
+                        </CloudSyncProvider>
+                      </DocumentEditingProvider>
+                    </SignatureProvider>
                   </DocumentProvider>
                 </PinGuard>
               </PinSecurityProvider>
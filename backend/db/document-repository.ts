@@ -0,0 +1,56 @@
+import type { Document } from "@/lib/supabase";
+
+export type DocumentFields = Omit<Document, "id" | "user_id" | "created_at" | "updated_at">;
+export type DocumentUpdates = Partial<DocumentFields>;
+
+export interface DocumentPage {
+  items: Document[];
+  nextCursor: string | null;
+}
+
+export interface DocumentListOptions {
+  limit: number;
+  cursor?: string | null;
+}
+
+export interface DocumentSearchOptions {
+  limit: number;
+  offset: number;
+}
+
+// Storage-agnostic access to a user's documents. Every method is scoped by
+// userId so the caller never has to remember to filter by owner.
+export interface DocumentRepository {
+  list: (userId: string, options: DocumentListOptions) => Promise<DocumentPage>;
+  getById: (userId: string, id: string) => Promise<Document | null>;
+  create: (userId: string, fields: DocumentFields) => Promise<Document>;
+  update: (userId: string, id: string, updates: DocumentUpdates) => Promise<Document | null>;
+  delete: (userId: string, id: string) => Promise<boolean>;
+  search: (userId: string, query: string, options: DocumentSearchOptions) => Promise<Document[]>;
+  count: (userId: string) => Promise<number>;
+}
+
+export interface DocumentCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Cursors are opaque to clients: "<created_at>|<id>" of the last item on the
+// previous page. The id breaks ties between documents created in the same instant.
+export const encodeCursor = (document: Pick<Document, "created_at" | "id">): string => {
+  return `${document.created_at}|${document.id}`;
+};
+
+export const decodeCursor = (cursor: string): DocumentCursor | null => {
+  const separator = cursor.lastIndexOf("|");
+  if (separator <= 0 || separator === cursor.length - 1) {
+    return null;
+  }
+
+  const createdAt = cursor.slice(0, separator);
+  if (Number.isNaN(Date.parse(createdAt))) {
+    return null;
+  }
+
+  return { createdAt, id: cursor.slice(separator + 1) };
+};
@@ -0,0 +1,33 @@
+import type { DocumentRepository } from "./document-repository";
+import { createMemoryDocumentRepository } from "./memory-document-repository";
+import { createSupabaseDocumentRepository } from "./supabase-document-repository";
+import { getSupabaseAdmin } from "./supabase-admin";
+
+export * from "./document-repository";
+export { createMemoryDocumentRepository } from "./memory-document-repository";
+export { createSupabaseDocumentRepository } from "./supabase-document-repository";
+export { getSupabaseAdmin } from "./supabase-admin";
+
+let _documentRepository: DocumentRepository | null = null;
+
+// Lazily pick a repository: Supabase when server credentials are configured,
+// otherwise an in-memory store so the API still runs locally.
+export const getDocumentRepository = (): DocumentRepository => {
+  if (!_documentRepository) {
+    const client = getSupabaseAdmin();
+
+    if (client && process.env.DOCUMENTS_REPOSITORY !== "memory") {
+      console.log("🚀 Using Supabase document repository");
+      _documentRepository = createSupabaseDocumentRepository(client);
+    } else {
+      console.log("🧪 Using in-memory document repository");
+      _documentRepository = createMemoryDocumentRepository();
+    }
+  }
+  return _documentRepository;
+};
+
+// Swap the repository, e.g. for tests or a local Postgres stand-in
+export const setDocumentRepository = (repository: DocumentRepository | null) => {
+  _documentRepository = repository;
+};
@@ -0,0 +1,112 @@
+import type { Document } from "@/lib/supabase";
+import {
+  decodeCursor,
+  encodeCursor,
+  type DocumentRepository,
+} from "./document-repository";
+
+// Newest first, ties broken by id descending (matches the Postgres ordering).
+const compareDocuments = (a: Document, b: Document): number => {
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? 1 : -1;
+  }
+  if (a.id === b.id) {
+    return 0;
+  }
+  return a.id < b.id ? 1 : -1;
+};
+
+let idCounter = 0;
+
+const generateId = (): string => {
+  idCounter += 1;
+  return `mem-${Date.now().toString(36)}-${idCounter.toString(36)}`;
+};
+
+// In-memory stand-in for local development and tests. Not persisted.
+export const createMemoryDocumentRepository = (seed: Document[] = []): DocumentRepository => {
+  const store = new Map<string, Document>(seed.map((doc) => [doc.id, { ...doc }]));
+
+  const ownedBy = (userId: string): Document[] =>
+    Array.from(store.values())
+      .filter((doc) => doc.user_id === userId)
+      .sort(compareDocuments);
+
+  return {
+    list: async (userId, { limit, cursor }) => {
+      let docs = ownedBy(userId);
+
+      const position = cursor ? decodeCursor(cursor) : null;
+      if (position) {
+        docs = docs.filter(
+          (doc) =>
+            doc.created_at < position.createdAt ||
+            (doc.created_at === position.createdAt && doc.id < position.id)
+        );
+      }
+
+      const items = docs.slice(0, limit);
+      const nextCursor =
+        docs.length > limit ? encodeCursor(items[items.length - 1]) : null;
+
+      return { items, nextCursor };
+    },
+
+    getById: async (userId, id) => {
+      const doc = store.get(id);
+      return doc && doc.user_id === userId ? doc : null;
+    },
+
+    create: async (userId, fields) => {
+      const now = new Date().toISOString();
+      const doc: Document = {
+        ...fields,
+        id: generateId(),
+        user_id: userId,
+        created_at: now,
+        updated_at: now,
+      };
+      store.set(doc.id, doc);
+      return doc;
+    },
+
+    update: async (userId, id, updates) => {
+      const existing = store.get(id);
+      if (!existing || existing.user_id !== userId) {
+        return null;
+      }
+
+      const defined = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      );
+      const updated: Document = {
+        ...existing,
+        ...defined,
+        updated_at: new Date().toISOString(),
+      };
+      store.set(id, updated);
+      return updated;
+    },
+
+    delete: async (userId, id) => {
+      const existing = store.get(id);
+      if (!existing || existing.user_id !== userId) {
+        return false;
+      }
+      return store.delete(id);
+    },
+
+    search: async (userId, query, { limit, offset }) => {
+      const needle = query.toLowerCase();
+      return ownedBy(userId)
+        .filter(
+          (doc) =>
+            doc.title.toLowerCase().includes(needle) ||
+            doc.content.toLowerCase().includes(needle)
+        )
+        .slice(offset, offset + limit);
+    },
+
+    count: async (userId) => ownedBy(userId).length,
+  };
+};
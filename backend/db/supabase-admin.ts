@@ -0,0 +1,23 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let _supabaseAdmin: SupabaseClient | null | undefined;
+
+// Service-role client for server-side access. Returns null when the server
+// credentials are not configured (e.g. local development).
+export const getSupabaseAdmin = (): SupabaseClient | null => {
+  if (_supabaseAdmin === undefined) {
+    const url = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    _supabaseAdmin =
+      url && serviceRoleKey
+        ? createClient(url, serviceRoleKey, {
+            auth: {
+              persistSession: false,
+              autoRefreshToken: false,
+            },
+          })
+        : null;
+  }
+  return _supabaseAdmin;
+};
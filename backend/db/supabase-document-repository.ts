@@ -0,0 +1,133 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Document } from "@/lib/supabase";
+import {
+  decodeCursor,
+  encodeCursor,
+  type DocumentRepository,
+} from "./document-repository";
+
+const TABLE = "documents";
+
+// Supabase/Postgres-backed repository. The client is expected to use the
+// service role key, so ownership is enforced here rather than by RLS.
+export const createSupabaseDocumentRepository = (client: SupabaseClient): DocumentRepository => ({
+  list: async (userId, { limit, cursor }) => {
+    let query = client
+      .from(TABLE)
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      // Fetch one extra row to know whether another page exists
+      .limit(limit + 1);
+
+    const position = cursor ? decodeCursor(cursor) : null;
+    if (position) {
+      query = query.or(
+        `created_at.lt.${position.createdAt},and(created_at.eq.${position.createdAt},id.lt.${position.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list documents: ${error.message}`);
+    }
+
+    const rows = (data || []) as Document[];
+    const items = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit ? encodeCursor(items[items.length - 1]) : null;
+
+    return { items, nextCursor };
+  },
+
+  getById: async (userId, id) => {
+    const { data, error } = await client
+      .from(TABLE)
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to fetch document: ${error.message}`);
+    }
+    return (data as Document | null) ?? null;
+  },
+
+  create: async (userId, fields) => {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert([{ ...fields, user_id: userId }])
+      .select()
+      .single();
+    if (error) {
+      throw new Error(`Failed to create document: ${error.message}`);
+    }
+    return data as Document;
+  },
+
+  update: async (userId, id, updates) => {
+    const { data, error } = await client
+      .from(TABLE)
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select()
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update document: ${error.message}`);
+    }
+    return (data as Document | null) ?? null;
+  },
+
+  delete: async (userId, id) => {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select("id");
+    if (error) {
+      throw new Error(`Failed to delete document: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  },
+
+  search: async (userId, query, { limit, offset }) => {
+    // Prefer the ranked full-text search function from supabase-setup.sql
+    const ranked = await client.rpc("search_documents_ranked", {
+      p_user_id: userId,
+      p_search_query: query,
+      p_limit: limit,
+      p_offset: offset,
+    });
+    if (!ranked.error) {
+      return (ranked.data || []) as Document[];
+    }
+
+    console.warn("Ranked search failed, falling back to ILIKE:", ranked.error.message);
+    const pattern = query.replace(/[%_,()]/g, " ").trim();
+    const { data, error } = await client
+      .from(TABLE)
+      .select("*")
+      .eq("user_id", userId)
+      .or(`title.ilike.%${pattern}%,content.ilike.%${pattern}%`)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) {
+      throw new Error(`Failed to search documents: ${error.message}`);
+    }
+    return (data || []) as Document[];
+  },
+
+  count: async (userId) => {
+    const { count, error } = await client
+      .from(TABLE)
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if (error) {
+      throw new Error(`Failed to count documents: ${error.message}`);
+    }
+    return count || 0;
+  },
+});
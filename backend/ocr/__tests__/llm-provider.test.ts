@@ -0,0 +1,50 @@
+import { parseLlmCompletion } from "@/backend/ocr/providers/llm";
+
+// Just enough of a PNG for readImageSize: signature and IHDR size
+const pngBase64 = (width: number, height: number) => {
+  const bytes = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes, 0);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write("IHDR", 12, "ascii");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes.toString("base64");
+};
+
+describe("parseLlmCompletion", () => {
+  it("turns line boxes into a layout with words spread across each line", () => {
+    const completion = JSON.stringify({
+      lines: [
+        { text: "Invoice 42", box: [0.1, 0.1, 0.4, 0.05] },
+        { text: "Total due", box: [0.1, 0.8, 0.3, 0.05] },
+      ],
+    });
+
+    const result = parseLlmCompletion(completion, pngBase64(800, 600));
+
+    expect(result.text).toBe("Invoice 42\nTotal due");
+    expect(result.layout).toMatchObject({ imageWidth: 800, imageHeight: 600 });
+    const [first, second] = result.layout!.blocks[0].lines;
+    expect(second.bbox).toEqual({ x: 0.1, y: 0.8, width: 0.3, height: 0.05 });
+    expect(first.words.map((word) => word.text)).toEqual(["Invoice", "42"]);
+    // "Invoice" is 7 of the line's 9 letters
+    expect(first.words[0].bbox.x).toBeCloseTo(0.1);
+    expect(first.words[0].bbox.width).toBeCloseTo((0.4 * 7) / 9);
+    expect(first.words[1].bbox.x).toBeCloseTo(0.1 + (0.4 * 7) / 9);
+  });
+
+  it("accepts JSON wrapped in a code fence", () => {
+    const completion = '```json\n{"lines":[{"text":"Hello","box":[0,0,1,0.1]}]}\n```';
+
+    expect(parseLlmCompletion(completion, pngBase64(100, 100))).toMatchObject({
+      text: "Hello",
+      layout: { blocks: [{ lines: [{ text: "Hello" }] }] },
+    });
+  });
+
+  it("keeps a plain-text answer as text without a layout", () => {
+    const result = parseLlmCompletion("Just some text\non two lines", pngBase64(100, 100));
+
+    expect(result).toEqual({ text: "Just some text\non two lines" });
+  });
+});
@@ -0,0 +1,46 @@
+import { OcrProviderError, runOcr, type OcrProvider } from "@/backend/ocr";
+
+// Never answers; each attempt ends only when runOcr aborts it
+const hangingProvider: OcrProvider = {
+  name: "hanging",
+  extract: ({ signal }) =>
+    new Promise((_, reject) => {
+      signal.addEventListener("abort", () => reject(new Error("Aborted")));
+    }),
+};
+
+const request = { imageBase64: "aGVsbG8=", mimeType: "image/jpeg", languages: [], kind: "document" as const };
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("runOcr", () => {
+  it("retries retryable errors", async () => {
+    const provider: OcrProvider = {
+      name: "flaky",
+      extract: jest
+        .fn()
+        .mockRejectedValueOnce(new OcrProviderError("Busy", { status: 503, retryable: true }))
+        .mockResolvedValueOnce({ text: "Hello" }),
+    };
+
+    const result = await runOcr(provider, request, { timeoutMs: 1000, maxAttempts: 3, baseDelayMs: 1, budgetMs: 5000 });
+
+    expect(result).toMatchObject({ text: "Hello", provider: "flaky", attempts: 2 });
+  });
+
+  it("keeps every attempt and backoff within the budget", async () => {
+    const startTime = Date.now();
+
+    // Per-attempt settings alone would allow over three seconds
+    const result = runOcr(hangingProvider, request, { timeoutMs: 1000, maxAttempts: 3, baseDelayMs: 50, budgetMs: 300 });
+
+    await expect(result).rejects.toMatchObject({ name: "OcrProviderError", retryable: true });
+    expect(Date.now() - startTime).toBeLessThan(900);
+  });
+});
@@ -0,0 +1,43 @@
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const readPngSize = (bytes: Buffer): ImageSize | null => {
+  // 8-byte signature, then the IHDR chunk: length(4) type(4) width(4) height(4)
+  if (bytes.length < 24 || bytes.toString("ascii", 12, 16) !== "IHDR") {
+    return null;
+  }
+  return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+};
+
+const readJpegSize = (bytes: Buffer): ImageSize | null => {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) do not
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+    }
+
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return null;
+};
+
+// Reads dimensions from a PNG or JPEG header without decoding the image
+export const readImageSize = (bytes: Buffer): ImageSize | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+    return readPngSize(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegSize(bytes);
+  }
+  return null;
+};
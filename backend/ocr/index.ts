@@ -0,0 +1,131 @@
+import { getSupabaseAdmin } from "@/backend/db/supabase-admin";
+import { OCR_SERVER_BUDGET_MS } from "@/lib/ocrTimeouts";
+import { createLlmOcrProvider } from "./providers/llm";
+import { createMockOcrProvider } from "./providers/mock";
+import { createTesseractOcrProvider } from "./providers/tesseract";
+import { OcrProviderError, type OcrProvider, type OcrRequest } from "./types";
+
+export * from "./types";
+export { layoutFromLines, layoutFromPlainText, layoutFromTesseract } from "@/lib/ocrLayout";
+export { createLlmOcrProvider } from "./providers/llm";
+export { createMockOcrProvider } from "./providers/mock";
+export { createTesseractOcrProvider } from "./providers/tesseract";
+
+const DOCUMENT_IMAGES_BUCKET = "document-images";
+
+const PROVIDER_FACTORIES: Record<string, () => OcrProvider> = {
+  llm: () => createLlmOcrProvider(),
+  tesseract: () => createTesseractOcrProvider(),
+  mock: () => createMockOcrProvider(),
+};
+
+let _ocrProvider: OcrProvider | null = null;
+
+const DEFAULT_OCR_PROVIDER = "llm";
+
+// Provider is chosen by OCR_PROVIDER so it can be switched server-side
+// without shipping a new app build.
+export const getOcrProvider = (): OcrProvider => {
+  if (!_ocrProvider) {
+    const name = process.env.OCR_PROVIDER || DEFAULT_OCR_PROVIDER;
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`⚠️ Unknown OCR_PROVIDER "${name}", falling back to ${DEFAULT_OCR_PROVIDER}`);
+    }
+    _ocrProvider = (factory || PROVIDER_FACTORIES[DEFAULT_OCR_PROVIDER])();
+    console.log(`🔤 Using OCR provider: ${_ocrProvider.name}`);
+  }
+  return _ocrProvider;
+};
+
+// Swap the provider, e.g. for tests
+export const setOcrProvider = (provider: OcrProvider | null) => {
+  _ocrProvider = provider;
+};
+
+export interface OcrRetryPolicy {
+  timeoutMs: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  // All attempts and backoff together; the app's timeout is set above this
+  budgetMs: number;
+}
+
+export const DEFAULT_OCR_RETRY_POLICY: OcrRetryPolicy = {
+  timeoutMs: Number(process.env.OCR_TIMEOUT_MS) || 30000,
+  maxAttempts: Number(process.env.OCR_MAX_ATTEMPTS) || 3,
+  baseDelayMs: 500,
+  budgetMs: OCR_SERVER_BUDGET_MS,
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Runs a provider with a per-attempt timeout, retrying retryable failures
+// (rate limits, 5xx, network errors, timeouts) with exponential backoff.
+// Attempts are cut short and retries skipped so the whole request stays
+// within the policy's budget.
+export const runOcr = async (
+  provider: OcrProvider,
+  request: Omit<OcrRequest, "signal">,
+  policy: OcrRetryPolicy = DEFAULT_OCR_RETRY_POLICY
+) => {
+  const startTime = Date.now();
+  const deadline = startTime + policy.budgetMs;
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const controller = new AbortController();
+    const attemptTimeoutMs = Math.min(policy.timeoutMs, deadline - Date.now());
+    const timeoutId = setTimeout(() => controller.abort(), attemptTimeoutMs);
+
+    try {
+      const result = await provider.extract({ ...request, signal: controller.signal });
+      return {
+        text: result.text,
+        layout: result.layout,
+        provider: provider.name,
+        attempts: attempt,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new OcrProviderError(`OCR timed out after ${attemptTimeoutMs}ms`, { retryable: true })
+        : error;
+
+      const retryable = lastError instanceof OcrProviderError && lastError.retryable;
+      const backoffMs = policy.baseDelayMs * 2 ** (attempt - 1);
+      if (!retryable || attempt === policy.maxAttempts || Date.now() + backoffMs >= deadline) {
+        break;
+      }
+
+      console.warn(`⚠️ OCR attempt ${attempt} with ${provider.name} failed, retrying:`, lastError);
+      await delay(backoffMs);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw lastError;
+};
+
+// Loads an image uploaded through lib/supabase `storage.uploadImage`
+export const downloadStorageImage = async (path: string) => {
+  const client = getSupabaseAdmin();
+  if (!client) {
+    throw new OcrProviderError("Storage is not configured on this server", { status: 500 });
+  }
+
+  const { data, error } = await client.storage.from(DOCUMENT_IMAGES_BUCKET).download(path);
+  if (error || !data) {
+    // Storage reports a missing object as an error too
+    throw new OcrProviderError(`Failed to download image: ${error?.message || "not found"}`, {
+      status: 404,
+    });
+  }
+
+  const buffer = Buffer.from(await data.arrayBuffer());
+  return {
+    imageBase64: buffer.toString("base64"),
+    mimeType: data.type || "image/jpeg",
+  };
+};
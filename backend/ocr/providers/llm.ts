@@ -0,0 +1,136 @@
+import { getOCRLanguage } from "@/lib/ocrLanguages";
+import { layoutFromLines, type TextLineBox } from "@/lib/ocrLayout";
+import { readImageSize } from "../image-size";
+import {
+  OcrProviderError,
+  type OcrProvider,
+  type OcrProviderResult,
+  type OcrRequest,
+} from "../types";
+
+const DEFAULT_LLM_URL = "https://toolkit.rork.com/text/llm/";
+
+const buildLanguageHint = (languages: OcrRequest["languages"]): string => {
+  if (languages.length === 0) {
+    return "Auto-detect the language.";
+  }
+
+  const definitions = languages.map(getOCRLanguage);
+  const names = definitions.map((language) => language.name).join(" and ");
+  const rtlHint = definitions.some((language) => language.direction === "rtl")
+    ? " Keep right-to-left text in its logical reading order."
+    : "";
+  return `The text is primarily in ${names}.${rtlHint}`;
+};
+
+// Asks for each line with its box so the app gets positions; words are
+// spread across their line afterwards
+const LINE_FORMAT_HINT =
+  'Respond with JSON only, in reading order: {"lines":[{"text":"...","box":[x,y,width,height]}]}, where box is the line\'s bounding box as fractions (0-1) of the image width and height.';
+
+const buildPrompt = ({ languages, kind }: OcrRequest): string => {
+  const languageHint = buildLanguageHint(languages);
+
+  if (kind === "id-card-front" || kind === "id-card-back") {
+    const side = kind === "id-card-front" ? "front" : "back";
+    return `Extract all visible text from the ${side} side of this ID card. Focus on names, numbers, dates, and addresses. ${languageHint} Keep the text exactly as it appears. ${LINE_FORMAT_HINT}`;
+  }
+
+  return `Extract text from this image quickly. ${languageHint} ${LINE_FORMAT_HINT}`;
+};
+
+const isLineBox = (value: unknown): value is { text: string; box: number[] } => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { text, box } = value as { text?: unknown; box?: unknown };
+  return (
+    typeof text === "string" &&
+    Array.isArray(box) &&
+    box.length === 4 &&
+    box.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+};
+
+// Models sometimes wrap the JSON in a code fence or drop boxes; anything that
+// does not parse is kept as plain text without a layout
+const parseLines = (completion: string): TextLineBox[] | null => {
+  const json = completion.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const parsed = JSON.parse(json) as { lines?: unknown };
+    if (!Array.isArray(parsed.lines) || !parsed.lines.every(isLineBox)) {
+      return null;
+    }
+    return parsed.lines.map(({ text, box: [x, y, width, height] }) => ({
+      text,
+      bbox: { x, y, width, height },
+    }));
+  } catch {
+    return null;
+  }
+};
+
+export const parseLlmCompletion = (completion: string, imageBase64: string): OcrProviderResult => {
+  const lines = parseLines(completion);
+  if (!lines) {
+    return { text: completion.trim() || "No text detected" };
+  }
+
+  const text = lines.map((line) => line.text).join("\n").trim();
+  const size = readImageSize(Buffer.from(imageBase64, "base64"));
+  return {
+    text: text || "No text detected",
+    layout: size ? layoutFromLines(lines, size.width, size.height) : undefined,
+  };
+};
+
+// Vision LLM endpoint speaking the Rork toolkit chat format. Reports where
+// each line is; word boxes are estimated within the line.
+export const createLlmOcrProvider = (
+  url: string = process.env.OCR_LLM_URL || DEFAULT_LLM_URL,
+  apiKey: string | undefined = process.env.OCR_LLM_API_KEY
+): OcrProvider => ({
+  name: "llm",
+  extract: async (request) => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: buildPrompt(request) },
+                { type: "image", image: request.imageBase64 },
+              ],
+            },
+          ],
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal.aborted) {
+        throw error;
+      }
+      throw new OcrProviderError(
+        `LLM request failed: ${error instanceof Error ? error.message : "network error"}`,
+        { retryable: true }
+      );
+    }
+
+    if (!response.ok) {
+      throw new OcrProviderError(`AI API error: ${response.status}`, {
+        status: response.status,
+        retryable: response.status === 429 || response.status >= 500,
+      });
+    }
+
+    const data = await response.json();
+    return parseLlmCompletion(data.completion || "", request.imageBase64);
+  },
+});
@@ -0,0 +1,14 @@
+import { layoutFromPlainText } from "@/lib/ocrLayout";
+import type { OcrProvider } from "../types";
+
+// Deterministic provider for tests and local development
+export const createMockOcrProvider = (
+  text: string | undefined = process.env.OCR_MOCK_TEXT
+): OcrProvider => ({
+  name: "mock",
+  extract: async ({ imageBase64, languages, kind }) => {
+    const languageLabel = languages.length > 0 ? languages.join("+") : "auto";
+    const result = text ?? `Mock ${kind} text (${languageLabel}, ${imageBase64.length} bytes of base64)`;
+    return { text: result, layout: layoutFromPlainText(result) };
+  },
+});
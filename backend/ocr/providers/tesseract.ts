@@ -0,0 +1,52 @@
+import type { Worker } from "tesseract.js";
+import { getTesseractLanguages } from "@/lib/ocrLanguages";
+import { layoutFromTesseract } from "@/lib/ocrLayout";
+import { readImageSize } from "../image-size";
+import { OcrProviderError, type OcrProvider } from "../types";
+
+// Runs Tesseract (WASM) in-process. Slower and less accurate than the LLM on
+// photos, but needs no external API and reports where each word is.
+export const createTesseractOcrProvider = (): OcrProvider => ({
+  name: "tesseract",
+  extract: async ({ imageBase64, languages, kind, signal }) => {
+    let worker: Worker | undefined;
+    const terminate = () => {
+      worker?.terminate().catch(() => undefined);
+    };
+    signal.addEventListener("abort", terminate, { once: true });
+
+    try {
+      const { createWorker, PSM } = await import("tesseract.js");
+      worker = await createWorker(getTesseractLanguages(languages));
+      if (signal.aborted) {
+        throw new Error("Aborted");
+      }
+      // ID cards are scattered fields rather than paragraphs
+      if (kind !== "document") {
+        await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      }
+
+      const image = Buffer.from(imageBase64, "base64");
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+      const size = readImageSize(image);
+
+      return {
+        text: data.text.trim() || "No text detected",
+        layout:
+          size && data.blocks
+            ? layoutFromTesseract(data.blocks, size.width, size.height, data.confidence)
+            : undefined,
+      };
+    } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
+      throw new OcrProviderError(
+        `Tesseract failed: ${error instanceof Error ? error.message : "unknown error"}`
+      );
+    } finally {
+      signal.removeEventListener("abort", terminate);
+      terminate();
+    }
+  },
+});
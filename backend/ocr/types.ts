@@ -0,0 +1,42 @@
+import type { OCRLayout } from "@/types/scan";
+import type { OCRLanguageCode } from "@/lib/ocrLanguages";
+
+// Languages come from the registry shared with the app
+export { OCR_LANGUAGE_CODES, MAX_OCR_LANGUAGES } from "@/lib/ocrLanguages";
+export type OcrLanguageCode = OCRLanguageCode;
+
+// What the image shows; providers may tune prompts or page segmentation for it
+export type OcrImageKind = "document" | "id-card-front" | "id-card-back";
+
+export interface OcrRequest {
+  imageBase64: string;
+  mimeType: string;
+  // Empty means auto-detect
+  languages: OcrLanguageCode[];
+  kind: OcrImageKind;
+  signal: AbortSignal;
+}
+
+export interface OcrProviderResult {
+  text: string;
+  // Only providers that report geometry fill this in; the LLM gives line boxes
+  // with estimated words, Tesseract gives word boxes
+  layout?: OCRLayout;
+}
+
+export interface OcrProvider {
+  name: string;
+  extract: (request: OcrRequest) => Promise<OcrProviderResult>;
+}
+
+export class OcrProviderError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = "OcrProviderError";
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
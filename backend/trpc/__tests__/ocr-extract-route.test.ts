@@ -0,0 +1,61 @@
+import { createTRPCRouter, type Context } from "@/backend/trpc/create-context";
+import extractRoute from "@/backend/trpc/routes/ocr/extract/route";
+import { createMockOcrProvider, downloadStorageImage } from "@/backend/ocr";
+
+jest.mock("@/backend/ocr", () => ({
+  ...jest.requireActual("@/backend/ocr"),
+  downloadStorageImage: jest.fn(),
+}));
+
+const download = jest.mocked(downloadStorageImage);
+
+const USER_ID = "user-a";
+const OTHER_USER_ID = "user-b";
+
+const createCaller = () =>
+  createTRPCRouter({ extract: extractRoute }).createCaller({
+    req: new Request("http://localhost/api/trpc/ocr.extract"),
+    user: { id: USER_ID, role: "authenticated" },
+    ocr: createMockOcrProvider("Scanned text"),
+  } as Context);
+
+const extractFromStorage = (path: string) =>
+  createCaller().extract({ image: { source: "storage", path } });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  download.mockResolvedValue({ imageBase64: "aGVsbG8=", mimeType: "image/jpeg" });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("ocr.extract with a storage image", () => {
+  it("reads images in the user's own folder", async () => {
+    const result = await extractFromStorage(`${USER_ID}/1718000000000.jpg`);
+
+    expect(download).toHaveBeenCalledWith(`${USER_ID}/1718000000000.jpg`);
+    expect(result).toMatchObject({ text: "Scanned text", provider: "mock" });
+  });
+
+  it("refuses another user's images", async () => {
+    await expect(extractFromStorage(`${OTHER_USER_ID}/1718000000000.jpg`)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(download).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    `${USER_ID}/../${OTHER_USER_ID}/scan.jpg`,
+    `${USER_ID}/./scan.jpg`,
+    `${USER_ID}//scan.jpg`,
+    `/${USER_ID}/scan.jpg`,
+    `${USER_ID}/%2e%2e/${OTHER_USER_ID}/scan.jpg`,
+    `${USER_ID}\\..\\${OTHER_USER_ID}\\scan.jpg`,
+  ])("refuses a path that could leave the user's folder: %s", async (path) => {
+    await expect(extractFromStorage(path)).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(download).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,30 @@
 import { createTRPCRouter } from "./create-context";
 import hiRoute from "./routes/example/hi/route";
+import listDocumentsRoute from "./routes/documents/list/route";
+import getDocumentByIdRoute from "./routes/documents/get-by-id/route";
+import createDocumentRoute from "./routes/documents/create/route";
+import updateDocumentRoute from "./routes/documents/update/route";
+import deleteDocumentRoute from "./routes/documents/delete/route";
+import searchDocumentsRoute from "./routes/documents/search/route";
+import countDocumentsRoute from "./routes/documents/count/route";
+import extractTextRoute from "./routes/ocr/extract/route";
 
 export const appRouter = createTRPCRouter({
   example: createTRPCRouter({
     hi: hiRoute,
   }),
+  documents: createTRPCRouter({
+    list: listDocumentsRoute,
+    getById: getDocumentByIdRoute,
+    create: createDocumentRoute,
+    update: updateDocumentRoute,
+    delete: deleteDocumentRoute,
+    search: searchDocumentsRoute,
+    count: countDocumentsRoute,
+  }),
+  ocr: createTRPCRouter({
+    extract: extractTextRoute,
+  }),
 });
 
-export type AppRouter = typeof appRouter;
\ No newline at end of file
+export type AppRouter = typeof appRouter;
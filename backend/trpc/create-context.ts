@@ -1,12 +1,17 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { getDocumentRepository } from "@/backend/db";
+import { getUserFromRequest } from "@/backend/auth/jwt";
+import { getOcrProvider } from "@/backend/ocr";
 
 // Context creation function
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
   return {
     req: opts.req,
-    // You can add more context items here like database connections, auth, etc.
+    user: await getUserFromRequest(opts.req),
+    documents: getDocumentRepository(),
+    ocr: getOcrProvider(),
   };
 };
 
@@ -18,4 +23,21 @@ const t = initTRPC.context<Context>().create({
 });
 
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
\ No newline at end of file
+export const publicProcedure = t.procedure;
+
+// Procedures that require a verified Supabase session. Narrows ctx.user to non-null.
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be signed in to do this",
+    });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user,
+    },
+  });
+});
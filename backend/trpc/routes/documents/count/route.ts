@@ -0,0 +1,5 @@
+import { protectedProcedure } from "@/backend/trpc/create-context";
+
+export default protectedProcedure.query(async ({ ctx }) => {
+  return { count: await ctx.documents.count(ctx.user.id) };
+});
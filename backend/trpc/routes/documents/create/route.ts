@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { documentFieldsSchema } from "../schemas";
+
+export default protectedProcedure
+  .input(z.object({ document: documentFieldsSchema }))
+  .mutation(({ ctx, input }) => {
+    return ctx.documents.create(ctx.user.id, input.document);
+  });
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { documentIdSchema } from "../schemas";
+
+export default protectedProcedure
+  .input(z.object({ id: documentIdSchema }))
+  .mutation(async ({ ctx, input }) => {
+    const deleted = await ctx.documents.delete(ctx.user.id, input.id);
+    if (!deleted) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+    }
+    return { id: input.id };
+  });
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { documentIdSchema } from "../schemas";
+
+export default protectedProcedure
+  .input(z.object({ id: documentIdSchema }))
+  .query(async ({ ctx, input }) => {
+    const document = await ctx.documents.getById(ctx.user.id, input.id);
+    if (!document) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+    }
+    return document;
+  });
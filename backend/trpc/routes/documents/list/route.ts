@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+
+export default protectedProcedure
+  .input(
+    z.object({
+      limit: z.number().int().min(1).max(100).default(15),
+      cursor: z.string().nullish(),
+    })
+  )
+  .query(({ ctx, input }) => {
+    return ctx.documents.list(ctx.user.id, {
+      limit: input.limit,
+      cursor: input.cursor,
+    });
+  });
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const documentIdSchema = z.string().min(1);
+
+export const documentFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  content: z.string().max(1_000_000),
+  formatted_content: z.string().max(2_000_000).optional(),
+  image_url: z.string().optional(),
+  thumbnail_low_url: z.string().optional(),
+  thumbnail_medium_url: z.string().optional(),
+  thumbnail_high_url: z.string().optional(),
+});
+
+export const documentUpdatesSchema = documentFieldsSchema
+  .partial()
+  .refine((updates) => Object.values(updates).some((value) => value !== undefined), {
+    message: "At least one field must be updated",
+  });
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+
+export default protectedProcedure
+  .input(
+    z.object({
+      query: z.string().trim().min(1).max(200),
+      limit: z.number().int().min(1).max(100).default(50),
+      offset: z.number().int().min(0).default(0),
+    })
+  )
+  .query(({ ctx, input }) => {
+    return ctx.documents.search(ctx.user.id, input.query, {
+      limit: input.limit,
+      offset: input.offset,
+    });
+  });
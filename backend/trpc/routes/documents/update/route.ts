@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { documentIdSchema, documentUpdatesSchema } from "../schemas";
+
+export default protectedProcedure
+  .input(
+    z.object({
+      id: documentIdSchema,
+      updates: documentUpdatesSchema,
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    const document = await ctx.documents.update(ctx.user.id, input.id, input.updates);
+    if (!document) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+    }
+    return document;
+  });
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import {
+  MAX_OCR_LANGUAGES,
+  OCR_LANGUAGE_CODES,
+  OcrProviderError,
+  downloadStorageImage,
+  runOcr,
+} from "@/backend/ocr";
+
+// ~15MB of base64, comfortably above an optimized page scan
+const MAX_BASE64_LENGTH = 20_000_000;
+
+// Uploads are stored as "<userId>/<file>" (see storage.uploadImage). Every
+// segment must be a plain name: storage normalizes the URL before the admin
+// client fetches it, so "<userId>/../<otherId>/scan.jpg" would otherwise reach
+// another user's folder.
+const STORAGE_PATH_SEGMENT = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+const storagePathSchema = z
+  .string()
+  .min(1)
+  .max(512)
+  .refine((path) => path.split("/").every((segment) => STORAGE_PATH_SEGMENT.test(segment)), {
+    message: "Invalid storage path",
+  });
+
+const imageSchema = z.discriminatedUnion("source", [
+  z.object({
+    source: z.literal("base64"),
+    data: z.string().min(1).max(MAX_BASE64_LENGTH),
+    mimeType: z.string().default("image/jpeg"),
+  }),
+  z.object({
+    source: z.literal("storage"),
+    path: storagePathSchema,
+  }),
+]);
+
+// Retries happen inside runOcr, so by the time an error gets here it is final.
+// Only failures on the server's side are 5xx; an image the provider cannot read
+// is the request's problem.
+const getErrorCode = (error: unknown): TRPCError["code"] => {
+  if (!(error instanceof OcrProviderError)) return "INTERNAL_SERVER_ERROR";
+  if (error.status === 429) return "TOO_MANY_REQUESTS";
+  // Timeouts, network errors and provider outages that outlasted the retries
+  if (error.retryable) return "SERVICE_UNAVAILABLE";
+  if (error.status === 404) return "NOT_FOUND";
+  // The provider rejected our credentials, or the server is misconfigured
+  if (error.status === 401 || error.status === 403 || (error.status ?? 0) >= 500) {
+    return "INTERNAL_SERVER_ERROR";
+  }
+  return "UNPROCESSABLE_CONTENT";
+};
+
+export default protectedProcedure
+  .input(
+    z.object({
+      image: imageSchema,
+      // Empty means auto-detect
+      languages: z.array(z.enum(OCR_LANGUAGE_CODES)).max(MAX_OCR_LANGUAGES).default([]),
+      kind: z.enum(["document", "id-card-front", "id-card-back"]).default("document"),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    const { image } = input;
+
+    // The path is validated above, so its first segment is the owner's folder
+    if (image.source === "storage" && image.path.split("/")[0] !== ctx.user.id) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Image does not belong to this user" });
+    }
+
+    try {
+      const loaded =
+        image.source === "base64"
+          ? { imageBase64: image.data, mimeType: image.mimeType }
+          : await downloadStorageImage(image.path);
+
+      return await runOcr(ctx.ocr, {
+        ...loaded,
+        languages: input.languages,
+        kind: input.kind,
+      });
+    } catch (error) {
+      console.error(`❌ OCR failed for user ${ctx.user.id}:`, error);
+      throw new TRPCError({
+        code: getErrorCode(error),
+        message: error instanceof Error ? error.message : "OCR processing failed",
+        cause: error,
+      });
+    }
+  });
@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { ChevronRight } from 'lucide-react-native';
+import { ExportMenuEntry } from '@/lib/exportUtils';
+
+interface ExportFormatSheetProps {
+  visible: boolean;
+  entries: ExportMenuEntry[];
+  onClose: () => void;
+  title?: string;
+}
+
+// A bottom sheet rather than an alert, which Android cuts off at three buttons
+export default function ExportFormatSheet({
+  visible,
+  entries,
+  onClose,
+  title = 'Export Document',
+}: ExportFormatSheetProps) {
+  const handleSelect = (entry: ExportMenuEntry) => {
+    onClose();
+    entry.onPress();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose}>
+        <View style={styles.sheet} onStartShouldSetResponder={() => true}>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.subtitle}>Choose export format:</Text>
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            {entries.map(entry => (
+              <TouchableOpacity
+                key={entry.key}
+                style={styles.option}
+                onPress={() => handleSelect(entry)}
+                testID={`export-format-${entry.key}`}
+              >
+                <Text style={styles.optionText}>{entry.label}</Text>
+                <ChevronRight size={18} color="#C7C7CC" />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '80%',
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  cancelButton: {
+    marginTop: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#0066CC',
+    fontWeight: '500',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -6,30 +6,59 @@ import {
   TouchableOpacity,
   Modal,
   ScrollView,
+  TextInput,
   Alert,
 } from 'react-native';
-import { Check, ChevronDown, Globe } from 'lucide-react-native';
-import { useOCRSettings, OCRLanguage, OCRLanguageOption } from '@/contexts/OCRSettingsContext';
+import { Check, ChevronDown, Globe, Search } from 'lucide-react-native';
+import { useOCRSettings } from '@/contexts/OCRSettingsContext';
+import {
+  OCR_LANGUAGE_GROUPS,
+  OCRLanguageCode,
+  OCRLanguageDefinition,
+  formatLanguageSelection,
+} from '@/lib/ocrLanguages';
 
 interface LanguageSelectorProps {
-  onLanguageChange?: (language: OCRLanguage) => void;
+  onLanguageChange?: (languages: OCRLanguageCode[]) => void;
 }
 
 export default function LanguageSelector({ onLanguageChange }: LanguageSelectorProps) {
-  const { selectedLanguage, languages, setLanguage, getLanguageNativeName } = useOCRSettings();
+  const { selectedLanguages, selectionLabel, languages, maxLanguages, setLanguages } = useOCRSettings();
   const [showModal, setShowModal] = useState(false);
   const [isChanging, setIsChanging] = useState(false);
+  const [query, setQuery] = useState('');
+  // Edited in the modal and saved on Done
+  const [draft, setDraft] = useState<OCRLanguageCode[]>([]);
+
+  const openModal = () => {
+    setDraft(selectedLanguages);
+    setQuery('');
+    setShowModal(true);
+  };
 
-  const handleLanguageSelect = async (language: OCRLanguage) => {
-    if (language === selectedLanguage) {
+  const toggleLanguage = (code: OCRLanguageCode) => {
+    if (draft.includes(code)) {
+      setDraft(draft.filter(selected => selected !== code));
+    } else if (draft.length >= maxLanguages) {
+      Alert.alert('Too Many Languages', `You can combine up to ${maxLanguages} languages. Remove one to add another.`);
+    } else {
+      setDraft([...draft, code]);
+    }
+  };
+
+  const handleDone = async () => {
+    const unchanged =
+      draft.length === selectedLanguages.length &&
+      draft.every((code, index) => code === selectedLanguages[index]);
+    if (unchanged) {
       setShowModal(false);
       return;
     }
 
     setIsChanging(true);
     try {
-      await setLanguage(language);
-      onLanguageChange?.(language);
+      await setLanguages(draft);
+      onLanguageChange?.(draft);
       setShowModal(false);
     } catch (error) {
       console.error('Error changing language:', error);
@@ -39,42 +68,61 @@ export default function LanguageSelector({ onLanguageChange }: LanguageSelectorP
     }
   };
 
-  const LanguageOption = ({ option }: { option: OCRLanguageOption }) => (
-    <TouchableOpacity
-      style={[
-        styles.languageOption,
-        selectedLanguage === option.code && styles.selectedOption,
-      ]}
-      onPress={() => handleLanguageSelect(option.code)}
-      disabled={isChanging}
-    >
-      <View style={styles.languageInfo}>
-        <Text style={[
-          styles.languageName,
-          selectedLanguage === option.code && styles.selectedText,
-        ]}>
-          {option.name}
-        </Text>
-        {option.nativeName !== option.name && (
-          <Text style={[
-            styles.nativeName,
-            selectedLanguage === option.code && styles.selectedSubtext,
-          ]}>
-            {option.nativeName}
+  // Matches English and native names as well as the language code
+  const groups = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const matches = (language: OCRLanguageDefinition) =>
+      !needle ||
+      language.name.toLowerCase().includes(needle) ||
+      language.nativeName.toLowerCase().includes(needle) ||
+      language.code.toLowerCase() === needle;
+
+    return OCR_LANGUAGE_GROUPS
+      .map(group => ({
+        title: group.title,
+        languages: languages.filter(
+          (language: OCRLanguageDefinition) => group.scripts.includes(language.script) && matches(language)
+        ),
+      }))
+      .filter(group => group.languages.length > 0);
+  }, [languages, query]);
+
+  const LanguageOption = ({ option }: { option: OCRLanguageDefinition }) => {
+    const isSelected = draft.includes(option.code as OCRLanguageCode);
+    return (
+      <TouchableOpacity
+        style={[styles.languageOption, isSelected && styles.selectedOption]}
+        onPress={() => toggleLanguage(option.code as OCRLanguageCode)}
+        disabled={isChanging}
+      >
+        <View style={styles.languageInfo}>
+          <Text style={[styles.languageName, isSelected && styles.selectedText]}>
+            {option.name}
           </Text>
+          {option.nativeName !== option.name && (
+            <Text
+              style={[
+                styles.nativeName,
+                option.direction === 'rtl' && styles.rtlText,
+                isSelected && styles.selectedSubtext,
+              ]}
+            >
+              {option.nativeName}
+            </Text>
+          )}
+        </View>
+        {isSelected && (
+          <Check size={20} color="#0066CC" />
         )}
-      </View>
-      {selectedLanguage === option.code && (
-        <Check size={20} color="#0066CC" />
-      )}
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <>
       <TouchableOpacity
         style={styles.selectorButton}
-        onPress={() => setShowModal(true)}
+        onPress={openModal}
         testID="language-selector-button"
       >
         <View style={styles.selectorLeft}>
@@ -84,7 +132,7 @@ export default function LanguageSelector({ onLanguageChange }: LanguageSelectorP
           <View style={styles.textContainer}>
             <Text style={styles.selectorTitle}>OCR Language</Text>
             <Text style={styles.selectorSubtitle}>
-              {getLanguageNativeName(selectedLanguage)}
+              {selectionLabel}
             </Text>
           </View>
         </View>
@@ -105,19 +153,74 @@ export default function LanguageSelector({ onLanguageChange }: LanguageSelectorP
             >
               <Text style={styles.cancelText}>Cancel</Text>
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>Select OCR Language</Text>
-            <View style={styles.placeholder} />
+            <Text style={styles.modalTitle}>OCR Languages</Text>
+            <TouchableOpacity
+              style={styles.doneButton}
+              onPress={handleDone}
+              disabled={isChanging}
+            >
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
           </View>
 
-          <ScrollView style={styles.languageList} showsVerticalScrollIndicator={false}>
+          <View style={styles.searchContainer}>
+            <Search size={18} color="#8E8E93" />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search languages"
+              placeholderTextColor="#8E8E93"
+              autoCorrect={false}
+              autoCapitalize="none"
+              clearButtonMode="while-editing"
+            />
+          </View>
+
+          <ScrollView
+            style={styles.languageList}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
             <View style={styles.languageSection}>
               <Text style={styles.sectionDescription}>
-                Choose the primary language for text extraction. Auto-detect will attempt to identify the language automatically.
+                Choose up to {maxLanguages} languages that appear in your documents, e.g. English + German. With none selected, the language is detected automatically.
               </Text>
-              
-              {languages.map((language) => (
-                <LanguageOption key={language.code} option={language} />
+
+              {!query && (
+                <TouchableOpacity
+                  style={[styles.languageOption, draft.length === 0 && styles.selectedOption]}
+                  onPress={() => setDraft([])}
+                  disabled={isChanging}
+                >
+                  <View style={styles.languageInfo}>
+                    <Text style={[styles.languageName, draft.length === 0 && styles.selectedText]}>
+                      Auto-detect
+                    </Text>
+                    {draft.length > 0 && (
+                      <Text style={styles.nativeName}>
+                        Selected: {formatLanguageSelection(draft)}
+                      </Text>
+                    )}
+                  </View>
+                  {draft.length === 0 && (
+                    <Check size={20} color="#0066CC" />
+                  )}
+                </TouchableOpacity>
+              )}
+
+              {groups.map(group => (
+                <View key={group.title} style={styles.group}>
+                  <Text style={styles.groupTitle}>{group.title}</Text>
+                  {group.languages.map((language: OCRLanguageDefinition) => (
+                    <LanguageOption key={language.code} option={language} />
+                  ))}
+                </View>
               ))}
+
+              {groups.length === 0 && (
+                <Text style={styles.emptyText}>No languages match “{query.trim()}”</Text>
+              )}
             </View>
           </ScrollView>
         </View>
@@ -191,8 +294,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1A1A1A',
   },
-  placeholder: {
-    width: 60,
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  doneText: {
+    fontSize: 16,
+    color: '#0066CC',
+    fontWeight: '600',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#1A1A1A',
   },
   languageList: {
     flex: 1,
@@ -207,6 +332,23 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     textAlign: 'center',
   },
+  group: {
+    marginTop: 16,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
   languageOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -239,8 +381,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  rtlText: {
+    writingDirection: 'rtl',
+  },
   selectedSubtext: {
     color: '#0066CC',
     opacity: 0.8,
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { View, Text, Switch, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Smartphone } from 'lucide-react-native';
+import { useOCRSettings } from '@/contexts/OCRSettingsContext';
+import { prepareOnDeviceOCR } from '@/lib/onDeviceOcr';
+
+// Only shown where on-device OCR is available, which is the web build
+export default function OnDeviceOCRToggle() {
+  const { engineMode, setEngineMode, selectedLanguages } = useOCRSettings();
+  const [isPreparing, setIsPreparing] = useState(false);
+
+  const handleToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      await setEngineMode('auto');
+      return;
+    }
+
+    // Download the engine and language data now, while we still have signal
+    setIsPreparing(true);
+    try {
+      await prepareOnDeviceOCR(selectedLanguages);
+      await setEngineMode('on-device');
+    } catch (error) {
+      console.error('Error preparing on-device OCR:', error);
+      Alert.alert('Download Failed', 'Could not download the on-device OCR engine. Please connect to the internet and try again.');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const subtitle = engineMode === 'on-device'
+    ? 'Images never leave this device'
+    : 'Used automatically when you are offline';
+
+  return (
+    <View style={styles.settingItem}>
+      <View style={styles.settingLeft}>
+        <View style={styles.iconContainer}>
+          <Smartphone size={20} color="#0066CC" />
+        </View>
+        <View style={styles.textContainer}>
+          <Text style={styles.settingTitle}>On-device Only</Text>
+          <Text style={styles.settingSubtitle}>{subtitle}</Text>
+        </View>
+      </View>
+      {isPreparing ? (
+        <ActivityIndicator size="small" color="#0066CC" />
+      ) : (
+        <Switch
+          value={engineMode === 'on-device'}
+          onValueChange={handleToggle}
+          trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+          thumbColor="#FFFFFF"
+          ios_backgroundColor="#E5E5EA"
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 18,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  settingLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 3,
+  },
+  settingSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react-native';
+import {
+  PRESET_STEP_INFO,
+  PRESET_STEP_TYPES,
+  PresetStep,
+  PresetStepType,
+  ProcessingPreset,
+  parsePresets,
+  serializePresets,
+} from '@/lib/processingPresets';
+
+interface PresetEditorProps {
+  preset: ProcessingPreset;
+  onSave: (preset: ProcessingPreset) => Promise<void>;
+  onCancel: () => void;
+}
+
+// A step being edited, with its parameters as typed so partial numbers like
+// "0." survive until the preset is saved
+interface DraftStep {
+  key: string;
+  type: PresetStepType;
+  params: Record<string, string>;
+}
+
+let draftStepCounter = 0;
+
+const toDraftStep = (step: PresetStep): DraftStep => {
+  const params: Record<string, string> = {};
+  for (const param of PRESET_STEP_INFO[step.type].params) {
+    const value = (step as Record<string, unknown>)[param.key];
+    params[param.key] = typeof value === 'number' ? String(value) : '';
+  }
+  return { key: `step-${draftStepCounter++}`, type: step.type, params };
+};
+
+export default function PresetEditor({ preset, onSave, onCancel }: PresetEditorProps) {
+  const [name, setName] = useState(preset.name);
+  const [description, setDescription] = useState(preset.description ?? '');
+  const [quality, setQuality] = useState(String(Math.round(preset.quality * 100)));
+  const [steps, setSteps] = useState<DraftStep[]>(() => preset.steps.map(toDraftStep));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(steps.filter((_, i) => i !== index));
+  };
+
+  const addStep = (type: PresetStepType) => {
+    setSteps([...steps, toDraftStep({ type } as PresetStep)]);
+  };
+
+  const setParam = (index: number, key: string, value: string) => {
+    setSteps(steps.map((step, i) => (
+      i === index ? { ...step, params: { ...step.params, [key]: value } } : step
+    )));
+  };
+
+  const handleSave = async () => {
+    // JSON turns NaN into null, which would quietly fall back to defaults
+    const numbers = [quality, ...steps.flatMap(step => Object.values(step.params))];
+    if (!quality.trim() || numbers.some(text => text.trim() !== '' && !Number.isFinite(Number(text)))) {
+      Alert.alert('Invalid Preset', 'Quality and step settings must be numbers.');
+      return;
+    }
+
+    const draft = {
+      id: preset.id,
+      name,
+      description: description.trim() || undefined,
+      quality: Number(quality) / 100,
+      steps: steps.map(step => {
+        const values: Record<string, unknown> = { type: step.type };
+        for (const [key, text] of Object.entries(step.params)) {
+          if (text.trim()) values[key] = Number(text);
+        }
+        return values;
+      }),
+    };
+
+    let validated: ProcessingPreset;
+    try {
+      // Same checks as an imported preset
+      [validated] = parsePresets(serializePresets([draft as ProcessingPreset]));
+    } catch (error) {
+      Alert.alert('Invalid Preset', error instanceof Error ? error.message : 'Please check the preset.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(validated);
+    } catch (error) {
+      console.error('Error saving preset:', error);
+      Alert.alert('Error', 'Failed to save preset. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Edit Preset</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={handleSave} disabled={isSaving}>
+          <Text style={styles.saveText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.label}>Name</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g. Faded invoices"
+          placeholderTextColor="#9CA3AF"
+        />
+
+        <Text style={styles.label}>Description</Text>
+        <TextInput
+          style={styles.input}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Optional"
+          placeholderTextColor="#9CA3AF"
+        />
+
+        <Text style={styles.label}>JPEG quality (%)</Text>
+        <TextInput
+          style={styles.input}
+          value={quality}
+          onChangeText={setQuality}
+          keyboardType="numeric"
+        />
+
+        <Text style={styles.sectionTitle}>Steps</Text>
+        <Text style={styles.sectionDescription}>
+          Steps run from top to bottom. Leave a value empty to use its default.
+        </Text>
+
+        {steps.map((step, index) => {
+          const info = PRESET_STEP_INFO[step.type];
+          return (
+            <View key={step.key} style={styles.stepCard}>
+              <View style={styles.stepHeader}>
+                <Text style={styles.stepNumber}>{index + 1}</Text>
+                <View style={styles.stepInfo}>
+                  <Text style={styles.stepTitle}>{info.label}</Text>
+                  <Text style={styles.stepDescription}>{info.description}</Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ChevronUp size={18} color={index === 0 ? '#D1D5DB' : '#374151'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveStep(index, 1)}
+                  disabled={index === steps.length - 1}
+                >
+                  <ChevronDown size={18} color={index === steps.length - 1 ? '#D1D5DB' : '#374151'} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => removeStep(index)}>
+                  <X size={18} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+
+              {info.params.map(param => (
+                <View key={param.key} style={styles.paramRow}>
+                  <Text style={styles.paramLabel}>{param.label}</Text>
+                  <TextInput
+                    style={styles.paramInput}
+                    value={step.params[param.key]}
+                    onChangeText={value => setParam(index, param.key, value)}
+                    placeholder={param.defaultValue !== undefined ? String(param.defaultValue) : 'Auto'}
+                    placeholderTextColor="#9CA3AF"
+                    keyboardType="numeric"
+                  />
+                </View>
+              ))}
+            </View>
+          );
+        })}
+
+        <Text style={styles.label}>Add step</Text>
+        <View style={styles.chips}>
+          {PRESET_STEP_TYPES.map(type => (
+            <TouchableOpacity key={type} style={styles.chip} onPress={() => addStep(type)}>
+              <Plus size={14} color="#0066CC" />
+              <Text style={styles.chipText}>{PRESET_STEP_INFO[type].label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E8E8',
+  },
+  headerButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#0066CC',
+    fontWeight: '500',
+  },
+  saveText: {
+    fontSize: 16,
+    color: '#0066CC',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1A1A1A',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginTop: 24,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  stepCard: {
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepNumber: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0066CC',
+  },
+  stepInfo: {
+    flex: 1,
+  },
+  stepTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  stepDescription: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  paramRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+    paddingLeft: 24,
+  },
+  paramLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  paramInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#1A1A1A',
+    textAlign: 'right',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingBottom: 40,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#E3F2FD',
+    gap: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#0066CC',
+  },
+});
@@ -0,0 +1,418 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+} from 'react-native';
+import { Check, ChevronDown, Copy, Edit3, Share2, SlidersHorizontal, Trash2 } from 'lucide-react-native';
+import { useProcessingPresets } from '@/contexts/ProcessingPresetsContext';
+import { PRESET_STEP_INFO, ProcessingPreset } from '@/lib/processingPresets';
+import PresetEditor from '@/components/PresetEditor';
+
+const describeSteps = (preset: ProcessingPreset) =>
+  preset.steps.map(step => PRESET_STEP_INFO[step.type].label).join(' → ');
+
+export default function ProcessingPresetManager() {
+  const {
+    presets,
+    customPresets,
+    selectedPreset,
+    selectPreset,
+    savePreset,
+    duplicatePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  } = useProcessingPresets();
+  const [showModal, setShowModal] = useState(false);
+  const [editingPreset, setEditingPreset] = useState<ProcessingPreset | null>(null);
+  const [importText, setImportText] = useState('');
+
+  const handleSelect = async (preset: ProcessingPreset) => {
+    try {
+      await selectPreset(preset.id);
+    } catch {
+      Alert.alert('Error', 'Failed to select preset. Please try again.');
+    }
+  };
+
+  const handleDuplicate = async (preset: ProcessingPreset) => {
+    try {
+      const copy = await duplicatePreset(preset.id);
+      setEditingPreset(copy);
+    } catch {
+      Alert.alert('Error', 'Failed to duplicate preset. Please try again.');
+    }
+  };
+
+  const handleDelete = (preset: ProcessingPreset) => {
+    Alert.alert(
+      'Delete Preset',
+      `Are you sure you want to delete "${preset.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePreset(preset.id);
+            } catch {
+              Alert.alert('Error', 'Failed to delete preset. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleShare = async (ids?: string[]) => {
+    try {
+      await Share.share({ message: exportPresets(ids), title: 'Processing presets' });
+    } catch (error) {
+      console.error('Error sharing presets:', error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importPresets(importText);
+      setImportText('');
+      Alert.alert(
+        'Presets Imported',
+        `Added ${imported.map(preset => `"${preset.name}"`).join(', ')}.`
+      );
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Please check the preset JSON.');
+    }
+  };
+
+  const handleSaveEdit = async (preset: ProcessingPreset) => {
+    await savePreset(preset);
+    setEditingPreset(null);
+  };
+
+  const renderPreset = (preset: ProcessingPreset) => {
+    const isSelected = preset.id === selectedPreset.id;
+    return (
+      <TouchableOpacity
+        key={preset.id}
+        style={[styles.presetOption, isSelected && styles.selectedOption]}
+        onPress={() => handleSelect(preset)}
+      >
+        <View style={styles.presetHeader}>
+          <View style={styles.presetInfo}>
+            <Text style={[styles.presetName, isSelected && styles.selectedText]}>
+              {preset.name}
+            </Text>
+            {preset.description && (
+              <Text style={styles.presetDescription}>{preset.description}</Text>
+            )}
+          </View>
+          {isSelected && <Check size={20} color="#0066CC" />}
+        </View>
+        <Text style={styles.presetSteps} numberOfLines={2}>
+          {describeSteps(preset)}
+        </Text>
+        <View style={styles.presetActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDuplicate(preset)}>
+            <Copy size={14} color="#3B82F6" />
+            <Text style={styles.actionText}>Duplicate</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleShare([preset.id])}>
+            <Share2 size={14} color="#3B82F6" />
+            <Text style={styles.actionText}>Share</Text>
+          </TouchableOpacity>
+          {!preset.builtIn && (
+            <>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setEditingPreset(preset)}>
+                <Edit3 size={14} color="#3B82F6" />
+                <Text style={styles.actionText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(preset)}>
+                <Trash2 size={14} color="#EF4444" />
+                <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.selectorButton} onPress={() => setShowModal(true)}>
+        <View style={styles.selectorLeft}>
+          <View style={styles.iconContainer}>
+            <SlidersHorizontal size={20} color="#0066CC" />
+          </View>
+          <View style={styles.textContainer}>
+            <Text style={styles.selectorTitle}>Processing Preset</Text>
+            <Text style={styles.selectorSubtitle}>{selectedPreset.name}</Text>
+          </View>
+        </View>
+        <ChevronDown size={20} color="#C7C7CC" />
+      </TouchableOpacity>
+
+      <Modal
+        visible={showModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowModal(false)}
+      >
+        {editingPreset ? (
+          <PresetEditor
+            preset={editingPreset}
+            onSave={handleSaveEdit}
+            onCancel={() => setEditingPreset(null)}
+          />
+        ) : (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <View style={styles.headerSpacer} />
+              <Text style={styles.modalTitle}>Processing Presets</Text>
+              <TouchableOpacity style={styles.doneButton} onPress={() => setShowModal(false)}>
+                <Text style={styles.doneText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              style={styles.presetList}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={styles.sectionDescription}>
+                The selected preset is applied to every new scan. Duplicate a built-in preset to customise it.
+              </Text>
+
+              {presets.map(renderPreset)}
+
+              <Text style={styles.groupTitle}>Share & Import</Text>
+              {customPresets.length > 0 && (
+                <TouchableOpacity style={styles.shareAllButton} onPress={() => handleShare()}>
+                  <Share2 size={16} color="#0066CC" />
+                  <Text style={styles.shareAllText}>
+                    Share my {customPresets.length} preset{customPresets.length !== 1 ? 's' : ''}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TextInput
+                style={styles.importInput}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder="Paste preset JSON shared by your team"
+                placeholderTextColor="#9CA3AF"
+                multiline
+                autoCorrect={false}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                style={[styles.importButton, !importText.trim() && styles.importButtonDisabled]}
+                onPress={handleImport}
+                disabled={!importText.trim()}
+              >
+                <Text style={styles.importButtonText}>Import</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        )}
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  selectorButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 18,
+    paddingHorizontal: 20,
+  },
+  selectorLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  selectorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 3,
+  },
+  selectorSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8E8E8',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  doneButton: {
+    width: 60,
+    paddingVertical: 8,
+    alignItems: 'flex-end',
+  },
+  doneText: {
+    fontSize: 16,
+    color: '#0066CC',
+    fontWeight: '600',
+  },
+  presetList: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  presetOption: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  selectedOption: {
+    backgroundColor: '#E3F2FD',
+    borderColor: '#0066CC',
+  },
+  presetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  presetInfo: {
+    flex: 1,
+  },
+  presetName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 2,
+  },
+  selectedText: {
+    color: '#0066CC',
+  },
+  presetDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  presetSteps: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+    lineHeight: 16,
+  },
+  presetActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  deleteText: {
+    color: '#EF4444',
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  shareAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 8,
+  },
+  shareAllText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#0066CC',
+  },
+  importInput: {
+    minHeight: 100,
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    color: '#1A1A1A',
+    textAlignVertical: 'top',
+  },
+  importButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 12,
+    marginBottom: 40,
+    backgroundColor: '#0066CC',
+    borderRadius: 12,
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
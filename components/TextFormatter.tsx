@@ -8,14 +8,12 @@ import {
   ScrollView,
   Alert,
   Platform,
-  Share,
   Modal,
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import ViewShot from 'react-native-view-shot';
+import ViewShot, { captureRef } from 'react-native-view-shot';
 import * as FileSystem from 'expo-file-system';
-import * as MediaLibrary from 'expo-media-library';
 import {
   Type,
   Bold,
@@ -31,9 +29,23 @@ import {
   RotateCcw,
 } from 'lucide-react-native';
 import Svg, { Path } from 'react-native-svg';
+import { getTextDirection } from '@/lib/ocrLanguages';
+import { ExportMenuEntry, alertExportResult } from '@/lib/exportUtils';
+import ExportFormatSheet from '@/components/ExportFormatSheet';
+import { EXPORT_FORMATS } from '@/lib/exportFormats';
+import { ExportEncoder, exportFile } from '@/lib/exportService';
+import { getDefaultDeliveryTarget } from '@/lib/exportTargets';
+import { StyledTextRun } from '@/lib/documentContent';
+import { SignatureStroke } from '@/lib/signatureImage';
+import { textPDFEncoder, PDFTextRun } from '@/lib/pdfExport';
+import { base64ToBytes } from '@/lib/imagePixels';
 
 interface TextFormatterProps {
   initialText: string;
+  // Formatting and signatures from an imported document; the runs are used
+  // only while they still spell out initialText
+  initialRuns?: StyledTextRun[];
+  initialSignatures?: SignatureStroke[];
   onBack: () => void;
   documentId?: string;
 }
@@ -82,12 +94,71 @@ const TEXT_COLORS = {
   purple: '#AF52DE',
 };
 
-export default function TextFormatter({ initialText, onBack, documentId }: TextFormatterProps) {
-  const [segments, setSegments] = useState<TextSegment[]>([{ text: initialText, style: {} }]);
+// Reverse of the run conversion in exportAsDOC. Sizes and colours the
+// formatter doesn't offer are dropped.
+const findKey = <T extends string>(values: Record<T, string | number>, value: string | number | undefined) =>
+  value === undefined
+    ? undefined
+    : (Object.keys(values) as T[]).find(key => values[key] === value);
+
+const runsToSegments = (runs: StyledTextRun[]): TextSegment[] =>
+  runs.map(run => ({
+    text: run.text,
+    style: {
+      bold: run.bold,
+      italic: run.italic,
+      underline: run.underline,
+      fontSize: findKey<FontSize>(FONT_SIZES, run.fontSize),
+      color: findKey<TextColor>(TEXT_COLORS, run.color),
+      align: run.align,
+    },
+  }));
+
+const FORMATTED_HTML_ENCODER: ExportEncoder<string> = {
+  extension: 'html',
+  mimeType: 'text/html',
+  encode: async html => html,
+};
+
+// Reads back the image ViewShot captured: a file on native, a data URI on web
+const readCapturedImage = async (uri: string): Promise<Uint8Array> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  return base64ToBytes(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+};
+
+const CAPTURED_IMAGE_ENCODERS: Record<'png' | 'jpg', ExportEncoder<() => Promise<string>>> = {
+  png: {
+    extension: 'png',
+    mimeType: 'image/png',
+    encode: async capture => readCapturedImage(await capture()),
+  },
+  jpg: {
+    extension: 'jpg',
+    mimeType: 'image/jpeg',
+    encode: async capture => readCapturedImage(await capture()),
+  },
+};
+
+export default function TextFormatter({
+  initialText,
+  initialRuns,
+  initialSignatures,
+  onBack,
+  documentId,
+}: TextFormatterProps) {
+  const [segments, setSegments] = useState<TextSegment[]>(() =>
+    initialRuns && initialRuns.map(run => run.text).join('') === initialText
+      ? runsToSegments(initialRuns)
+      : [{ text: initialText, style: {} }]
+  );
   const [currentStyle, setCurrentStyle] = useState<TextStyle>({});
   const [isExporting, setIsExporting] = useState(false);
   const [showSignatureModal, setShowSignatureModal] = useState(false);
-  const [signatures, setSignatures] = useState<Signature[]>([]);
+  const [showExportSheet, setShowExportSheet] = useState(false);
+  const [signatures, setSignatures] = useState<Signature[]>(initialSignatures ?? []);
   const [currentSignature, setCurrentSignature] = useState<Signature | null>(null);
   const [signatureColor, setSignatureColor] = useState('#000000');
   const [signatureStrokeWidth, setSignatureStrokeWidth] = useState(3);
@@ -101,6 +172,10 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
     return segments.map(segment => segment.text).join('');
   }, [segments]);
 
+  // Arabic, Hebrew, etc. read right-to-left; the first strong letter decides
+  const textDirection = getTextDirection(getFullText());
+  const directionStyle = textDirection === 'rtl' ? styles.rtlText : undefined;
+
   const applyStyleToSelection = useCallback((styleUpdate: Partial<TextStyle>) => {
     if (selectionStart === selectionEnd) {
       // No selection, update current style for future typing
@@ -154,300 +229,158 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
     setSegments(newSegments);
   }, [segments, selectionStart, selectionEnd]);
 
-  const exportAsTXT = async () => {
+  // Every format goes through the export service to the platform's default
+  // target, and the user hears how it went
+  const runExport = async <TInput,>(encoder: ExportEncoder<TInput>, input: TInput, label: string) => {
     try {
       setIsExporting(true);
-      
-      // Get plain text content
-      const plainText = getFullText();
-      const fileName = `scanned-document-${Date.now()}.txt`;
-      
-      if (Platform.OS === 'web') {
-        // For web, create and download TXT file
-        const blob = new Blob([plainText], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        Alert.alert('Success', 'Document exported as TXT file!');
-      } else {
-        // For mobile, save as text file
-        const fileUri = FileSystem.documentDirectory + fileName;
-        await FileSystem.writeAsStringAsync(fileUri, plainText);
-        
-        if (Platform.OS === 'ios') {
-          await Share.share({ url: fileUri });
-        } else {
-          const { status } = await MediaLibrary.requestPermissionsAsync();
-          if (status === 'granted') {
-            await MediaLibrary.saveToLibraryAsync(fileUri);
-            Alert.alert('Success', 'Document saved as TXT file!');
-          } else {
-            await Share.share({ url: fileUri });
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error exporting TXT:', error);
-      Alert.alert('Error', 'Failed to export TXT file. Please try again.');
+      const result = await exportFile({
+        encoder,
+        input,
+        fileName: `scanned-document-${Date.now()}`,
+        target: getDefaultDeliveryTarget(encoder.mimeType),
+      });
+      alertExportResult(result, label);
     } finally {
       setIsExporting(false);
     }
   };
 
-  const exportAsDOC = async () => {
-    try {
-      setIsExporting(true);
+  const exportAsTXT = () =>
+    runExport(EXPORT_FORMATS.txt, { text: getFullText(), format: 'txt' }, 'TXT');
+
+  const exportAsDOC = () => {
+    const runs: StyledTextRun[] = segments.map(segment => ({
+      text: segment.text,
+      bold: segment.style.bold,
+      italic: segment.style.italic,
+      underline: segment.style.underline,
+      fontSize: segment.style.fontSize ? FONT_SIZES[segment.style.fontSize] : undefined,
+      color: segment.style.color ? TEXT_COLORS[segment.style.color] : undefined,
+      align: segment.style.align,
+    }));
+    
+    return runExport(EXPORT_FORMATS.docx, { text: getFullText(), format: 'docx', runs, signatures }, 'DOCX');
+  };
+
+  const buildFormattedHTML = (): string => {
+    // Create HTML content with rich formatting
+    const htmlSegments = segments.map(segment => {
+      const style = segment.style;
+      let html = segment.text.replace(/\n/g, '<br>');
       
-      // Create RTF content (Rich Text Format) which can be opened by Word
-      let rtfContent = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}\\f0\\fs24 ';
+      if (style.bold) html = `<strong>${html}</strong>`;
+      if (style.italic) html = `<em>${html}</em>`;
+      if (style.underline) html = `<u>${html}</u>`;
       
-      // Process each segment with formatting
-      segments.forEach(segment => {
-        let segmentRtf = segment.text.replace(/\n/g, '\\par ');
-        
-        // Apply formatting
-        if (segment.style.bold) {
-          segmentRtf = `{\\b ${segmentRtf}}`;
-        }
-        if (segment.style.italic) {
-          segmentRtf = `{\\i ${segmentRtf}}`;
-        }
-        if (segment.style.underline) {
-          segmentRtf = `{\\ul ${segmentRtf}}`;
-        }
-        
-        // Font size (RTF uses half-points)
-        if (segment.style.fontSize) {
-          const rtfSize = FONT_SIZES[segment.style.fontSize] * 2;
-          segmentRtf = `{\\fs${rtfSize} ${segmentRtf}}`;
-        }
-        
-        // Text alignment
-        if (segment.style.align === 'center') {
-          segmentRtf = `{\\qc ${segmentRtf}}`;
-        } else if (segment.style.align === 'right') {
-          segmentRtf = `{\\qr ${segmentRtf}}`;
-        }
-        
-        rtfContent += segmentRtf;
-      });
+      const inlineStyles = [];
+      if (style.fontSize) inlineStyles.push(`font-size: ${FONT_SIZES[style.fontSize]}px`);
+      if (style.color) inlineStyles.push(`color: ${TEXT_COLORS[style.color]}`);
+      if (style.align) inlineStyles.push(`text-align: ${style.align}`);
       
-      // Add signatures placeholder
-      if (signatures.length > 0) {
-        rtfContent += '\\par\\par {\\qr [Signature(s) attached]}';
+      if (inlineStyles.length > 0) {
+        html = `<span style="${inlineStyles.join('; ')}">${html}</span>`;
       }
       
-      rtfContent += '}';
-      
-      const fileName = `scanned-document-${Date.now()}.rtf`;
-      
-      if (Platform.OS === 'web') {
-        // For web, create and download RTF file
-        const blob = new Blob([rtfContent], { type: 'application/rtf' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        Alert.alert('Success', 'Document exported as RTF file (opens in Word)!');
-      } else {
-        // For mobile, save as RTF file
-        const fileUri = FileSystem.documentDirectory + fileName;
-        await FileSystem.writeAsStringAsync(fileUri, rtfContent);
+      return html;
+    }).join('');
+
+    // Add signatures to HTML if any exist
+    let signaturesHtml = '';
+    if (signatures.length > 0) {
+      signaturesHtml = '<div style="margin-top: 40px; text-align: right;">';
+      signatures.forEach(signature => {
+        const svgPath = generateSvgPath(signature.points);
         
-        if (Platform.OS === 'ios') {
-          await Share.share({ url: fileUri });
-        } else {
-          const { status } = await MediaLibrary.requestPermissionsAsync();
-          if (status === 'granted') {
-            await MediaLibrary.saveToLibraryAsync(fileUri);
-            Alert.alert('Success', 'Document saved as RTF file (opens in Word)!');
-          } else {
-            await Share.share({ url: fileUri });
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error exporting DOC:', error);
-      Alert.alert('Error', 'Failed to export DOC file. Please try again.');
-    } finally {
-      setIsExporting(false);
+        signaturesHtml += `
+          <svg width="120" height="60" style="margin-bottom: 20px;">
+            <path d="${svgPath}" stroke="${signature.color}" stroke-width="${signature.strokeWidth}" fill="none"/>
+          </svg>
+        `;
+      });
+      signaturesHtml += '</div>';
     }
+    
+    const htmlContent = `
+      <!DOCTYPE html>
+      <html dir="${textDirection}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>Scanned Document</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            margin: 40px;
+            line-height: 1.6;
+            color: #333;
+          }
+          .content {
+            white-space: pre-wrap;
+            /* Each paragraph takes its own direction, so RTL lines align right */
+            unicode-bidi: plaintext;
+            text-align: start;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="content">${htmlSegments}${signaturesHtml}</div>
+      </body>
+      </html>
+    `;
+
+    return htmlContent;
   };
 
-  const exportAsPDF = async () => {
-    try {
-      setIsExporting(true);
-      
-      // Create HTML content for PDF with rich formatting
-      const htmlSegments = segments.map(segment => {
-        const style = segment.style;
-        let html = segment.text.replace(/\n/g, '<br>');
-        
-        if (style.bold) html = `<strong>${html}</strong>`;
-        if (style.italic) html = `<em>${html}</em>`;
-        if (style.underline) html = `<u>${html}</u>`;
-        
-        const inlineStyles = [];
-        if (style.fontSize) inlineStyles.push(`font-size: ${FONT_SIZES[style.fontSize]}px`);
-        if (style.color) inlineStyles.push(`color: ${TEXT_COLORS[style.color]}`);
-        if (style.align) inlineStyles.push(`text-align: ${style.align}`);
-        
-        if (inlineStyles.length > 0) {
-          html = `<span style="${inlineStyles.join('; ')}">${html}</span>`;
-        }
-        
-        return html;
-      }).join('');
+  const exportAsHTML = () => runExport(FORMATTED_HTML_ENCODER, buildFormattedHTML(), 'HTML');
 
-      // Add signatures to HTML if any exist
-      let signaturesHtml = '';
-      if (signatures.length > 0) {
-        signaturesHtml = '<div style="margin-top: 40px; text-align: right;">';
-                 signatures.forEach((signature, index) => {
-           const svgPath = generateSvgPath(signature.points);
-          
-          signaturesHtml += `
-            <svg width="120" height="60" style="margin-bottom: 20px;">
-              <path d="${svgPath}" stroke="${signature.color}" stroke-width="${signature.strokeWidth}" fill="none"/>
-            </svg>
-          `;
-        });
-        signaturesHtml += '</div>';
-      }
+  const exportAsPDF = () => {
+    const runs: PDFTextRun[] = segments.map(segment => {
+      const style = segment.style;
+      const font = style.bold
+        ? (style.italic ? 'Helvetica-BoldOblique' : 'Helvetica-Bold')
+        : (style.italic ? 'Helvetica-Oblique' : 'Helvetica');
       
-      const htmlContent = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1">
-          <title>Scanned Document</title>
-          <style>
-            body {
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-              margin: 40px;
-              line-height: 1.6;
-              color: #333;
-            }
-            .content {
-              white-space: pre-wrap;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="content">${htmlSegments}${signaturesHtml}</div>
-        </body>
-        </html>
-      `;
-
-      // For web, create and download HTML file
-      if (Platform.OS === 'web') {
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `scanned-document-${Date.now()}.html`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        Alert.alert('Success', 'Document exported as HTML file!');
-      } else {
-        // For mobile, save as HTML file
-        const fileName = `scanned-document-${Date.now()}.html`;
-        const fileUri = FileSystem.documentDirectory + fileName;
-        
-        await FileSystem.writeAsStringAsync(fileUri, htmlContent);
-        
-        if (Platform.OS === 'ios') {
-          await Share.share({ url: fileUri });
-        } else {
-          const { status } = await MediaLibrary.requestPermissionsAsync();
-          if (status === 'granted') {
-            await MediaLibrary.saveToLibraryAsync(fileUri);
-            Alert.alert('Success', 'Document saved as HTML file!');
-          } else {
-            await Share.share({ url: fileUri });
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error exporting HTML:', error);
-      Alert.alert('Error', 'Failed to export document. Please try again.');
-    } finally {
-      setIsExporting(false);
-    }
+      return {
+        text: segment.text,
+        font,
+        size: style.fontSize ? FONT_SIZES[style.fontSize] : FONT_SIZES.medium,
+        color: style.color ? TEXT_COLORS[style.color] : '#333333',
+        underline: style.underline,
+        align: style.align,
+      };
+    });
+    
+    return runExport(textPDFEncoder, {
+      runs,
+      signatures,
+      options: { pageSize: 'A4', orientation: 'portrait' },
+      title: 'Scanned Document',
+    }, 'PDF');
   };
 
-  const exportAsImage = async (format: 'png' | 'jpg') => {
-    try {
-      setIsExporting(true);
-      
+  const exportAsImage = (format: 'png' | 'jpg') => {
+    const captureFormattedText = async (): Promise<string> => {
       if (!viewShotRef.current) {
         throw new Error('ViewShot ref not available');
       }
-
-      const uri = await (viewShotRef.current as any)?.capture();
-
+      const uri = await captureRef(viewShotRef, { format, quality: 0.9 });
       if (!uri) {
         throw new Error('Failed to capture image');
       }
-
-      if (Platform.OS === 'web') {
-        // For web, download the image
-        const response = await fetch(uri);
-        const blob = await response.blob();
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `scanned-document-${Date.now()}.${format}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        Alert.alert('Success', `Document exported as ${format.toUpperCase()} file!`);
-      } else {
-        // For mobile, save to gallery
-        const { status } = await MediaLibrary.requestPermissionsAsync();
-        if (status === 'granted') {
-          await MediaLibrary.saveToLibraryAsync(uri);
-          Alert.alert('Success', `Document saved as ${format.toUpperCase()} to your gallery!`);
-        } else {
-          await Share.share({ url: uri });
-        }
-      }
-    } catch (error) {
-      console.error(`Error exporting ${format}:`, error);
-      Alert.alert('Error', `Failed to export as ${format.toUpperCase()}. Please try again.`);
-    } finally {
-      setIsExporting(false);
-    }
+      return uri;
+    };
+    return runExport(CAPTURED_IMAGE_ENCODERS[format], captureFormattedText, format.toUpperCase());
   };
 
-  const showExportOptions = () => {
-    Alert.alert(
-      'Export Document',
-      'Choose export format:',
-      [
-        { text: 'TXT (Plain Text)', onPress: exportAsTXT },
-        { text: 'DOC (Word Format)', onPress: exportAsDOC },
-        { text: 'HTML (Web Format)', onPress: exportAsPDF },
-        { text: 'PNG Image', onPress: () => exportAsImage('png') },
-        { text: 'JPG Image', onPress: () => exportAsImage('jpg') },
-        { text: 'Cancel', style: 'cancel' },
-      ],
-      { cancelable: true }
-    );
-  };
+  const exportMenuEntries: ExportMenuEntry[] = [
+    { key: 'txt', label: 'TXT (Plain Text)', onPress: exportAsTXT },
+    { key: 'docx', label: 'DOCX (Word Format)', onPress: exportAsDOC },
+    { key: 'pdf', label: 'PDF Document', onPress: exportAsPDF },
+    { key: 'html', label: 'HTML (Web Format)', onPress: exportAsHTML },
+    { key: 'png', label: 'PNG Image', onPress: () => exportAsImage('png') },
+    { key: 'jpg', label: 'JPG Image', onPress: () => exportAsImage('jpg') },
+  ];
 
   const openSignatureModal = () => {
     setShowSignatureModal(true);
@@ -548,7 +481,7 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
         <Text style={styles.headerTitle}>Format & Export</Text>
         <TouchableOpacity
           style={[styles.exportButton, isExporting && styles.exportButtonDisabled]}
-          onPress={showExportOptions}
+          onPress={() => setShowExportSheet(true)}
           disabled={isExporting}
         >
           <Download size={20} color="#0066CC" />
@@ -757,7 +690,7 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
           <Text style={styles.editorTitle}>Edit Text</Text>
           <TextInput
             ref={textInputRef}
-            style={styles.textEditor}
+            style={[styles.textEditor, directionStyle]}
             value={getFullText()}
             onChangeText={(newText) => {
               setSegments([{ text: newText, style: {} }]);
@@ -791,7 +724,7 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
           <Text style={styles.previewTitle}>Preview</Text>
           <ViewShot ref={viewShotRef} style={styles.previewContent}>
             <View style={styles.previewDocument}>
-              <Text style={styles.previewText}>
+              <Text style={[styles.previewText, directionStyle]}>
                 {segments.length > 0 ? segments.map((segment, index) => {
                   const segmentStyle = {
                     fontSize: segment.style.fontSize ? FONT_SIZES[segment.style.fontSize] : FONT_SIZES.medium,
@@ -799,7 +732,7 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
                     fontStyle: segment.style.italic ? 'italic' as const : 'normal' as const,
                     color: segment.style.color ? TEXT_COLORS[segment.style.color] : TEXT_COLORS.black,
                     textDecorationLine: segment.style.underline ? 'underline' as const : 'none' as const,
-                    textAlign: segment.style.align || 'left' as const,
+                    textAlign: segment.style.align || (textDirection === 'rtl' ? 'right' as const : 'left' as const),
                   };
                   
                   return (
@@ -923,6 +856,12 @@ export default function TextFormatter({ initialText, onBack, documentId }: TextF
             </View>
           </SafeAreaView>
         </Modal>
+
+        <ExportFormatSheet
+          visible={showExportSheet}
+          entries={exportMenuEntries}
+          onClose={() => setShowExportSheet(false)}
+        />
       </ScrollView>
     </SafeAreaView>
   );
@@ -1098,6 +1037,10 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     color: '#000000',
   },
+  rtlText: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
   signatureButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -26,6 +26,7 @@ import {
 import { captureRef } from 'react-native-view-shot';
 import { DocumentPage, MultiPageDocument, Annotation } from '@/types/scan';
 import { useDocumentEditing } from '@/contexts/DocumentEditingContext';
+import { alertExportResult } from '@/lib/exportUtils';
 import AnnotationToolbar from '@/components/annotation/AnnotationToolbar';
 import AnnotationCanvas from '@/components/annotation/AnnotationCanvas';
 
@@ -51,6 +52,7 @@ export default function DocumentEditingScreen({
   const [showMergeModal, setShowMergeModal] = useState(false);
   const [showSplitModal, setShowSplitModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [searchablePDF, setSearchablePDF] = useState(false);
   const [mergeTitle, setMergeTitle] = useState('');
   const [splitTitle, setSplitTitle] = useState('');
   const [selectedPages, setSelectedPages] = useState<string[]>([]);
@@ -77,6 +79,11 @@ export default function DocumentEditingScreen({
     clearAnnotations(); // Clear annotations when switching pages
   }, [clearAnnotations]);
 
+  // Tag annotations with their page so the PDF export draws them in the right place
+  const handleAnnotationAdd = useCallback((annotation: Omit<Annotation, 'id' | 'createdAt'>) => {
+    addAnnotation({ ...annotation, pageId: currentPage?.id });
+  }, [addAnnotation, currentPage]);
+
   const handleDuplicatePage = useCallback(() => {
     if (currentPage) {
       const duplicated = duplicatePage(currentPage);
@@ -179,17 +186,20 @@ export default function DocumentEditingScreen({
     const annotatedDocument = {
       ...document,
       annotations,
+      canvasSize: { width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
     };
 
-    await exportToPDF(annotatedDocument, {
+    const result = await exportToPDF(annotatedDocument, {
       quality: 'high',
       includeAnnotations: true,
       pageSize: 'A4',
       orientation: 'portrait',
+      searchable: searchablePDF,
     });
+    alertExportResult(result, 'PDF');
 
     setShowExportModal(false);
-  }, [document, annotations, exportToPDF]);
+  }, [document, annotations, exportToPDF, searchablePDF]);
 
   const handleCaptureAndShare = useCallback(async () => {
     if (canvasRef.current) {
@@ -300,7 +310,7 @@ export default function DocumentEditingScreen({
             selectedTool={selectedTool}
             selectedColor={selectedColor}
             strokeWidth={strokeWidth}
-            onAnnotationAdd={addAnnotation}
+            onAnnotationAdd={handleAnnotationAdd}
             onAnnotationUpdate={updateAnnotation}
             onAnnotationDelete={deleteAnnotation}
             canvasWidth={CANVAS_WIDTH}
@@ -459,6 +469,28 @@ export default function DocumentEditingScreen({
               Export this document with all annotations as a PDF file.
             </Text>
             
+            <TouchableOpacity
+              style={[styles.pageOption, !searchablePDF && styles.selectedPageOption]}
+              onPress={() => setSearchablePDF(false)}
+              testID="export-type-image"
+            >
+              <Text style={styles.pageOptionText}>Image PDF</Text>
+              {!searchablePDF && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.pageOption, searchablePDF && styles.selectedPageOption]}
+              onPress={() => setSearchablePDF(true)}
+              testID="export-type-searchable"
+            >
+              <View style={styles.exportTypeInfo}>
+                <Text style={styles.pageOptionText}>Searchable PDF</Text>
+                <Text style={styles.exportTypeDescription}>
+                  Adds the recognized text so it can be searched and copied
+                </Text>
+              </View>
+              {searchablePDF && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+            
             <View style={styles.exportOptions}>
               <View style={styles.exportOption}>
                 <FileText size={20} color="#666666" />
@@ -676,7 +708,16 @@ const styles = StyleSheet.create({
     color: '#3B82F6',
     fontWeight: 'bold',
   },
+  exportTypeInfo: {
+    flex: 1,
+  },
+  exportTypeDescription: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
   exportOptions: {
+    marginTop: 12,
     marginBottom: 16,
   },
   exportOption: {
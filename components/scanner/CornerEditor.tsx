@@ -0,0 +1,250 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Image, StyleSheet, PanResponder, PanResponderInstance } from 'react-native';
+import Svg, { Polygon } from 'react-native-svg';
+import { Point, nearestEdgePoint } from '@/lib/borderDetection';
+import { Quad } from '@/lib/perspective';
+import { DocumentEdges } from '@/lib/advancedImageProcessor';
+
+interface CornerEditorProps {
+  imageUri: string;
+  // Natural size of the image; corners are in these pixels
+  imageWidth: number;
+  imageHeight: number;
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+  // Available space; the image is fitted inside it
+  width: number;
+  height: number;
+  // Detected corners and edges that handles snap to
+  detectedCorners?: Quad | null;
+  edges?: DocumentEdges | null;
+}
+
+type CornerKey = keyof Quad;
+
+const CORNER_KEYS: CornerKey[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+const HANDLE_SIZE = 28;
+const LOUPE_SIZE = 110;
+const LOUPE_ZOOM = 2.5;
+// In screen points, so snapping feels the same at any image size
+const CORNER_SNAP_RADIUS = 20;
+const EDGE_SNAP_RADIUS = 10;
+
+// Snap to a detected corner if one is close, otherwise to the nearest edge.
+// scale converts image pixels to screen points.
+const snapPoint = (
+  point: Point,
+  scale: number,
+  detectedCorners?: Quad | null,
+  edges?: DocumentEdges | null
+): Point => {
+  if (detectedCorners) {
+    for (const key of CORNER_KEYS) {
+      const target = detectedCorners[key];
+      if (Math.hypot(target.x - point.x, target.y - point.y) * scale <= CORNER_SNAP_RADIUS) {
+        return { x: target.x, y: target.y };
+      }
+    }
+  }
+
+  if (edges) {
+    const edgeScale = edges.edges.width / edges.originalWidth;
+    const nearest = nearestEdgePoint(
+      edges.edges,
+      { x: point.x * edgeScale - 0.5, y: point.y * edgeScale - 0.5 },
+      Math.max(1, Math.round((EDGE_SNAP_RADIUS / scale) * edgeScale))
+    );
+    if (nearest) {
+      return { x: (nearest.x + 0.5) / edgeScale, y: (nearest.y + 0.5) / edgeScale };
+    }
+  }
+
+  return point;
+};
+
+export default function CornerEditor({
+  imageUri,
+  imageWidth,
+  imageHeight,
+  corners,
+  onChange,
+  width,
+  height,
+  detectedCorners,
+  edges,
+}: CornerEditorProps) {
+  const [dragging, setDragging] = useState<CornerKey | null>(null);
+
+  // Fit the image inside the available space
+  const scale = Math.min(width / imageWidth, height / imageHeight);
+  const displayWidth = imageWidth * scale;
+  const displayHeight = imageHeight * scale;
+
+  // PanResponders are created once, so they read the latest props from here
+  const latest = useRef({ corners, onChange, scale, detectedCorners, edges });
+  latest.current = { corners, onChange, scale, detectedCorners, edges };
+
+  const panResponders = useMemo(() => {
+    const responders = {} as Record<CornerKey, PanResponderInstance>;
+    for (const key of CORNER_KEYS) {
+      let start: Point = { x: 0, y: 0 };
+      responders[key] = PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+          start = latest.current.corners[key];
+          setDragging(key);
+        },
+        onPanResponderMove: (_evt, gestureState) => {
+          const { corners, onChange, scale, detectedCorners, edges } = latest.current;
+          const moved = snapPoint(
+            {
+              x: Math.max(0, Math.min(imageWidth, start.x + gestureState.dx / scale)),
+              y: Math.max(0, Math.min(imageHeight, start.y + gestureState.dy / scale)),
+            },
+            scale,
+            detectedCorners,
+            edges
+          );
+          onChange({ ...corners, [key]: moved });
+        },
+        onPanResponderRelease: () => setDragging(null),
+        onPanResponderTerminate: () => setDragging(null),
+      });
+    }
+    return responders;
+  }, [imageWidth, imageHeight]);
+
+  const toDisplay = (point: Point) => ({ x: point.x * scale, y: point.y * scale });
+  const polygonPoints = CORNER_KEYS
+    .map(key => toDisplay(corners[key]))
+    .map(({ x, y }) => `${x},${y}`)
+    .join(' ');
+
+  const renderLoupe = () => {
+    if (!dragging) return null;
+    const focus = toDisplay(corners[dragging]);
+    // Keep the loupe on the other side from the finger
+    const onLeft = focus.x > displayWidth / 2;
+
+    return (
+      <View
+        pointerEvents="none"
+        style={[styles.loupe, onLeft ? styles.loupeLeft : styles.loupeRight]}
+      >
+        <Image
+          source={{ uri: imageUri }}
+          style={{
+            position: 'absolute',
+            width: displayWidth * LOUPE_ZOOM,
+            height: displayHeight * LOUPE_ZOOM,
+            left: LOUPE_SIZE / 2 - focus.x * LOUPE_ZOOM,
+            top: LOUPE_SIZE / 2 - focus.y * LOUPE_ZOOM,
+          }}
+        />
+        <View style={styles.crosshairHorizontal} />
+        <View style={styles.crosshairVertical} />
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { width, height }]}>
+      <View style={{ width: displayWidth, height: displayHeight }}>
+        <Image
+          source={{ uri: imageUri }}
+          style={{ width: displayWidth, height: displayHeight }}
+        />
+        <Svg
+          width={displayWidth}
+          height={displayHeight}
+          style={StyleSheet.absoluteFill}
+          pointerEvents="none"
+        >
+          <Polygon
+            points={polygonPoints}
+            fill="rgba(0, 102, 204, 0.15)"
+            stroke="#0066CC"
+            strokeWidth={2}
+          />
+        </Svg>
+
+        {CORNER_KEYS.map(key => {
+          const { x, y } = toDisplay(corners[key]);
+          return (
+            <View
+              key={key}
+              style={[
+                styles.handle,
+                dragging === key && styles.handleActive,
+                { left: x - HANDLE_SIZE / 2, top: y - HANDLE_SIZE / 2 },
+              ]}
+              hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+              {...panResponders[key].panHandlers}
+            />
+          );
+        })}
+      </View>
+
+      {renderLoupe()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#0066CC',
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  handleActive: {
+    backgroundColor: 'rgba(0, 102, 204, 0.3)',
+  },
+  loupe: {
+    position: 'absolute',
+    top: 8,
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    borderRadius: LOUPE_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    overflow: 'hidden',
+    backgroundColor: '#000000',
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  loupeLeft: {
+    left: 8,
+  },
+  loupeRight: {
+    right: 8,
+  },
+  crosshairHorizontal: {
+    position: 'absolute',
+    left: LOUPE_SIZE / 2 - 10,
+    top: LOUPE_SIZE / 2 - 1,
+    width: 20,
+    height: 2,
+    backgroundColor: '#0066CC',
+  },
+  crosshairVertical: {
+    position: 'absolute',
+    left: LOUPE_SIZE / 2 - 1,
+    top: LOUPE_SIZE / 2 - 10,
+    width: 2,
+    height: 20,
+    backgroundColor: '#0066CC',
+  },
+});
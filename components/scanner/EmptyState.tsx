@@ -7,7 +7,7 @@ import {
   Dimensions,
   Animated,
 } from 'react-native';
-import { Camera, Image as ImageIcon, Sparkles, Scan } from 'lucide-react-native';
+import { Camera, Image as ImageIcon, Sparkles, Scan, FolderOpen } from 'lucide-react-native';
 
 const { width } = Dimensions.get('window');
 
@@ -15,10 +15,11 @@ interface EmptyStateProps {
   onTakePhoto: () => void;
   onChooseFromGallery: () => void;
   onShowModeSelector?: () => void;
+  onImportDocument?: () => void;
   sparkleAnim: Animated.Value;
 }
 
-export default function EmptyState({ onTakePhoto, onChooseFromGallery, onShowModeSelector, sparkleAnim }: EmptyStateProps) {
+export default function EmptyState({ onTakePhoto, onChooseFromGallery, onShowModeSelector, onImportDocument, sparkleAnim }: EmptyStateProps) {
   return (
     <View style={styles.emptyState}>
       <View style={styles.emptyIconContainer}>
@@ -78,6 +79,18 @@ export default function EmptyState({ onTakePhoto, onChooseFromGallery, onShowMod
             <Text style={styles.specialButtonText}>Specialized Scanning</Text>
           </TouchableOpacity>
         )}
+
+        {onImportDocument && (
+          <TouchableOpacity
+            style={[styles.mainActionButton, styles.secondaryButton]}
+            onPress={onImportDocument}
+          >
+            <View style={styles.buttonIconContainer}>
+              <FolderOpen size={22} color="#0066CC" />
+            </View>
+            <Text style={styles.secondaryButtonText}>Import Document</Text>
+          </TouchableOpacity>
+        )}
       </View>
       
       <View style={styles.featuresList}>
@@ -27,6 +27,7 @@ import {
 } from 'lucide-react-native';
 import * as Clipboard from 'expo-clipboard';
 import { IDCardScan } from '@/types/scan';
+import { extractTextRemote } from '@/lib/ocrClient';
 
 interface IDCardScannerProps {
   onComplete: (scan: IDCardScan) => void;
@@ -146,37 +147,15 @@ export default function IDCardScanner({ onComplete, onCancel }: IDCardScannerPro
   };
 
   const extractTextFromIDCard = async (imageUri: string, side: 'front' | 'back'): Promise<string> => {
+    if (!imageUri) return '';
+
     try {
-      const response = await fetch('https://toolkit.rork.com/text/llm/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            {
-              role: 'system',
-              content: `You are an expert at extracting text from ID cards. Extract all visible text from the ${side} side of this ID card. Focus on names, numbers, dates, and addresses. Return the raw text exactly as it appears.`
-            },
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: `Extract all text from this ${side} side of an ID card:`
-                },
-                {
-                  type: 'image',
-                  image: imageUri
-                }
-              ]
-            }
-          ]
-        })
+      const { text } = await extractTextRemote({
+        imageUri,
+        languages: [],
+        kind: side === 'front' ? 'id-card-front' : 'id-card-back',
       });
-
-      const result = await response.json();
-      return result.completion || '';
+      return text;
     } catch (error) {
       console.error(`Error extracting text from ${side}:`, error);
       return '';
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -6,8 +6,6 @@ import {
   TouchableOpacity,
   Image,
   Dimensions,
-  PanResponder,
-  Animated,
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -25,6 +23,15 @@ import {
 } from 'lucide-react-native';
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
 import Slider from '@react-native-community/slider';
+import CornerEditor from './CornerEditor';
+import {
+  applyPerspectiveCorrection,
+  binarizeDocument,
+  detectDocumentBorders,
+  detectDocumentEdges,
+  DocumentEdges,
+} from '@/lib/advancedImageProcessor';
+import { Quad } from '@/lib/perspective';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const EDIT_AREA_HEIGHT = screenHeight * 0.6;
@@ -38,12 +45,13 @@ interface ImageEditViewProps {
 
 type FilterType = 'none' | 'grayscale' | 'sepia' | 'blackwhite' | 'vintage';
 
-interface CropArea {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+// Starting corners when no document outline is detected
+const getDefaultCorners = (width: number, height: number): Quad => ({
+  topLeft: { x: width * 0.1, y: height * 0.1 },
+  topRight: { x: width * 0.9, y: height * 0.1 },
+  bottomRight: { x: width * 0.9, y: height * 0.9 },
+  bottomLeft: { x: width * 0.1, y: height * 0.9 },
+});
 
 export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditViewProps) {
   const [rotation, setRotation] = useState(0);
@@ -51,11 +59,13 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
   const [brightness, setBrightness] = useState(1);
   const [contrast, setContrast] = useState(1);
   const [isCropping, setIsCropping] = useState(false);
-  const [cropArea, setCropArea] = useState<CropArea>({ x: 0, y: 0, width: 1, height: 1 });
+  const [corners, setCorners] = useState<Quad | null>(null);
+  // Corners confirmed by leaving crop mode; the correction waits until Save
+  const [isCropConfirmed, setIsCropConfirmed] = useState(false);
+  const [detectedCorners, setDetectedCorners] = useState<Quad | null>(null);
+  const [documentEdges, setDocumentEdges] = useState<DocumentEdges | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  
-  const cropPan = useRef(new Animated.ValueXY()).current;
-  const cropScale = useRef(new Animated.Value(1)).current;
 
   const filters: { type: FilterType; name: string; icon: any }[] = [
     { type: 'none', name: 'Original', icon: Filter },
@@ -64,23 +74,6 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
     { type: 'sepia', name: 'Sepia', icon: Sun },
   ];
 
-  const panResponder = PanResponder.create({
-    onMoveShouldSetPanResponder: () => isCropping,
-    onPanResponderGrant: () => {
-      cropPan.setOffset({
-        x: (cropPan.x as any)._value,
-        y: (cropPan.y as any)._value,
-      });
-    },
-    onPanResponderMove: Animated.event(
-      [null, { dx: cropPan.x, dy: cropPan.y }],
-      { useNativeDriver: false }
-    ),
-    onPanResponderRelease: () => {
-      cropPan.flattenOffset();
-    },
-  });
-
   const rotateClockwise = () => {
     setRotation((prev) => (prev + 90) % 360);
   };
@@ -94,14 +87,45 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
     setContrast(1);
     setCurrentFilter('none');
     setRotation(0);
+    setIsCropConfirmed(false);
+    if (documentEdges) {
+      setCorners(detectedCorners ?? getDefaultCorners(documentEdges.originalWidth, documentEdges.originalHeight));
+    }
   };
 
-  const toggleCrop = () => {
-    setIsCropping(!isCropping);
-    if (!isCropping) {
-      // Reset crop area when entering crop mode
-      setCropArea({ x: 0.1, y: 0.1, width: 0.8, height: 0.8 });
-      cropPan.setValue({ x: 0, y: 0 });
+  const toggleCrop = async () => {
+    if (isCropping) {
+      setIsCropping(false);
+      setIsCropConfirmed(true);
+      return;
+    }
+    if (corners) {
+      setIsCropping(true);
+      return;
+    }
+
+    // Start from the detected outline; the edges let handles snap to it
+    setIsDetecting(true);
+    try {
+      const [bounds, edges] = await Promise.all([
+        detectDocumentBorders(imageUri),
+        detectDocumentEdges(imageUri),
+      ]);
+      const detected = bounds && {
+        topLeft: bounds.topLeft,
+        topRight: bounds.topRight,
+        bottomRight: bounds.bottomRight,
+        bottomLeft: bounds.bottomLeft,
+      };
+      setDetectedCorners(detected);
+      setDocumentEdges(edges);
+      setCorners(detected ?? getDefaultCorners(edges.originalWidth, edges.originalHeight));
+      setIsCropping(true);
+    } catch (error) {
+      console.error('Error detecting document corners:', error);
+      Alert.alert('Error', 'Failed to load the image for cropping. Please try again.');
+    } finally {
+      setIsDetecting(false);
     }
   };
 
@@ -114,25 +138,22 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
   const processImage = async () => {
     setIsProcessing(true);
     try {
+      let sourceUri = imageUri;
       let manipulateActions: any[] = [];
 
+      // Flatten the page first; corners are placed on the unrotated image
+      if ((isCropping || isCropConfirmed) && corners) {
+        sourceUri = await applyPerspectiveCorrection(imageUri, { ...corners, confidence: 1 });
+        if (sourceUri === imageUri) {
+          throw new Error('Perspective correction failed');
+        }
+      }
+
       // Apply rotation
       if (rotation !== 0) {
         manipulateActions.push({ rotate: rotation });
       }
 
-      // Apply crop if in cropping mode
-      if (isCropping && (cropArea.width < 1 || cropArea.height < 1)) {
-        manipulateActions.push({
-          crop: {
-            originX: cropArea.x * EDIT_AREA_WIDTH,
-            originY: cropArea.y * EDIT_AREA_HEIGHT,
-            width: cropArea.width * EDIT_AREA_WIDTH,
-            height: cropArea.height * EDIT_AREA_HEIGHT,
-          },
-        });
-      }
-
       // Apply filters and adjustments
       if (currentFilter !== 'none' || brightness !== 1 || contrast !== 1) {
         const filterActions: any = {};
@@ -153,11 +174,6 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
           case 'sepia':
             filterActions.sepia = 1;
             break;
-          case 'blackwhite':
-            filterActions.contrast = 2;
-            filterActions.brightness = 1.2;
-            filterActions.grayscale = 1;
-            break;
         }
 
         if (Object.keys(filterActions).length > 0) {
@@ -168,13 +184,18 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
       let result;
       if (manipulateActions.length > 0) {
         result = await manipulateAsync(
-          imageUri,
+          sourceUri,
           manipulateActions,
           { compress: 0.8, format: SaveFormat.JPEG }
         );
       } else {
-        // No changes, return original
-        result = { uri: imageUri };
+        // No further changes, return the flattened or original image
+        result = { uri: sourceUri };
+      }
+
+      // B&W thresholds the final pixels, so it runs last
+      if (currentFilter === 'blackwhite') {
+        result = { uri: await binarizeDocument(result.uri) };
       }
 
       onSave(result.uri);
@@ -229,30 +250,25 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
 
       {/* Image Edit Area */}
       <View style={styles.editArea}>
-        <View style={styles.imageContainer} {...panResponder.panHandlers}>
-          <Image 
-            source={{ uri: imageUri }} 
-            style={getImageStyle()}
-            resizeMode="contain"
-          />
-          
-          {/* Crop Overlay */}
-          {isCropping && (
-            <Animated.View 
-              style={[
-                styles.cropOverlay,
-                {
-                  transform: [
-                    { translateX: cropPan.x },
-                    { translateY: cropPan.y },
-                    { scale: cropScale },
-                  ],
-                },
-              ]}
-            >
-              <View style={styles.cropBorder} />
-              <View style={styles.cropCorner} />
-            </Animated.View>
+        <View style={styles.imageContainer}>
+          {isCropping && corners && documentEdges ? (
+            <CornerEditor
+              imageUri={imageUri}
+              imageWidth={documentEdges.originalWidth}
+              imageHeight={documentEdges.originalHeight}
+              corners={corners}
+              onChange={setCorners}
+              width={EDIT_AREA_WIDTH}
+              height={EDIT_AREA_HEIGHT}
+              detectedCorners={detectedCorners}
+              edges={documentEdges}
+            />
+          ) : (
+            <Image 
+              source={{ uri: imageUri }} 
+              style={getImageStyle()}
+              resizeMode="contain"
+            />
           )}
         </View>
       </View>
@@ -264,9 +280,12 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
           <TouchableOpacity 
             style={[styles.toolButton, isCropping && styles.toolButtonActive]} 
             onPress={toggleCrop}
+            disabled={isDetecting}
           >
             <Crop size={20} color={isCropping ? "#FFFFFF" : "#333"} />
-            <Text style={[styles.toolText, isCropping && styles.toolTextActive]}>Crop</Text>
+            <Text style={[styles.toolText, isCropping && styles.toolTextActive]}>
+              {isCropping ? 'Done' : isCropConfirmed ? 'Cropped' : 'Crop'}
+            </Text>
           </TouchableOpacity>
           
           <TouchableOpacity style={styles.toolButton} onPress={rotateCounterClockwise}>
@@ -360,10 +379,12 @@ export default function ImageEditView({ imageUri, onSave, onCancel }: ImageEditV
       </View>
 
       {/* Processing Overlay */}
-      {isProcessing && (
+      {(isProcessing || isDetecting) && (
         <View style={styles.processingOverlay}>
           <View style={styles.processingContainer}>
-            <Text style={styles.processingText}>Processing image...</Text>
+            <Text style={styles.processingText}>
+              {isDetecting ? 'Finding document edges...' : 'Processing image...'}
+            </Text>
           </View>
         </View>
       )}
@@ -419,35 +440,6 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
-  cropOverlay: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    borderWidth: 2,
-    borderColor: '#0066CC',
-    backgroundColor: 'rgba(0, 102, 204, 0.1)',
-  },
-  cropBorder: {
-    position: 'absolute',
-    top: -2,
-    left: -2,
-    right: -2,
-    bottom: -2,
-    borderWidth: 2,
-    borderColor: '#0066CC',
-    borderStyle: 'dashed',
-  },
-  cropCorner: {
-    position: 'absolute',
-    bottom: -8,
-    right: -8,
-    width: 16,
-    height: 16,
-    backgroundColor: '#0066CC',
-    borderRadius: 8,
-  },
   toolsContainer: {
     backgroundColor: '#FFFFFF',
     paddingTop: 20,
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,11 +8,17 @@ import {
   Animated,
 } from 'react-native';
 import { Edit3, Copy, ArrowLeft, Sparkles, FileText, Download } from 'lucide-react-native';
-import { showExportOptions } from '@/lib/exportUtils';
+import { getExportMenuEntries } from '@/lib/exportUtils';
+import ExportFormatSheet from '@/components/ExportFormatSheet';
+import { useSignatures } from '@/contexts/SignatureContext';
+import { useDocumentEditing } from '@/contexts/DocumentEditingContext';
+import { DocumentMetadata } from '@/lib/documentJSON';
 import { DocumentPage } from '@/types/scan';
 
 interface MultiPageResultsViewProps {
   pages: DocumentPage[];
+  // Set when the pages came from an imported document
+  document?: DocumentMetadata;
   onOpenFormatter: () => void;
   onCopyToClipboard: () => void;
   onClearScan: () => void;
@@ -22,6 +28,7 @@ interface MultiPageResultsViewProps {
 
 export default function MultiPageResultsView({
   pages,
+  document,
   onOpenFormatter,
   onCopyToClipboard,
   onClearScan,
@@ -34,9 +41,13 @@ export default function MultiPageResultsView({
     .join('\n\n');
 
   const processedPages = pages.filter(page => page.extractedText).length;
+  const { signatures } = useSignatures();
+  const { annotations } = useDocumentEditing();
+  
+  const [showExportSheet, setShowExportSheet] = useState(false);
   
   const handleExport = () => {
-    showExportOptions(combinedText, 'multi-page-document');
+    setShowExportSheet(true);
   };
 
   return (
@@ -106,6 +117,19 @@ export default function MultiPageResultsView({
           <Text style={styles.extractedText}>{combinedText}</Text>
         </ScrollView>
       </View>
+      <ExportFormatSheet
+        visible={showExportSheet}
+        entries={getExportMenuEntries({
+          text: combinedText,
+          fileName: 'multi-page-document',
+          imageUris: pages.map(page => page.imageUri),
+          pages,
+          annotations,
+          savedSignatures: signatures,
+          document,
+        })}
+        onClose={() => setShowExportSheet(false)}
+      />
     </Animated.View>
   );
 }
@@ -6,15 +6,18 @@ import {
   Modal,
   ActivityIndicator,
   Animated,
+  TouchableOpacity,
 } from 'react-native';
 import { Settings, Zap } from 'lucide-react-native';
 
 interface OptimizationOverlayProps {
   visible: boolean;
   progress: string;
+  // Shows a cancel button, for long batches
+  onCancel?: () => void;
 }
 
-export default function OptimizationOverlay({ visible, progress }: OptimizationOverlayProps) {
+export default function OptimizationOverlay({ visible, progress, onCancel }: OptimizationOverlayProps) {
   const pulseAnim = React.useRef(new Animated.Value(1)).current;
 
   React.useEffect(() => {
@@ -90,6 +93,12 @@ export default function OptimizationOverlay({ visible, progress }: OptimizationO
               <Text style={styles.benefitText}>Faster AI processing</Text>
             </View>
           </View>
+          
+          {onCancel && (
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     </Modal>
@@ -187,4 +196,14 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontWeight: '500',
   },
+  cancelButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,11 +7,18 @@ import {
   Animated,
 } from 'react-native';
 import { Edit3, Copy, ArrowLeft, Sparkles, Plus, PenTool, Download } from 'lucide-react-native';
-import { showExportOptions } from '@/lib/exportUtils';
+import { getExportMenuEntries } from '@/lib/exportUtils';
+import ExportFormatSheet from '@/components/ExportFormatSheet';
+import { useSignatures } from '@/contexts/SignatureContext';
+import { useDocumentEditing } from '@/contexts/DocumentEditingContext';
+import { DocumentPage } from '@/types/scan';
 
 interface ResultsViewProps {
   extractedText: string;
   currentDocumentId: string | null;
+  ocrEngine?: 'cloud' | 'on-device';
+  // The scanned page, so the JSON export carries its image and signatures
+  page?: DocumentPage;
   onOpenFormatter: () => void;
   onCopyToClipboard: () => void;
   onClearScan: () => void;
@@ -24,6 +31,8 @@ interface ResultsViewProps {
 export default function ResultsView({
   extractedText,
   currentDocumentId,
+  ocrEngine,
+  page,
   onOpenFormatter,
   onCopyToClipboard,
   onClearScan,
@@ -32,8 +41,11 @@ export default function ResultsView({
   sparkleAnim,
   slideAnim,
 }: ResultsViewProps) {
+  const { signatures } = useSignatures();
+  const { annotations } = useDocumentEditing();
+  const [showExportSheet, setShowExportSheet] = useState(false);
   const handleExport = () => {
-    showExportOptions(extractedText, 'scanned-document');
+    setShowExportSheet(true);
   };
   return (
     <Animated.View 
@@ -61,6 +73,11 @@ export default function ResultsView({
               <Text style={styles.savedText}>Saved</Text>
             </View>
           )}
+          {ocrEngine === 'on-device' && (
+            <View style={styles.onDeviceBadge}>
+              <Text style={styles.onDeviceText}>On-device</Text>
+            </View>
+          )}
         </View>
       </View>
       
@@ -113,6 +130,17 @@ export default function ResultsView({
       <View style={styles.textContainer}>
         <Text style={styles.extractedText}>{extractedText}</Text>
       </View>
+      <ExportFormatSheet
+        visible={showExportSheet}
+        entries={getExportMenuEntries({
+          text: extractedText,
+          fileName: 'scanned-document',
+          pages: page ? [page] : undefined,
+          annotations,
+          savedSignatures: signatures,
+        })}
+        onClose={() => setShowExportSheet(false)}
+      />
     </Animated.View>
   );
 }
@@ -166,6 +194,18 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#FFFFFF",
   },
+  onDeviceBadge: {
+    backgroundColor: "#F3F4F6",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 6,
+  },
+  onDeviceText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#6B7280",
+  },
   fullWidthActionButtons: {
     marginTop: 16,
     gap: 12,
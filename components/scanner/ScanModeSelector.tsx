@@ -4,16 +4,21 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
+  ScrollView,
 } from 'react-native';
 import { 
   FileText, 
+  Presentation,
+  BookOpen,
   CreditCard, 
   QrCode,
   Zap,
   Camera,
-  Scan
+  Scan,
+  SlidersHorizontal
 } from 'lucide-react-native';
 import { ScanMode } from '@/types/scan';
+import { useProcessingPresets } from '@/contexts/ProcessingPresetsContext';
 
 interface ScanModeSelectorProps {
   onSelectMode: (mode: ScanMode) => void;
@@ -30,6 +35,7 @@ interface ModeOption {
 }
 
 export default function ScanModeSelector({ onSelectMode, onCancel }: ScanModeSelectorProps) {
+  const { presets, selectedPreset, selectPreset } = useProcessingPresets();
   const modes: ModeOption[] = [
     {
       mode: 'document',
@@ -39,6 +45,22 @@ export default function ScanModeSelector({ onSelectMode, onCancel }: ScanModeSel
       color: '#3b82f6',
       features: ['OCR text extraction', 'Multi-page support', 'Auto enhancement', 'PDF export'],
     },
+    {
+      mode: 'whiteboard',
+      title: 'Whiteboard Scanner',
+      description: 'Capture notes and diagrams from a board',
+      icon: <Presentation size={32} color='#8b5cf6' />,
+      color: '#8b5cf6',
+      features: ['White background', 'Vivid marker colours', 'Glare suppression', 'Perspective fix'],
+    },
+    {
+      mode: 'book',
+      title: 'Book Scanner',
+      description: 'Scan an open book two pages at a time',
+      icon: <BookOpen size={32} color='#ef4444' />,
+      color: '#ef4444',
+      features: ['Spine detection', 'Two-page split', 'Curl correction', 'Multi-page support'],
+    },
     {
       mode: 'id-card',
       title: 'ID Card Scanner',
@@ -77,47 +99,82 @@ export default function ScanModeSelector({ onSelectMode, onCancel }: ScanModeSel
         </View>
       </View>
 
-      {/* Mode Options */}
-      <View style={styles.modesContainer}>
-        {modes.map((mode, index) => (
-          <TouchableOpacity
-            key={mode.mode}
-            style={[styles.modeCard, { borderLeftColor: mode.color }]}
-            onPress={() => handleModeSelect(mode.mode)}
-            activeOpacity={0.7}
-          >
-            <View style={styles.modeHeader}>
-              <View style={[styles.modeIcon, { backgroundColor: `${mode.color}15` }]}>
-                {mode.icon}
-              </View>
-              <View style={styles.modeInfo}>
-                <Text style={styles.modeTitle}>{mode.title}</Text>
-                <Text style={styles.modeDescription}>{mode.description}</Text>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Mode Options */}
+        <View style={styles.modesContainer}>
+          {modes.map((mode, index) => (
+            <TouchableOpacity
+              key={mode.mode}
+              style={[styles.modeCard, { borderLeftColor: mode.color }]}
+              onPress={() => handleModeSelect(mode.mode)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.modeHeader}>
+                <View style={[styles.modeIcon, { backgroundColor: `${mode.color}15` }]}>
+                  {mode.icon}
+                </View>
+                <View style={styles.modeInfo}>
+                  <Text style={styles.modeTitle}>{mode.title}</Text>
+                  <Text style={styles.modeDescription}>{mode.description}</Text>
+                </View>
+                <View style={styles.modeAction}>
+                  <Camera size={20} color='#6b7280' />
+                </View>
               </View>
-              <View style={styles.modeAction}>
-                <Camera size={20} color='#6b7280' />
+              
+              <View style={styles.featuresContainer}>
+                {mode.features.map((feature, featureIndex) => (
+                  <View key={featureIndex} style={styles.featureItem}>
+                    <Zap size={12} color={mode.color} />
+                    <Text style={styles.featureText}>{feature}</Text>
+                  </View>
+                ))}
               </View>
-            </View>
-            
-            <View style={styles.featuresContainer}>
-              {mode.features.map((feature, featureIndex) => (
-                <View key={featureIndex} style={styles.featureItem}>
-                  <Zap size={12} color={mode.color} />
-                  <Text style={styles.featureText}>{feature}</Text>
-                </View>
-              ))}
-            </View>
-          </TouchableOpacity>
-        ))}
-      </View>
+            </TouchableOpacity>
+          ))}
+        </View>
 
-      {/* Quick Access Info */}
-      <View style={styles.quickAccessInfo}>
-        <Text style={styles.quickAccessTitle}>Quick Access</Text>
-        <Text style={styles.quickAccessText}>
-          Each mode is optimized for specific scanning needs with specialized features and processing.
-        </Text>
-      </View>
+        {/* Processing Preset */}
+        <View style={styles.presetSection}>
+          <View style={styles.presetHeader}>
+            <SlidersHorizontal size={16} color='#3b82f6' />
+            <Text style={styles.presetTitle}>Processing Preset</Text>
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.presetChips}
+          >
+            {presets.map(preset => {
+              const isSelected = preset.id === selectedPreset.id;
+              return (
+                <TouchableOpacity
+                  key={preset.id}
+                  style={[styles.presetChip, isSelected && styles.presetChipSelected]}
+                  onPress={() => selectPreset(preset.id).catch(error => {
+                    console.error('Error selecting preset:', error);
+                  })}
+                >
+                  <Text style={[styles.presetChipText, isSelected && styles.presetChipTextSelected]}>
+                    {preset.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          {selectedPreset.description && (
+            <Text style={styles.presetDescription}>{selectedPreset.description}</Text>
+          )}
+        </View>
+
+        {/* Quick Access Info */}
+        <View style={styles.quickAccessInfo}>
+          <Text style={styles.quickAccessTitle}>Quick Access</Text>
+          <Text style={styles.quickAccessText}>
+            Each mode is optimized for specific scanning needs with specialized features and processing.
+          </Text>
+        </View>
+      </ScrollView>
 
       {/* Cancel Button */}
       <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
@@ -163,8 +220,10 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     marginTop: 2,
   },
-  modesContainer: {
+  content: {
     flex: 1,
+  },
+  modesContainer: {
     padding: 20,
     gap: 16,
   },
@@ -233,6 +292,50 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#374151',
   },
+  presetSection: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  presetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 10,
+  },
+  presetTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  presetChips: {
+    gap: 8,
+  },
+  presetChip: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  presetChipSelected: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#3b82f6',
+  },
+  presetChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  presetChipTextSelected: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  presetDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
   quickAccessInfo: {
     backgroundColor: '#FFFFFF',
     margin: 20,
@@ -5,32 +5,88 @@ import {
   StyleSheet,
   TouchableOpacity,
   Platform,
+  Alert,
+  LayoutChangeEvent,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
-import { ArrowLeft, Camera, FlipHorizontal, Zap } from 'lucide-react-native';
+import { ArrowLeft, Camera, Check, FlipHorizontal, Layers, Timer, Zap } from 'lucide-react-native';
+import Svg, { Polygon } from 'react-native-svg';
 import { realtimeDocumentPreview, DocumentBounds } from '@/lib/advancedImageProcessor';
+import { QualityIssue, QualityReport } from '@/lib/imageQuality';
 import * as ImagePicker from 'expo-image-picker';
 
-// const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+// Bounds confidence above which the document counts as detected
+const READY_CONFIDENCE = 0.8;
+
+// Consecutive steady, usable frames needed before auto-capture fires
+const STABLE_FRAMES_REQUIRED = 3;
+
+// Corners may drift by this share of the frame diagonal between frames and
+// still count as steady
+const STABILITY_TOLERANCE = 0.02;
+
+const ANALYSIS_INTERVAL_MS = 1000;
+
+// Any of these in a frame holds back automatic capture
+const BLOCKING_QUALITY_ISSUES: QualityIssue[] = ['blurry', 'motion-blur', 'underexposed', 'overexposed'];
+
+const CORNER_KEYS = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'] as const;
+
+interface FrameSize {
+  width: number;
+  height: number;
+}
+
+const isSharpAndWellLit = (quality: QualityReport | null) =>
+  !!quality && !quality.issues.some(issue => BLOCKING_QUALITY_ISSUES.includes(issue));
+
+const isSteady = (current: DocumentBounds, previous: DocumentBounds, frame: FrameSize) => {
+  const tolerance = Math.hypot(frame.width, frame.height) * STABILITY_TOLERANCE;
+  return CORNER_KEYS.every(key =>
+    Math.hypot(current[key].x - previous[key].x, current[key].y - previous[key].y) <= tolerance
+  );
+};
 
 interface SmartCameraViewProps {
   onCapture: (imageUri: string) => void;
   onCancel: () => void;
+  // Enables batch mode, which keeps capturing pages until the user is done
+  onBatchComplete?: (imageUris: string[]) => void;
 }
 
-export default function SmartCameraView({ onCapture, onCancel }: SmartCameraViewProps) {
+export default function SmartCameraView({ onCapture, onCancel, onBatchComplete }: SmartCameraViewProps) {
   const [facing, setFacing] = useState<CameraType>('back');
   const [permission, requestPermission] = useCameraPermissions();
   const [isCapturing, setIsCapturing] = useState(false);
   const [documentBounds, setDocumentBounds] = useState<DocumentBounds | null>(null);
+  const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+  const [frameQuality, setFrameQuality] = useState<QualityReport | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [viewSize, setViewSize] = useState<FrameSize | null>(null);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [batchMode, setBatchMode] = useState(false);
+  const [stableFrames, setStableFrames] = useState(0);
+  const [capturedPages, setCapturedPages] = useState<string[]>([]);
+  const [isWaitingForNextPage, setIsWaitingForNextPage] = useState(false);
   const cameraRef = useRef<CameraView>(null);
   const analysisTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The analysis loop outlives renders, so it reads these instead of state
+  const isMountedRef = useRef(true);
+  const isCapturingRef = useRef(false);
+  const autoCaptureRef = useRef(true);
+  const batchModeRef = useRef(false);
+  const previousBoundsRef = useRef<DocumentBounds | null>(null);
+  const stableFramesRef = useRef(0);
+  // Set after a capture until the frame stops being ready, so the same page
+  // is not captured twice while it is still in view
+  const waitingForNextPageRef = useRef(false);
 
   // Cleanup effect
   useEffect(() => {
+    isMountedRef.current = true;
     return () => {
+      isMountedRef.current = false;
       if (analysisTimeoutRef.current) {
         clearTimeout(analysisTimeoutRef.current);
       }
@@ -41,13 +97,41 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
     setFacing((current: CameraType) => (current === 'back' ? 'front' : 'back'));
   };
 
+  const toggleAutoCapture = () => {
+    autoCaptureRef.current = !autoCaptureRef.current;
+    setAutoCapture(autoCaptureRef.current);
+    stableFramesRef.current = 0;
+    setStableFrames(0);
+  };
+
+  const toggleBatchMode = () => {
+    batchModeRef.current = !batchModeRef.current;
+    setBatchMode(batchModeRef.current);
+  };
+
+  const setWaitingForNextPage = (waiting: boolean) => {
+    waitingForNextPageRef.current = waiting;
+    setIsWaitingForNextPage(waiting);
+  };
+
+  const handleCaptured = (uri: string) => {
+    if (batchModeRef.current) {
+      console.log('📚 Page added to batch');
+      setCapturedPages(prev => [...prev, uri]);
+      setWaitingForNextPage(true);
+    } else {
+      onCapture(uri);
+    }
+  };
+
   const capturePhoto = async () => {
-    if (!cameraRef.current || isCapturing) return;
+    if (!cameraRef.current || isCapturingRef.current) return;
 
+    isCapturingRef.current = true;
     setIsCapturing(true);
     try {
       console.log('📸 Capturing photo with smart camera...');
-      
+
       if (Platform.OS === 'web') {
         // Web fallback - use image picker
         const result = await ImagePicker.launchCameraAsync({
@@ -57,7 +141,7 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
         });
 
         if (!result.canceled && result.assets[0]) {
-          onCapture(result.assets[0].uri);
+          handleCaptured(result.assets[0].uri);
         }
       } else {
         // Native camera capture
@@ -68,58 +152,102 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
 
         if (photo) {
           console.log('✅ Photo captured, processing...');
-          onCapture(photo.uri);
+          handleCaptured(photo.uri);
         }
       }
     } catch (error) {
       console.error('❌ Error capturing photo:', error);
     } finally {
+      isCapturingRef.current = false;
       setIsCapturing(false);
     }
   };
 
+  // The analysis loop keeps the closure from its first run, so it captures
+  // through this ref to see the latest props
+  const capturePhotoRef = useRef(capturePhoto);
+  capturePhotoRef.current = capturePhoto;
+
   const analyzeFrame = async () => {
     if (isAnalyzing || Platform.OS === 'web') return;
 
     setIsAnalyzing(true);
     try {
       // Take a quick photo for analysis (not saved)
-      if (cameraRef.current) {
+      if (cameraRef.current && !isCapturingRef.current) {
         const photo = await cameraRef.current.takePictureAsync({
           quality: 0.3, // Low quality for speed
           base64: false,
         });
 
         if (photo) {
-          // Analyze the frame for document borders
+          // Analyze the frame for document borders and image quality
           const result = await realtimeDocumentPreview(photo.uri);
-          setDocumentBounds(result.bounds || null);
+          const bounds = result.bounds || null;
+          const quality = result.quality || null;
+          const frame = { width: photo.width, height: photo.height };
+          setDocumentBounds(bounds);
+          setFrameSize(frame);
+          setFrameQuality(quality);
+
+          const ready = !!bounds &&
+            bounds.confidence > READY_CONFIDENCE &&
+            isSharpAndWellLit(quality);
+          const previous = previousBoundsRef.current;
+          previousBoundsRef.current = ready ? bounds : null;
+
+          // A frame without a usable page means the last one was turned or
+          // taken away
+          if (!ready && waitingForNextPageRef.current) {
+            setWaitingForNextPage(false);
+          }
+
+          if (!ready) {
+            stableFramesRef.current = 0;
+          } else if (previous && isSteady(bounds, previous, frame)) {
+            stableFramesRef.current += 1;
+          } else {
+            stableFramesRef.current = 1;
+          }
+
+          const armed = autoCaptureRef.current && !waitingForNextPageRef.current;
+          setStableFrames(armed ? stableFramesRef.current : 0);
+
+          if (armed && stableFramesRef.current >= STABLE_FRAMES_REQUIRED) {
+            console.log('🤖 Document steady, in focus and well lit, capturing automatically');
+            stableFramesRef.current = 0;
+            setStableFrames(0);
+            setWaitingForNextPage(true);
+            await capturePhotoRef.current();
+          }
         }
       }
     } catch (error) {
       console.warn('⚠️ Frame analysis failed:', error);
     } finally {
       setIsAnalyzing(false);
-      
+
       // Schedule next analysis
-      analysisTimeoutRef.current = setTimeout(analyzeFrame, 1000) as any;
+      if (isMountedRef.current) {
+        analysisTimeoutRef.current = setTimeout(analyzeFrame, ANALYSIS_INTERVAL_MS) as any;
+      }
     }
   };
 
   // Start real-time analysis on mount
   useEffect(() => {
     let timeout: NodeJS.Timeout;
-    
+
     const startAnalysis = () => {
       if (Platform.OS !== 'web' && permission?.granted) {
         timeout = setTimeout(() => {
           analyzeFrame();
-        }, 1000) as any;
+        }, ANALYSIS_INTERVAL_MS) as any;
       }
     };
-    
+
     startAnalysis();
-    
+
     return () => {
       if (timeout) {
         clearTimeout(timeout);
@@ -147,24 +275,68 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
     );
   }
 
+  const handleCancel = () => {
+    if (capturedPages.length === 0) {
+      onCancel();
+      return;
+    }
+    Alert.alert(
+      'Discard Pages?',
+      `You have captured ${capturedPages.length} page${capturedPages.length === 1 ? '' : 's'}. Leaving now will discard them.`,
+      [
+        { text: 'Keep Scanning', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onCancel },
+      ]
+    );
+  };
+
+  const finishBatch = () => {
+    if (capturedPages.length > 0) {
+      onBatchComplete?.(capturedPages);
+    }
+  };
+
+  const handleCameraLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setViewSize({ width, height });
+  };
+
   const renderDocumentOverlay = () => {
-    if (!documentBounds || Platform.OS === 'web') return null;
-
-    const overlayStyle = {
-      position: 'absolute' as const,
-      left: documentBounds.topLeft.x,
-      top: documentBounds.topLeft.y,
-      width: documentBounds.topRight.x - documentBounds.topLeft.x,
-      height: documentBounds.bottomLeft.y - documentBounds.topLeft.y,
-      borderWidth: 3,
-      borderColor: documentBounds.confidence > 0.8 ? '#10b981' : '#f59e0b',
-      borderRadius: 8,
-      backgroundColor: 'transparent',
-    };
+    if (!documentBounds || !frameSize || !viewSize || Platform.OS === 'web') return null;
+
+    // The preview fills the view and crops the overflow, like the photo would
+    const scale = Math.max(viewSize.width / frameSize.width, viewSize.height / frameSize.height);
+    const offsetX = (viewSize.width - frameSize.width * scale) / 2;
+    const offsetY = (viewSize.height - frameSize.height * scale) / 2;
+    const toView = (point: { x: number; y: number }) => ({
+      x: offsetX + point.x * scale,
+      y: offsetY + point.y * scale,
+    });
+
+    const points = CORNER_KEYS
+      .map(key => toView(documentBounds[key]))
+      .map(({ x, y }) => `${x},${y}`)
+      .join(' ');
+    const badgePosition = toView(documentBounds.topRight);
+    const color = documentBounds.confidence > READY_CONFIDENCE ? '#10b981' : '#f59e0b';
 
     return (
-      <View style={overlayStyle}>
-        <View style={styles.confidenceBadge}>
+      <View style={StyleSheet.absoluteFill} pointerEvents="none">
+        <Svg width={viewSize.width} height={viewSize.height}>
+          <Polygon
+            points={points}
+            fill="rgba(16, 185, 129, 0.1)"
+            stroke={color}
+            strokeWidth={3}
+            strokeLinejoin="round"
+          />
+        </Svg>
+        <View
+          style={[
+            styles.confidenceBadge,
+            { left: Math.max(0, badgePosition.x - 48), top: Math.max(0, badgePosition.y - 30) },
+          ]}
+        >
           <Text style={styles.confidenceText}>
             {Math.round(documentBounds.confidence * 100)}%
           </Text>
@@ -173,23 +345,54 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
     );
   };
 
+  const renderCountdown = () => {
+    if (!autoCapture || stableFrames === 0 || isCapturing) return null;
+
+    return (
+      <View style={styles.countdownContainer} pointerEvents="none">
+        <View style={styles.countdownCircle}>
+          <Text style={styles.countdownNumber}>{STABLE_FRAMES_REQUIRED - stableFrames}</Text>
+        </View>
+        <Text style={styles.countdownText}>Hold steady</Text>
+      </View>
+    );
+  };
+
+  const isReady = !!documentBounds &&
+    documentBounds.confidence > READY_CONFIDENCE &&
+    isSharpAndWellLit(frameQuality);
+
   const getStatusColor = () => {
     if (!documentBounds) return '#6b7280';
-    return documentBounds.confidence > 0.8 ? '#10b981' : '#f59e0b';
+    return isReady ? '#10b981' : '#f59e0b';
+  };
+
+  const getQualityText = () => {
+    if (!frameQuality) return null;
+    const { issues } = frameQuality;
+    if (issues.includes('motion-blur')) return 'Hold steady - image is blurred by motion';
+    if (issues.includes('blurry')) return 'Image is out of focus';
+    if (issues.includes('underexposed')) return 'Too dark - add more light';
+    if (issues.includes('overexposed')) return 'Too bright - avoid glare and direct light';
+    return null;
   };
 
   const getStatusText = () => {
+    if (isCapturing) return 'Capturing...';
+    if (batchMode && isWaitingForNextPage) return `Page ${capturedPages.length} captured - turn to the next page`;
     if (isAnalyzing) return 'Analyzing...';
     if (!documentBounds) return 'Position document in frame';
-    if (documentBounds.confidence > 0.8) return 'Document detected - Ready to capture';
-    return 'Adjust position for better detection';
+    if (documentBounds.confidence <= READY_CONFIDENCE) return 'Adjust position for better detection';
+    const qualityText = getQualityText();
+    if (qualityText) return qualityText;
+    return autoCapture ? 'Document detected - Hold steady' : 'Document detected - Ready to capture';
   };
 
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <TouchableOpacity style={styles.headerButton} onPress={onCancel}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleCancel}>
           <ArrowLeft size={24} color='#FFFFFF' />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Smart Scanner</Text>
@@ -199,7 +402,7 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
       </View>
 
       {/* Camera View */}
-      <View style={styles.cameraContainer}>
+      <View style={styles.cameraContainer} onLayout={handleCameraLayout}>
         <CameraView
           ref={cameraRef}
           style={styles.camera}
@@ -207,7 +410,7 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
         >
           {/* Document Detection Overlay */}
           {renderDocumentOverlay()}
-          
+
           {/* Guide Lines */}
           <View style={styles.guideLines}>
             <View style={[styles.guideLine, styles.guideLineTopLeft]} />
@@ -215,6 +418,9 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
             <View style={[styles.guideLine, styles.guideLineBottomLeft]} />
             <View style={[styles.guideLine, styles.guideLineBottomRight]} />
           </View>
+
+          {/* Auto-capture countdown */}
+          {renderCountdown()}
         </CameraView>
       </View>
 
@@ -233,13 +439,34 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
       {/* Controls */}
       <View style={styles.controls}>
         <View style={styles.controlsRow}>
-          <View style={styles.controlSpacer} />
-          
+          <View style={[styles.controlSpacer, styles.modeButtons]}>
+            <TouchableOpacity
+              style={[styles.modeButton, autoCapture && styles.modeButtonActive]}
+              onPress={toggleAutoCapture}
+            >
+              <Timer size={18} color={autoCapture ? '#10b981' : '#FFFFFF'} />
+              <Text style={[styles.modeButtonText, autoCapture && styles.modeButtonTextActive]}>
+                Auto
+              </Text>
+            </TouchableOpacity>
+            {onBatchComplete && (
+              <TouchableOpacity
+                style={[styles.modeButton, batchMode && styles.modeButtonActive]}
+                onPress={toggleBatchMode}
+              >
+                <Layers size={18} color={batchMode ? '#10b981' : '#FFFFFF'} />
+                <Text style={[styles.modeButtonText, batchMode && styles.modeButtonTextActive]}>
+                  Batch
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
           <TouchableOpacity
             style={[
               styles.captureButton,
               isCapturing && styles.captureButtonDisabled,
-              documentBounds && documentBounds.confidence > 0.8 && styles.captureButtonReady,
+              isReady && styles.captureButtonReady,
             ]}
             onPress={capturePhoto}
             disabled={isCapturing}
@@ -248,8 +475,15 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
               <Camera size={32} color='#FFFFFF' />
             </View>
           </TouchableOpacity>
-          
-          <View style={styles.controlSpacer} />
+
+          <View style={[styles.controlSpacer, styles.doneButtonContainer]}>
+            {capturedPages.length > 0 && (
+              <TouchableOpacity style={styles.doneButton} onPress={finishBatch}>
+                <Check size={18} color='#FFFFFF' />
+                <Text style={styles.doneButtonText}>Done ({capturedPages.length})</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         {/* Processing Features Info */}
@@ -257,6 +491,7 @@ export default function SmartCameraView({ onCapture, onCancel }: SmartCameraView
           <Text style={styles.featuresTitle}>Advanced Processing Features:</Text>
           <View style={styles.featuresList}>
             <Text style={styles.featureItem}>• Real-time border detection</Text>
+            <Text style={styles.featureItem}>• Auto-capture when the page is steady</Text>
             <Text style={styles.featureItem}>• Automatic perspective correction</Text>
             <Text style={styles.featureItem}>• Glare and shadow removal</Text>
             <Text style={styles.featureItem}>• Contrast enhancement</Text>
@@ -373,8 +608,6 @@ const styles = StyleSheet.create({
   },
   confidenceBadge: {
     position: 'absolute',
-    top: -30,
-    right: 0,
     backgroundColor: 'rgba(0, 0, 0, 0.8)',
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -385,6 +618,36 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  countdownContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countdownCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: '#10b981',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countdownNumber: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  countdownText: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   statusBar: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -433,6 +696,46 @@ const styles = StyleSheet.create({
   controlSpacer: {
     flex: 1,
   },
+  modeButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeButton: {
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    gap: 2,
+  },
+  modeButtonActive: {
+    backgroundColor: 'rgba(16, 185, 129, 0.2)',
+  },
+  modeButtonText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  modeButtonTextActive: {
+    color: '#10b981',
+  },
+  doneButtonContainer: {
+    alignItems: 'flex-end',
+  },
+  doneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#10b981',
+    gap: 6,
+  },
+  doneButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   captureButton: {
     width: 80,
     height: 80,
@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
-import { documents, Document } from '@/lib/supabase';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
+import type { Document } from '@/lib/supabase';
+import { trpc } from '@/lib/trpc';
 import { useAuth } from './AuthContext';
 import { createProgressiveThumbnails } from '@/lib/imageOptimizer';
 import { trackPerformance } from '@/lib/performanceMonitor';
@@ -26,7 +27,9 @@ const DOCUMENTS_PER_PAGE = 15;
 
 export function DocumentProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
+  const utils = trpc.useUtils();
   const [docs, setDocs] = useState<Document[]>([]);
+  const nextCursorRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
@@ -35,24 +38,22 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
   // Update document function with useCallback
   const updateDocument = useCallback(async (id: string, updates: Partial<Document>) => {
-    try {
-      const { data, error } = await documents.update(id, updates);
+    if (!user) {
+      return { data: null, error: { message: 'User not authenticated' } };
+    }
 
-      if (error) {
-        console.error('Error updating document:', error);
-        return { data: null, error };
-      }
+    try {
+      // Server-managed fields (id, user_id, timestamps) are stripped by the input schema
+      const data = await utils.client.documents.update.mutate({ id, updates });
 
-      if (data) {
-        setDocs(prev => prev.map(doc => doc.id === id ? data : doc));
-      }
+      setDocs(prev => prev.map(doc => doc.id === id ? data : doc));
 
       return { data, error: null };
     } catch (error) {
       console.error('Error updating document:', error);
       return { data: null, error: { message: 'Failed to update document' } };
     }
-  }, []);
+  }, [user, utils]);
 
   // Generate thumbnails for a specific document
   const generateThumbnailsForDocument = useCallback(async (documentId: string, imageUri: string) => {
@@ -95,22 +96,12 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
     }
   }, [thumbnailGenerationQueue, updateDocument]);
 
-  // Generate thumbnails for documents that don't have them using optimized query
-  const generateMissingThumbnails = useCallback(async (documentsToCheck?: Document[]) => {
+  // Generate thumbnails for the given documents that don't have them yet
+  const generateMissingThumbnails = useCallback(async (documentsToCheck: Document[]) => {
     if (!user) return;
 
-    let documentsNeedingThumbnails: Pick<Document, 'id' | 'image_url' | 'created_at'>[];
-    
-    if (documentsToCheck) {
-      // Use provided documents (for immediate processing)
-      documentsNeedingThumbnails = documentsToCheck
-        .filter(doc => doc.image_url && !doc.thumbnail_low_url && !thumbnailGenerationQueue.has(doc.id))
-        .map(doc => ({ id: doc.id, image_url: doc.image_url!, created_at: doc.created_at }));
-    } else {
-      // Use optimized query to get documents needing thumbnails
-      const { data } = await documents.getDocumentsNeedingThumbnails(user.id, 10);
-      documentsNeedingThumbnails = (data || []).filter(doc => !thumbnailGenerationQueue.has(doc.id));
-    }
+    const documentsNeedingThumbnails = documentsToCheck
+      .filter(doc => doc.image_url && !doc.thumbnail_low_url && !thumbnailGenerationQueue.has(doc.id));
 
     if (documentsNeedingThumbnails.length === 0) return;
 
@@ -139,6 +130,7 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
   const loadDocuments = useCallback(async (reset: boolean = true, immediate: boolean = false) => {
     if (!user) {
       setDocs([]);
+      nextCursorRef.current = null;
       setTotalCount(0);
       setHasMore(false);
       return;
@@ -157,42 +149,37 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
-      const offset = reset ? 0 : docs.length;
       const endTracking = trackPerformance.documentListLoad(DOCUMENTS_PER_PAGE);
       
-      // Get total count
-      const { count } = await documents.getCount(user.id);
-      setTotalCount(count || 0);
-      
-      // Get documents for current page
-      const { data, error } = await documents.getAll(user.id, {
-        limit: DOCUMENTS_PER_PAGE,
-        offset
-      });
+      // Get total count and the current page in parallel
+      const [{ count }, page] = await Promise.all([
+        utils.client.documents.count.query(),
+        utils.client.documents.list.query({
+          limit: DOCUMENTS_PER_PAGE,
+          cursor: reset ? null : nextCursorRef.current,
+        }),
+      ]);
+      setTotalCount(count);
       
       endTracking();
       
-      if (error) {
-        console.error('Error loading documents:', error);
+      const newDocs = page.items;
+      nextCursorRef.current = page.nextCursor;
+      if (reset) {
+        setDocs(newDocs);
+        // Start generating thumbnails for documents without them
+        setTimeout(() => generateMissingThumbnails(newDocs), 1000);
       } else {
-        const newDocs = data || [];
-        if (reset) {
-          setDocs(newDocs);
-          // Start generating thumbnails for documents without them
-          setTimeout(() => generateMissingThumbnails(newDocs), 1000);
-        } else {
-          setDocs(prev => {
-            const combined = [...prev, ...newDocs];
-            // Generate thumbnails for new documents
-            setTimeout(() => generateMissingThumbnails(newDocs), 500);
-            return combined;
-          });
-        }
-        
-        // Check if there are more documents to load
-        const totalLoaded = reset ? newDocs.length : docs.length + newDocs.length;
-        setHasMore(totalLoaded < (count || 0));
+        setDocs(prev => {
+          const combined = [...prev, ...newDocs];
+          // Generate thumbnails for new documents
+          setTimeout(() => generateMissingThumbnails(newDocs), 500);
+          return combined;
+        });
       }
+      
+      // The server only returns a cursor when another page exists
+      setHasMore(page.nextCursor !== null);
     } catch (error) {
       console.error('Error loading documents:', error);
     } finally {
@@ -200,7 +187,7 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     }
-  }, [user, docs.length, generateMissingThumbnails]);
+  }, [user, utils, generateMissingThumbnails]);
 
   const loadMoreDocuments = async () => {
     if (!user || loadingMore || !hasMore) {
@@ -209,28 +196,21 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
     setLoadingMore(true);
     try {
-      const offset = docs.length;
-      
-      const { data, error } = await documents.getAll(user.id, {
+      const page = await utils.client.documents.list.query({
         limit: DOCUMENTS_PER_PAGE,
-        offset
+        cursor: nextCursorRef.current,
       });
       
-      if (error) {
-        console.error('Error loading more documents:', error);
-      } else {
-        const newDocs = data || [];
-        setDocs(prev => {
-          const combined = [...prev, ...newDocs];
-          // Generate thumbnails for new documents
-          setTimeout(() => generateMissingThumbnails(newDocs), 500);
-          return combined;
-        });
-        
-        // Check if there are more documents to load
-        const totalLoaded = docs.length + newDocs.length;
-        setHasMore(totalLoaded < totalCount);
-      }
+      const newDocs = page.items;
+      setDocs(prev => {
+        const combined = [...prev, ...newDocs];
+        // Generate thumbnails for new documents
+        setTimeout(() => generateMissingThumbnails(newDocs), 500);
+        return combined;
+      });
+      
+      nextCursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
     } catch (error) {
       console.error('Error loading more documents:', error);
     } finally {
@@ -251,19 +231,10 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
-      const { data, error } = await documents.create({
-        ...document,
-        user_id: user.id,
-      });
+      const data = await utils.client.documents.create.mutate({ document });
 
-      if (error) {
-        console.error('Error adding document:', error);
-        return { data: null, error };
-      }
-
-      if (data) {
-        setDocs(prev => [data, ...prev]);
-      }
+      setDocs(prev => [data, ...prev]);
+      setTotalCount(prev => prev + 1);
 
       return { data, error: null };
     } catch (error) {
@@ -275,15 +246,13 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
 
   const deleteDocument = async (id: string) => {
-    try {
-      const { error } = await documents.delete(id);
+    if (!user) return;
 
-      if (error) {
-        console.error('Error deleting document:', error);
-        throw error;
-      }
+    try {
+      await utils.client.documents.delete.mutate({ id });
 
       setDocs(prev => prev.filter(doc => doc.id !== id));
+      setTotalCount(prev => Math.max(0, prev - 1));
     } catch (error) {
       console.error('Error deleting document:', error);
       throw error;
@@ -295,10 +264,12 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
     try {
       // Delete all documents for the user
-      const deletePromises = docs.map(doc => documents.delete(doc.id));
+      const deletePromises = docs.map(doc => utils.client.documents.delete.mutate({ id: doc.id }));
       await Promise.all(deletePromises);
       
       setDocs([]);
+      nextCursorRef.current = null;
+      setTotalCount(0);
     } catch (error) {
       console.error('Error clearing all documents:', error);
       throw error;
@@ -315,12 +286,7 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
-      const { data, error } = await documents.search(user.id, query);
-      if (error) {
-        console.error('Error searching documents:', error);
-        return [];
-      }
-      return data || [];
+      return await utils.client.documents.search.query({ query });
     } catch (error) {
       console.error('Error searching documents:', error);
       return [];
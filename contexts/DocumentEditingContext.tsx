@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
 import { Alert } from 'react-native';
-import * as FileSystem from 'expo-file-system';
 import {
   Annotation,
   DocumentPage,
@@ -11,6 +10,10 @@ import {
   AnnotatedDocument,
 } from '@/types/scan';
 import { useDocuments } from './DocumentContext';
+import { useSignatures } from './SignatureContext';
+import { documentPDFEncoder } from '@/lib/pdfExport';
+import { ExportResult, exportFile, sanitizeFileName } from '@/lib/exportService';
+import { getDefaultDeliveryTarget } from '@/lib/exportTargets';
 
 interface DocumentEditingContextType {
   // Annotation management
@@ -19,6 +22,8 @@ interface DocumentEditingContextType {
   updateAnnotation: (id: string, updates: Partial<Annotation>) => void;
   deleteAnnotation: (id: string) => void;
   clearAnnotations: () => void;
+  // Replaces the annotations, e.g. with those of an imported document
+  loadAnnotations: (annotations: Annotation[]) => void;
   
   // Document merging
   mergeDocuments: (documents: MultiPageDocument[], options: DocumentMergeOptions) => Promise<MultiPageDocument | null>;
@@ -27,7 +32,7 @@ interface DocumentEditingContextType {
   splitDocument: (document: MultiPageDocument, options: DocumentSplitOptions) => Promise<MultiPageDocument[] | null>;
   
   // PDF export
-  exportToPDF: (document: AnnotatedDocument, options: PDFExportOptions) => Promise<string | null>;
+  exportToPDF: (document: AnnotatedDocument, options: PDFExportOptions) => Promise<ExportResult>;
   
   // Page operations
   duplicatePage: (page: DocumentPage) => DocumentPage;
@@ -44,6 +49,7 @@ export function DocumentEditingProvider({ children }: { children: React.ReactNod
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const { addDocument, updateDocument } = useDocuments();
+  const { signatures } = useSignatures();
 
   const addAnnotation = useCallback((annotation: Omit<Annotation, 'id' | 'createdAt'>) => {
     let newAnnotation: Annotation;
@@ -114,6 +120,11 @@ export function DocumentEditingProvider({ children }: { children: React.ReactNod
     console.log('🧹 Cleared all annotations');
   }, []);
 
+  const loadAnnotations = useCallback((loaded: Annotation[]) => {
+    setAnnotations(loaded);
+    console.log(`📥 Loaded ${loaded.length} annotations`);
+  }, []);
+
   const mergeDocuments = useCallback(async (
     documents: MultiPageDocument[], 
     options: DocumentMergeOptions
@@ -269,56 +280,21 @@ export function DocumentEditingProvider({ children }: { children: React.ReactNod
   const exportToPDF = useCallback(async (
     document: AnnotatedDocument, 
     options: PDFExportOptions
-  ): Promise<string | null> => {
+  ): Promise<ExportResult> => {
     setIsProcessing(true);
     
     try {
       console.log(`📄 Exporting document to PDF: ${document.title}`);
-      
-      // For now, we'll create a simple image-based PDF using view-shot
-      // In a real implementation, you'd use a proper PDF library
-      
-      const pdfPages: string[] = [];
-      
-      for (const page of document.pages) {
-        try {
-          // This would capture each page as an image
-          // In practice, you'd render the page with annotations
-          const pageUri = page.imageUri;
-          pdfPages.push(pageUri);
-        } catch (error) {
-          console.warn(`⚠️ Failed to process page ${page.id}:`, error);
-        }
-      }
-      
-      if (pdfPages.length === 0) {
-        throw new Error('No pages could be processed for PDF export');
-      }
-      
-      // Create a simple multi-page document reference
-      const pdfPath = `${FileSystem.documentDirectory}${document.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.pdf`;
-      
-      // Note: This is a placeholder. In a real implementation, you'd use a PDF library
-      // to combine the images into a proper PDF with annotations
-      console.log(`📄 PDF would be created at: ${pdfPath}`);
-      console.log(`📊 PDF options:`, options);
-      
-      Alert.alert(
-        'PDF Export',
-        `Document "${document.title}" has been prepared for export with ${pdfPages.length} pages.\n\nNote: Full PDF export requires additional PDF processing capabilities.`,
-        [{ text: 'OK' }]
-      );
-      
-      return pdfPath;
-      
-    } catch (error) {
-      console.error('❌ Error exporting to PDF:', error);
-      Alert.alert('Error', 'Failed to export document to PDF. Please try again.');
-      return null;
+      return await exportFile({
+        encoder: documentPDFEncoder,
+        input: { document, options, savedSignatures: signatures },
+        fileName: `${sanitizeFileName(document.title)}_${Date.now()}`,
+        target: getDefaultDeliveryTarget(documentPDFEncoder.mimeType),
+      });
     } finally {
       setIsProcessing(false);
     }
-  }, []);
+  }, [signatures]);
 
   const duplicatePage = useCallback((page: DocumentPage): DocumentPage => {
     const duplicatedPage: DocumentPage = {
@@ -347,6 +323,7 @@ export function DocumentEditingProvider({ children }: { children: React.ReactNod
     updateAnnotation,
     deleteAnnotation,
     clearAnnotations,
+    loadAnnotations,
     mergeDocuments,
     splitDocument,
     exportToPDF,
@@ -1,79 +1,125 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
+import type { OCREngineMode } from '@/lib/ocrEngines';
+import { isOnDeviceOCRAvailable, prepareOnDeviceOCR } from '@/lib/onDeviceOcr';
+import {
+  OCR_LANGUAGE_REGISTRY,
+  MAX_OCR_LANGUAGES,
+  OCRLanguageCode,
+  formatLanguageSelection,
+  getOCRLanguage,
+  isOCRLanguageCode,
+} from '@/lib/ocrLanguages';
 
-export type OCRLanguage = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'auto';
+const OCR_LANGUAGES_KEY = '@ocr_languages';
+// Single-language preference saved by older versions
+const LEGACY_OCR_LANGUAGE_KEY = '@ocr_language';
+const OCR_ENGINE_MODE_KEY = '@ocr_engine_mode';
 
-export interface OCRLanguageOption {
-  code: OCRLanguage;
-  name: string;
-  nativeName: string;
-}
-
-export const OCR_LANGUAGES: OCRLanguageOption[] = [
-  { code: 'auto', name: 'Auto-detect', nativeName: 'Auto-detect' },
-  { code: 'en', name: 'English', nativeName: 'English' },
-  { code: 'es', name: 'Spanish', nativeName: 'Español' },
-  { code: 'fr', name: 'French', nativeName: 'Français' },
-  { code: 'de', name: 'German', nativeName: 'Deutsch' },
-  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
-  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
-];
-
-const OCR_LANGUAGE_KEY = '@ocr_language';
+const parseSavedLanguages = (saved: string | null, legacy: string | null): OCRLanguageCode[] => {
+  if (saved) {
+    try {
+      const codes: unknown = JSON.parse(saved);
+      if (Array.isArray(codes)) {
+        return codes
+          .filter((code): code is OCRLanguageCode => typeof code === 'string' && isOCRLanguageCode(code))
+          .slice(0, MAX_OCR_LANGUAGES);
+      }
+    } catch {
+      // Fall through to the defaults
+    }
+  }
+  return legacy && isOCRLanguageCode(legacy) ? [legacy] : [];
+};
 
 export const [OCRSettingsProvider, useOCRSettings] = createContextHook(() => {
-  const [selectedLanguage, setSelectedLanguage] = useState<OCRLanguage>('auto');
+  // Empty means auto-detect
+  const [selectedLanguages, setSelectedLanguages] = useState<OCRLanguageCode[]>([]);
+  const [engineMode, setEngineModeState] = useState<OCREngineMode>('auto');
   const [isLoading, setIsLoading] = useState(true);
 
-  const isValidLanguage = (language: string): boolean => {
-    return OCR_LANGUAGES.some(lang => lang.code === language);
-  };
-
-  const loadLanguagePreference = useCallback(async () => {
+  const loadPreferences = useCallback(async () => {
     try {
-      const savedLanguage = await AsyncStorage.getItem(OCR_LANGUAGE_KEY);
-      if (savedLanguage && isValidLanguage(savedLanguage)) {
-        setSelectedLanguage(savedLanguage as OCRLanguage);
+      const [savedLanguages, legacyLanguage, savedEngineMode] = await Promise.all([
+        AsyncStorage.getItem(OCR_LANGUAGES_KEY),
+        AsyncStorage.getItem(LEGACY_OCR_LANGUAGE_KEY),
+        AsyncStorage.getItem(OCR_ENGINE_MODE_KEY),
+      ]);
+      setSelectedLanguages(parseSavedLanguages(savedLanguages, legacyLanguage));
+      // A saved on-device mode is ignored where the engine is missing, so
+      // scans keep going to the cloud
+      if (savedEngineMode === 'on-device' && isOnDeviceOCRAvailable()) {
+        setEngineModeState(savedEngineMode);
       }
     } catch (error) {
-      console.error('Error loading OCR language preference:', error);
+      console.error('Error loading OCR preferences:', error);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  // Load saved language preference on mount
+  // Load saved preferences on mount
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  // Download language data for a new selection while still online, so
+  // on-device scans keep working once the connection drops
   useEffect(() => {
-    loadLanguagePreference();
-  }, [loadLanguagePreference]);
+    if (isLoading || engineMode !== 'on-device') return;
+    prepareOnDeviceOCR(selectedLanguages).catch(error => {
+      console.warn('⚠️ Could not prepare on-device OCR:', error);
+    });
+  }, [isLoading, engineMode, selectedLanguages]);
 
-  const saveLanguagePreference = useCallback(async (language: OCRLanguage) => {
+  const saveLanguagePreference = useCallback(async (languages: OCRLanguageCode[]) => {
+    if (languages.length > MAX_OCR_LANGUAGES) {
+      throw new Error(`Select at most ${MAX_OCR_LANGUAGES} languages`);
+    }
     try {
-      await AsyncStorage.setItem(OCR_LANGUAGE_KEY, language);
-      setSelectedLanguage(language);
+      await AsyncStorage.setItem(OCR_LANGUAGES_KEY, JSON.stringify(languages));
+      setSelectedLanguages(languages);
     } catch (error) {
       console.error('Error saving OCR language preference:', error);
       throw error;
     }
   }, []);
 
-  const getLanguageName = useCallback((code: OCRLanguage): string => {
-    const language = OCR_LANGUAGES.find(lang => lang.code === code);
-    return language ? language.name : 'Auto-detect';
+  const saveEngineMode = useCallback(async (mode: OCREngineMode) => {
+    try {
+      await AsyncStorage.setItem(OCR_ENGINE_MODE_KEY, mode);
+      setEngineModeState(mode);
+    } catch (error) {
+      console.error('Error saving OCR engine preference:', error);
+      throw error;
+    }
+  }, []);
+
+  const getLanguageName = useCallback((code: OCRLanguageCode): string => {
+    return getOCRLanguage(code).name;
   }, []);
 
-  const getLanguageNativeName = useCallback((code: OCRLanguage): string => {
-    const language = OCR_LANGUAGES.find(lang => lang.code === code);
-    return language ? language.nativeName : 'Auto-detect';
+  const getLanguageNativeName = useCallback((code: OCRLanguageCode): string => {
+    return getOCRLanguage(code).nativeName;
   }, []);
 
+  // e.g. "English + Deutsch", or "Auto-detect" for an empty selection
+  const selectionLabel = useMemo(
+    () => formatLanguageSelection(selectedLanguages, true),
+    [selectedLanguages]
+  );
+
   return useMemo(() => ({
-    selectedLanguage,
+    selectedLanguages,
+    selectionLabel,
     isLoading,
-    languages: OCR_LANGUAGES,
-    setLanguage: saveLanguagePreference,
+    languages: OCR_LANGUAGE_REGISTRY,
+    maxLanguages: MAX_OCR_LANGUAGES,
+    setLanguages: saveLanguagePreference,
+    engineMode,
+    setEngineMode: saveEngineMode,
     getLanguageName,
     getLanguageNativeName,
-  }), [selectedLanguage, isLoading, saveLanguagePreference, getLanguageName, getLanguageNativeName]);
-});
\ No newline at end of file
+  }), [selectedLanguages, selectionLabel, engineMode, isLoading, saveLanguagePreference, saveEngineMode, getLanguageName, getLanguageNativeName]);
+});
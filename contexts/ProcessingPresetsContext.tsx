@@ -0,0 +1,150 @@
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { useAuth } from './AuthContext';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PRESET_ID,
+  ProcessingPreset,
+  createPresetId,
+  parsePresets,
+  serializePresets,
+} from '@/lib/processingPresets';
+
+// Presets are kept per user; signed-out use falls back to a shared slot
+const storageKeys = (userId: string | undefined) => {
+  const owner = userId ?? 'guest';
+  return {
+    presets: `@processing_presets:${owner}`,
+    selected: `@processing_preset_selected:${owner}`,
+  };
+};
+
+export const [ProcessingPresetsProvider, useProcessingPresets] = createContextHook(() => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [customPresets, setCustomPresets] = useState<ProcessingPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(DEFAULT_PRESET_ID);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPresets = useCallback(async () => {
+    const keys = storageKeys(userId);
+    setIsLoading(true);
+    try {
+      const [savedPresets, savedSelection] = await Promise.all([
+        AsyncStorage.getItem(keys.presets),
+        AsyncStorage.getItem(keys.selected),
+      ]);
+      let presets: ProcessingPreset[] = [];
+      if (savedPresets) {
+        try {
+          presets = parsePresets(savedPresets);
+        } catch (error) {
+          console.error('Saved processing presets are invalid, ignoring them:', error);
+        }
+      }
+      setCustomPresets(presets);
+      const known = [...BUILT_IN_PRESETS, ...presets].some(preset => preset.id === savedSelection);
+      setSelectedPresetId(savedSelection && known ? savedSelection : DEFAULT_PRESET_ID);
+    } catch (error) {
+      console.error('Error loading processing presets:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  // Reload whenever a different user signs in
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const persistPresets = useCallback(async (presets: ProcessingPreset[]) => {
+    try {
+      await AsyncStorage.setItem(storageKeys(userId).presets, serializePresets(presets));
+      setCustomPresets(presets);
+    } catch (error) {
+      console.error('Error saving processing presets:', error);
+      throw error;
+    }
+  }, [userId]);
+
+  const presets = useMemo(
+    () => [...BUILT_IN_PRESETS, ...customPresets],
+    [customPresets]
+  );
+
+  const selectedPreset = useMemo(
+    // The first built-in is the default
+    () => presets.find(preset => preset.id === selectedPresetId) ?? BUILT_IN_PRESETS[0],
+    [presets, selectedPresetId]
+  );
+
+  const selectPreset = useCallback(async (id: string) => {
+    try {
+      await AsyncStorage.setItem(storageKeys(userId).selected, id);
+      setSelectedPresetId(id);
+    } catch (error) {
+      console.error('Error saving selected processing preset:', error);
+      throw error;
+    }
+  }, [userId]);
+
+  // Creates the preset, or replaces the custom preset with the same id
+  const savePreset = useCallback(async (preset: ProcessingPreset) => {
+    if (BUILT_IN_PRESETS.some(builtIn => builtIn.id === preset.id)) {
+      throw new Error('Built-in presets cannot be changed; duplicate it instead');
+    }
+    const saved = { ...preset, builtIn: undefined };
+    const exists = customPresets.some(existing => existing.id === preset.id);
+    await persistPresets(exists
+      ? customPresets.map(existing => (existing.id === preset.id ? saved : existing))
+      : [...customPresets, saved]);
+    return saved;
+  }, [customPresets, persistPresets]);
+
+  const duplicatePreset = useCallback(async (id: string) => {
+    const source = presets.find(preset => preset.id === id);
+    if (!source) {
+      throw new Error('Preset not found');
+    }
+    return savePreset({
+      ...source,
+      id: createPresetId(),
+      name: `${source.name} copy`,
+      steps: source.steps.map(step => ({ ...step })),
+      builtIn: undefined,
+    });
+  }, [presets, savePreset]);
+
+  const deletePreset = useCallback(async (id: string) => {
+    await persistPresets(customPresets.filter(preset => preset.id !== id));
+    if (selectedPresetId === id) {
+      await selectPreset(DEFAULT_PRESET_ID);
+    }
+  }, [customPresets, persistPresets, selectedPresetId, selectPreset]);
+
+  // Imported presets get fresh ids so they never overwrite existing ones
+  const importPresets = useCallback(async (json: string) => {
+    const imported = parsePresets(json).map(preset => ({ ...preset, id: createPresetId() }));
+    await persistPresets([...customPresets, ...imported]);
+    return imported;
+  }, [customPresets, persistPresets]);
+
+  const exportPresets = useCallback((ids?: string[]) => {
+    const chosen = ids ? presets.filter(preset => ids.includes(preset.id)) : customPresets;
+    return serializePresets(chosen);
+  }, [presets, customPresets]);
+
+  return useMemo(() => ({
+    presets,
+    customPresets,
+    selectedPreset,
+    isLoading,
+    selectPreset,
+    savePreset,
+    duplicatePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  }), [presets, customPresets, selectedPreset, isLoading, selectPreset, savePreset, duplicatePreset, deletePreset, importPresets, exportPresets]);
+});
@@ -7,6 +7,8 @@ interface SignatureContextType {
   loading: boolean;
   saveSignature: (signature: Omit<SavedSignature, 'id' | 'createdAt'>) => Promise<SavedSignature>;
   deleteSignature: (id: string) => Promise<void>;
+  // Adds signatures that came with an imported document, keeping their ids
+  importSignatures: (imported: SavedSignature[]) => Promise<void>;
   getSignature: (id: string) => SavedSignature | undefined;
   refreshSignatures: () => Promise<void>;
 }
@@ -69,6 +71,16 @@ export function SignatureProvider({ children }: { children: React.ReactNode }) {
     await saveSignaturesToStorage(updatedSignatures);
   };
 
+  const importSignatures = async (imported: SavedSignature[]) => {
+    const known = new Set(signatures.map(sig => sig.id));
+    const added = imported.filter(sig => !known.has(sig.id));
+    if (added.length === 0) return;
+
+    const updatedSignatures = [...added, ...signatures];
+    setSignatures(updatedSignatures);
+    await saveSignaturesToStorage(updatedSignatures);
+  };
+
   const getSignature = (id: string): SavedSignature | undefined => {
     return signatures.find(sig => sig.id === id);
   };
@@ -82,6 +94,7 @@ export function SignatureProvider({ children }: { children: React.ReactNode }) {
     loading,
     saveSignature,
     deleteSignature,
+    importSignatures,
     getSignature,
     refreshSignatures,
   };
@@ -0,0 +1,47 @@
+import { Point, detectDocumentQuad } from '@/lib/borderDetection';
+import { RGBAImage } from '@/lib/imageFilters';
+
+// A grey image with a brighter, convex polygon drawn on it
+const drawQuad = (width: number, height: number, corners: Point[]): RGBAImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const inside = (x: number, y: number) => corners.every((corner, index) => {
+    const next = corners[(index + 1) % corners.length];
+    return (next.x - corner.x) * (y - corner.y) - (next.y - corner.y) * (x - corner.x) >= 0;
+  });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = inside(x + 0.5, y + 0.5) ? 225 : 50;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const expectNear = (actual: Point, expected: Point, tolerance: number) => {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance);
+};
+
+describe('detectDocumentQuad', () => {
+  it('finds the corners of a tilted page', () => {
+    // Clockwise in image coordinates, starting top left
+    const corners = [{ x: 40, y: 30 }, { x: 200, y: 45 }, { x: 185, y: 230 }, { x: 30, y: 215 }];
+    const quad = detectDocumentQuad(drawQuad(240, 260, corners));
+
+    expect(quad).not.toBeNull();
+    expectNear(quad!.topLeft, corners[0], 4);
+    expectNear(quad!.topRight, corners[1], 4);
+    expectNear(quad!.bottomRight, corners[2], 4);
+    expectNear(quad!.bottomLeft, corners[3], 4);
+    expect(quad!.confidence).toBeGreaterThan(0.7);
+  });
+
+  it('finds nothing in a blank image', () => {
+    expect(detectDocumentQuad(drawQuad(240, 260, []))).toBeNull();
+  });
+
+  it('ignores outlines smaller than the minimum area', () => {
+    const corners = [{ x: 100, y: 100 }, { x: 140, y: 100 }, { x: 140, y: 150 }, { x: 100, y: 150 }];
+    expect(detectDocumentQuad(drawQuad(240, 260, corners))).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import * as FileSystem from 'expo-file-system';
+import { createDocumentJSON, parseDocumentJSON } from '@/lib/documentJSON';
+import { restoreDocument } from '@/lib/documentImport';
+import { Annotation, DocumentPage, SavedSignature } from '@/types/scan';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  writeAsStringAsync: jest.fn(async () => {}),
+  readAsStringAsync: jest.fn(),
+}));
+
+jest.mock('expo-document-picker', () => ({
+  getDocumentAsync: jest.fn(),
+}));
+
+const createdAt = new Date('2026-03-01T10:00:00.000Z');
+
+const savedSignature: SavedSignature = {
+  id: 'signature-1',
+  name: 'Mine',
+  svgPath: 'M0 0 L10 10',
+  width: 100,
+  height: 50,
+  createdAt,
+};
+
+const pages: DocumentPage[] = [
+  {
+    id: 'page-1',
+    imageUri: 'file:///old-device/page-1.jpg',
+    extractedText: 'First page',
+    order: 0,
+    signatures: [{ id: 'placed-1', signatureId: 'signature-1', x: 10, y: 20, width: 100, height: 50 }],
+  },
+  { id: 'page-2', imageUri: 'file:///old-device/page-2.jpg', extractedText: 'Second page', order: 1 },
+];
+
+const annotations: Annotation[] = [
+  {
+    id: 'highlight-1',
+    type: 'highlight',
+    x: 5,
+    y: 10,
+    width: 200,
+    height: 20,
+    pageId: 'page-2',
+    createdAt,
+    color: '#FFFF00',
+    opacity: 0.3,
+  },
+  {
+    id: 'note-1',
+    type: 'textbox',
+    x: 40,
+    y: 80,
+    width: 120,
+    height: 30,
+    createdAt,
+    text: 'Check this',
+    fontSize: 14,
+    fontColor: '#000000',
+  },
+];
+
+const exportData = {
+  document: { id: 'document-1', title: 'Contract', createdAt, updatedAt: createdAt },
+  title: 'Contract',
+  text: 'First page\n\nSecond page',
+  pages,
+  pageImages: { 'page-1': { mimeType: 'image/png', data: 'iVBORw0KGgoAAAA=' } },
+  annotations,
+  signatures: [savedSignature],
+  runs: [{ text: 'First page', bold: true }, { text: '\n\nSecond page', color: '#0066CC', fontSize: 18 }],
+  handwrittenSignatures: [{ points: [{ x: 1, y: 2 }, { x: 3, y: 4 }], color: '#000000', strokeWidth: 3 }],
+};
+
+describe('document JSON', () => {
+  it('reads back everything it wrote', () => {
+    const imported = parseDocumentJSON(createDocumentJSON(exportData));
+
+    expect(imported).toEqual({ ...exportData, exportedAt: expect.any(Date) });
+  });
+
+  it('restores the pages, annotations and formatting of an export', async () => {
+    const restored = await restoreDocument(createDocumentJSON(exportData));
+
+    // The embedded image is saved on this device; the other page keeps its URI
+    expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(
+      expect.stringMatching(/^file:\/\/\/documents\/imported-.*page-1\.png$/),
+      'iVBORw0KGgoAAAA=',
+      { encoding: 'base64' }
+    );
+    expect(restored.document).toMatchObject({ id: 'document-1', title: 'Contract', createdAt });
+    expect(restored.document.pages.map(page => page.imageUri)).toEqual([
+      expect.stringMatching(/page-1\.png$/),
+      'file:///old-device/page-2.jpg',
+    ]);
+    expect(restored.document.pages[0].signatures).toEqual(pages[0].signatures);
+    expect(restored.annotations).toEqual(annotations);
+    expect(restored.signatures).toEqual([savedSignature]);
+    expect(restored.text).toBe(exportData.text);
+    expect(restored.runs).toEqual(exportData.runs);
+    expect(restored.handwrittenSignatures).toEqual(exportData.handwrittenSignatures);
+  });
+
+  it('leaves out annotations on pages that are not exported', () => {
+    const imported = parseDocumentJSON(createDocumentJSON({ ...exportData, pages: [pages[0]] }));
+
+    expect(imported.annotations.map(annotation => annotation.id)).toEqual(['note-1']);
+  });
+});
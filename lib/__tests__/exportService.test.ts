@@ -0,0 +1,130 @@
+import {
+  DeliveryTarget,
+  ExportEncoder,
+  ExportFile,
+  createUploadTarget,
+  exportFile,
+  sanitizeFileName,
+} from '@/lib/exportService';
+
+const textEncoder: ExportEncoder<string> = {
+  extension: 'txt',
+  mimeType: 'text/plain',
+  encode: async input => input,
+};
+
+// Records what it was given and answers as told
+const fakeTarget = (
+  outcome: { completed: boolean } | Error = { completed: true }
+): DeliveryTarget & { delivered: ExportFile[] } => {
+  const delivered: ExportFile[] = [];
+  return {
+    kind: 'files',
+    delivered,
+    deliver: async file => {
+      delivered.push(file);
+      if (outcome instanceof Error) throw outcome;
+      return { location: `file:///documents/${file.fileName}`, completed: outcome.completed };
+    },
+  };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('exportFile', () => {
+  it('delivers the encoded file and reports its size in bytes', async () => {
+    const target = fakeTarget();
+    const result = await exportFile({ encoder: textEncoder, input: 'Grüße', fileName: 'notes', target });
+
+    expect(target.delivered).toEqual([{ fileName: 'notes.txt', mimeType: 'text/plain', data: 'Grüße' }]);
+    expect(result).toEqual({
+      status: 'delivered',
+      target: 'files',
+      fileName: 'notes.txt',
+      mimeType: 'text/plain',
+      size: 7,
+      location: 'file:///documents/notes.txt',
+    });
+  });
+
+  it('reports a dismissed delivery as cancelled', async () => {
+    const result = await exportFile({
+      encoder: textEncoder,
+      input: 'text',
+      fileName: 'notes',
+      target: fakeTarget({ completed: false }),
+    });
+
+    expect(result).toEqual({
+      status: 'cancelled',
+      target: 'files',
+      fileName: 'notes.txt',
+      location: 'file:///documents/notes.txt',
+    });
+  });
+
+  it('reports an encoder error without delivering anything', async () => {
+    const target = fakeTarget();
+    const result = await exportFile({
+      encoder: { ...textEncoder, encode: async () => { throw new Error('No pages to export'); } },
+      input: '',
+      fileName: 'notes',
+      target,
+    });
+
+    expect(target.delivered).toHaveLength(0);
+    expect(result).toEqual({
+      status: 'failed',
+      target: 'files',
+      fileName: 'notes.txt',
+      stage: 'encode',
+      error: 'No pages to export',
+    });
+  });
+
+  it('reports a delivery error', async () => {
+    const result = await exportFile({
+      encoder: textEncoder,
+      input: 'text',
+      fileName: 'notes',
+      target: fakeTarget(new Error('Disk full')),
+    });
+
+    expect(result).toMatchObject({ status: 'failed', stage: 'deliver', error: 'Disk full' });
+  });
+});
+
+describe('createUploadTarget', () => {
+  it('delivers to where the uploader put the file', async () => {
+    const upload = jest.fn(async (file: ExportFile) => `https://storage.example.com/${file.fileName}`);
+    const result = await exportFile({
+      encoder: { extension: 'bin', mimeType: 'application/octet-stream', encode: async () => new Uint8Array(3) },
+      input: null,
+      fileName: 'scan',
+      target: createUploadTarget(upload),
+    });
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      status: 'delivered',
+      target: 'upload',
+      size: 3,
+      location: 'https://storage.example.com/scan.bin',
+    });
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('keeps letters in any script and replaces everything else', () => {
+    expect(sanitizeFileName('  Mietvertrag: Müller/Smith  ')).toBe('Mietvertrag_Müller_Smith');
+    expect(sanitizeFileName('عقد الإيجار')).toBe('عقد_الإيجار');
+    expect(sanitizeFileName('???')).toBe('document');
+  });
+});
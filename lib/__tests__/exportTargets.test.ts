@@ -0,0 +1,145 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import {
+  createStorageUploadTarget,
+  downloadTarget,
+  filesTarget,
+  getDefaultDeliveryTarget,
+  shareTarget,
+} from '@/lib/exportTargets';
+import { ExportFile } from '@/lib/exportService';
+import { storage } from '@/lib/supabase';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'android' },
+  Share: { share: jest.fn(), dismissedAction: 'dismissedAction' },
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  writeAsStringAsync: jest.fn(async () => {}),
+  StorageAccessFramework: {
+    requestDirectoryPermissionsAsync: jest.fn(),
+    createFileAsync: jest.fn(),
+  },
+}));
+
+jest.mock('expo-media-library', () => ({
+  requestPermissionsAsync: jest.fn(),
+  saveToLibraryAsync: jest.fn(),
+}));
+
+// Loaded through lib/imagePixels, whose native image code is not used here
+jest.mock('expo-image-manipulator', () => ({}));
+
+// The real client needs the Supabase URL and key at import time
+jest.mock('@/lib/supabase', () => ({
+  storage: { uploadExport: jest.fn() },
+}));
+
+const storageAccess = jest.mocked(FileSystem.StorageAccessFramework);
+const writeFile = jest.mocked(FileSystem.writeAsStringAsync);
+const mediaLibrary = jest.mocked(MediaLibrary);
+const uploadExport = jest.mocked(storage.uploadExport);
+
+const pdf: ExportFile = { fileName: 'lease.pdf', mimeType: 'application/pdf', data: new Uint8Array([37, 80, 68, 70]) };
+const png: ExportFile = { fileName: 'page.png', mimeType: 'image/png', data: new Uint8Array([137, 80, 78, 71]) };
+
+const setPlatform = (os: typeof Platform.OS) => {
+  (Platform as { OS: string }).OS = os;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  setPlatform('android');
+  mediaLibrary.requestPermissionsAsync.mockResolvedValue({ status: 'granted' } as MediaLibrary.PermissionResponse);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('filesTarget on Android', () => {
+  it('saves documents through the storage access framework, not the media library', async () => {
+    storageAccess.requestDirectoryPermissionsAsync.mockResolvedValue({ granted: true, directoryUri: 'content://tree/Documents' });
+    storageAccess.createFileAsync.mockResolvedValue('content://tree/Documents/lease.pdf');
+
+    const outcome = await filesTarget.deliver(pdf);
+
+    // The framework adds the extension for the MIME type itself
+    expect(storageAccess.createFileAsync).toHaveBeenCalledWith('content://tree/Documents', 'lease', 'application/pdf');
+    expect(writeFile).toHaveBeenCalledWith('content://tree/Documents/lease.pdf', 'JVBERg==', { encoding: 'base64' });
+    expect(mediaLibrary.saveToLibraryAsync).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ location: 'content://tree/Documents/lease.pdf', completed: true });
+  });
+
+  it('cancels when the user declines the folder picker', async () => {
+    storageAccess.requestDirectoryPermissionsAsync.mockResolvedValue({ granted: false });
+
+    const outcome = await filesTarget.deliver(pdf);
+
+    expect(writeFile).not.toHaveBeenCalled();
+    expect(outcome.completed).toBe(false);
+  });
+
+  it('adds pictures to the media library', async () => {
+    const outcome = await filesTarget.deliver(png);
+
+    expect(writeFile).toHaveBeenCalledWith('file:///documents/page.png', 'iVBORw==', { encoding: 'base64' });
+    expect(mediaLibrary.saveToLibraryAsync).toHaveBeenCalledWith('file:///documents/page.png');
+    expect(outcome).toEqual({ location: 'file:///documents/page.png', completed: true });
+  });
+
+  it('keeps a saved picture when the media library fails', async () => {
+    mediaLibrary.saveToLibraryAsync.mockRejectedValue(new Error('Could not save'));
+
+    const outcome = await filesTarget.deliver(png);
+
+    expect(outcome).toEqual({ location: 'file:///documents/page.png', completed: true });
+  });
+});
+
+describe('shareTarget', () => {
+  it('refuses on Android, whose share sheet drops file URLs', async () => {
+    await expect(shareTarget.deliver(pdf)).rejects.toThrow('not available on Android');
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('createStorageUploadTarget', () => {
+  it('uploads to the user\'s folder and reports the stored path', async () => {
+    uploadExport.mockResolvedValue({
+      data: { id: 'object-1', path: 'user-a/1718000000000-lease.pdf', fullPath: 'document-exports/user-a/1718000000000-lease.pdf' },
+      error: null,
+    });
+
+    const outcome = await createStorageUploadTarget('user-a').deliver(pdf);
+
+    expect(uploadExport).toHaveBeenCalledWith('user-a', pdf);
+    expect(outcome).toEqual({ location: 'user-a/1718000000000-lease.pdf', completed: true });
+  });
+
+  it('fails with the storage error', async () => {
+    uploadExport.mockResolvedValue({ data: null, error: { message: 'Bucket not found' } });
+
+    await expect(createStorageUploadTarget('user-a').deliver(pdf)).rejects.toThrow('Bucket not found');
+  });
+});
+
+describe('getDefaultDeliveryTarget', () => {
+  it('picks a target per platform and file type', () => {
+    setPlatform('android');
+    expect(getDefaultDeliveryTarget('application/pdf')).toBe(filesTarget);
+    expect(getDefaultDeliveryTarget('image/jpeg')).toBe(filesTarget);
+
+    setPlatform('ios');
+    expect(getDefaultDeliveryTarget('application/pdf')).toBe(shareTarget);
+    expect(getDefaultDeliveryTarget('image/jpeg')).toBe(filesTarget);
+
+    setPlatform('web');
+    expect(getDefaultDeliveryTarget('application/pdf')).toBe(downloadTarget);
+  });
+});
@@ -0,0 +1,98 @@
+import { RGBAImage, binarize, enhanceContrast, removeGlare, removeShadows } from '@/lib/imageFilters';
+
+const SIZE = 128;
+
+// Paper, whose brightness may vary across the page, with a few dark lines of
+// "text"
+const page = (paperAt: (x: number) => number, ink = 30): RGBAImage => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    const isText = y % 16 >= 6 && y % 16 < 9;
+    for (let x = 0; x < SIZE; x++) {
+      const value = isText && x >= 10 && x < SIZE - 10 ? ink : paperAt(x);
+      data.set([value, value, value, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { width: SIZE, height: SIZE, data };
+};
+
+// Light falling off from left to right, as next to a window
+const shadowed = (x: number) => Math.round(230 - (x / SIZE) * 110);
+
+// Whitens a round spot, except where there is text
+const addHighlight = (image: RGBAImage, cx: number, cy: number, radius: number) => {
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const p = (y * SIZE + x) * 4;
+      if ((x - cx) ** 2 + (y - cy) ** 2 <= radius ** 2 && image.data[p] > 100) {
+        image.data.set([252, 252, 252], p);
+      }
+    }
+  }
+};
+
+const grayAt = (image: RGBAImage, x: number, y: number) => image.data[(y * SIZE + x) * 4];
+
+describe('binarize', () => {
+  it('keeps text black and paper white across uneven lighting', () => {
+    const result = binarize(page(shadowed));
+
+    for (const x of [20, 64, 110]) {
+      expect(grayAt(result, x, 7)).toBe(0);
+      expect(grayAt(result, x, 12)).toBe(255);
+    }
+  });
+});
+
+describe('removeShadows', () => {
+  it('evens out the paper and keeps the text dark', () => {
+    const result = removeShadows(page(shadowed));
+
+    // Over 100 levels apart before
+    const paper = [5, 40, 80, 120].map(x => grayAt(result, x, 12));
+    expect(Math.max(...paper) - Math.min(...paper)).toBeLessThanOrEqual(20);
+    expect(Math.min(...paper)).toBeGreaterThanOrEqual(230);
+    expect(grayAt(result, 110, 7)).toBeLessThan(100);
+  });
+});
+
+describe('enhanceContrast', () => {
+  it('stretches a faded page to black and white', () => {
+    const result = enhanceContrast(page(() => 160, 90));
+
+    expect(grayAt(result, 5, 5)).toBeGreaterThanOrEqual(250);
+    expect(grayAt(result, 64, 7)).toBeLessThanOrEqual(5);
+  });
+});
+
+describe('removeGlare', () => {
+  it('fills a highlight on blank paper with the paper around it', () => {
+    const image = page(() => 190, 190);
+    addHighlight(image, 64, 60, 6);
+
+    const result = removeGlare(image);
+
+    expect(Math.abs(grayAt(result, 64, 60) - 190)).toBeLessThanOrEqual(10);
+    expect(grayAt(result, 5, 5)).toBe(190);
+  });
+
+  it('fills a highlight over text with paper and keeps the text', () => {
+    const image = page(() => 190);
+    addHighlight(image, 64, 64, 12);
+
+    const result = removeGlare(image);
+
+    // Paper inside the spot is back near the paper's brightness
+    expect(Math.abs(grayAt(result, 64, 64) - 190)).toBeLessThanOrEqual(10);
+    expect(Math.abs(grayAt(result, 58, 60) - 190)).toBeLessThanOrEqual(10);
+    // The text line crossing the spot, and paper far from it, are unchanged
+    expect(grayAt(result, 64, 71)).toBe(30);
+    expect(grayAt(result, 5, 5)).toBe(190);
+  });
+
+  it('leaves paper that is only a little brighter than the rest alone', () => {
+    // Brighter in the middle, as under a lamp, but nowhere near glare
+    const image = page(x => (x >= 56 && x < 72 ? 248 : 236));
+    expect(removeGlare(image).data).toEqual(image.data);
+  });
+});
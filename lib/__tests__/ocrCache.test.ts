@@ -0,0 +1,36 @@
+import { OCRResultCache, getOCRCacheKey } from '@/lib/ocrCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('getOCRCacheKey', () => {
+  it('tells providers and engines apart', () => {
+    const keys = new Set([
+      getOCRCacheKey('hash', ['en'], 'cloud', 'llm'),
+      getOCRCacheKey('hash', ['en'], 'cloud', 'tesseract'),
+      getOCRCacheKey('hash', ['en'], 'on-device', 'tesseract'),
+    ]);
+    expect(keys.size).toBe(3);
+  });
+});
+
+describe('OCRResultCache', () => {
+  it('stops serving results once the server switches provider', async () => {
+    const cache = new OCRResultCache();
+    await cache.setProvider('cloud', 'llm');
+    await cache.set(getOCRCacheKey('hash', [], 'cloud', 'llm'), { text: 'Old', provider: 'llm' });
+
+    await cache.setProvider('cloud', 'tesseract');
+
+    const provider = await cache.getProvider('cloud');
+    expect(provider).toBe('tesseract');
+    expect(await cache.get(getOCRCacheKey('hash', [], 'cloud', provider!))).toBeNull();
+  });
+
+  it('remembers the last provider across app launches', async () => {
+    await new OCRResultCache().setProvider('cloud', 'llm');
+
+    expect(await new OCRResultCache().getProvider('cloud')).toBe('llm');
+  });
+});
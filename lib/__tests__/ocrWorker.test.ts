@@ -0,0 +1,244 @@
+import React from 'react';
+import { act, create } from 'react-test-renderer';
+import { TRPCClientError } from '@trpc/client';
+import { OCRWorkerManager, OCRResult, OCR_PRIORITY, useOCRWorker } from '@/lib/ocrWorker';
+import { OCREngineRequest, OCREngineResponse, defaultOCREngine } from '@/lib/ocrEngines';
+import { imageUriToBase64 } from '@/lib/ocrClient';
+
+// The real client needs the API base URL at import time
+jest.mock('@/lib/ocrClient', () => ({
+  imageUriToBase64: jest.fn(),
+  extractTextRemote: jest.fn(),
+}));
+
+// The hook drives the shared manager, which runs the default engine
+jest.mock('@/lib/ocrEngines', () => ({
+  ...jest.requireActual('@/lib/ocrEngines'),
+  defaultOCREngine: jest.fn(),
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+interface PendingRequest {
+  request: OCREngineRequest;
+  resolve: (response: OCREngineResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+// An engine whose requests finish only when the test says so
+const createFakeEngine = () => {
+  const pending: PendingRequest[] = [];
+  const engine = jest.fn((request: OCREngineRequest) =>
+    new Promise<OCREngineResponse>((resolve, reject) => {
+      pending.push({ request, resolve, reject });
+    })
+  );
+  const find = (imageUri: string) => {
+    const entry = pending.find(candidate => candidate.request.imageUri === imageUri);
+    if (!entry) throw new Error(`No request for ${imageUri}`);
+    return entry;
+  };
+  return {
+    engine,
+    started: () => engine.mock.calls.map(([request]) => request.imageUri),
+    signalOf: (imageUri: string) => find(imageUri).request.signal,
+    finish: async (imageUri: string) => {
+      find(imageUri).resolve({ text: `Text of ${imageUri}`, engine: 'cloud', provider: 'fake' });
+      await flush();
+    },
+    fail: async (imageUri: string, error: unknown) => {
+      const entry = find(imageUri);
+      pending.splice(pending.indexOf(entry), 1);
+      entry.reject(error);
+      await flush();
+    },
+  };
+};
+
+// Lets settled promises run their callbacks, then a retry's zero-length backoff
+const flush = async () => {
+  for (let turn = 0; turn < 2; turn++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+const createManager = (engine: ReturnType<typeof createFakeEngine>['engine'], concurrency = 1) => {
+  const manager = new OCRWorkerManager({
+    engine,
+    cache: null,
+    concurrency,
+    retry: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 },
+  });
+  const results = new Map<string, OCRResult>();
+  manager.subscribeAll(event => {
+    if (event.type === 'result') results.set(event.taskId, event.result);
+  });
+  return { manager, results };
+};
+
+const page = (id: string, priority?: number) => ({ id, imageUri: id, languages: [], priority });
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('OCRWorkerManager', () => {
+  it('starts the next task as soon as any slot frees up', async () => {
+    const fake = createFakeEngine();
+    const { manager, results } = createManager(fake.engine, 2);
+    ['a', 'b', 'c'].forEach(id => manager.addTask(page(id)));
+
+    expect(fake.started()).toEqual(['a', 'b']);
+    expect(manager.getQueueStatus()).toEqual({ queueLength: 1, activeTasks: 2, concurrency: 2 });
+
+    // "a" stays slow; "b" finishing is enough for "c" to start
+    await fake.finish('b');
+    expect(fake.started()).toEqual(['a', 'b', 'c']);
+    expect(results.get('b')).toMatchObject({ text: 'Text of b', engine: 'cloud', provider: 'fake' });
+    expect(manager.getTaskStatus('a')).toBe('running');
+  });
+
+  it('runs queued tasks by priority, then in submission order', async () => {
+    const fake = createFakeEngine();
+    const { manager } = createManager(fake.engine);
+    manager.addTask(page('first'));
+    manager.addTask(page('background', OCR_PRIORITY.background));
+    manager.addTask(page('normal'));
+    manager.addTask(page('later'));
+    manager.addTask(page('visible', OCR_PRIORITY.visible));
+
+    // The user opened this page while it waited. It keeps its place in
+    // submission order, so it now runs before "visible".
+    manager.setTaskPriority('later', OCR_PRIORITY.visible);
+
+    for (const id of ['first', 'later', 'visible', 'normal']) {
+      await fake.finish(id);
+    }
+    expect(fake.started()).toEqual(['first', 'later', 'visible', 'normal', 'background']);
+  });
+
+  it('aborts a running task when it is cancelled and moves on', async () => {
+    const fake = createFakeEngine();
+    const { manager, results } = createManager(fake.engine);
+    manager.addTask(page('a'));
+    manager.addTask(page('b'));
+
+    manager.cancelTask('a');
+    expect(fake.signalOf('a').aborted).toBe(true);
+    await fake.fail('a', new Error('Aborted'));
+
+    expect(manager.getTaskStatus('a')).toBe('cancelled');
+    expect(results.has('a')).toBe(false);
+    expect(fake.started()).toEqual(['a', 'b']);
+  });
+
+  it('retries requests that never reached the server', async () => {
+    const fake = createFakeEngine();
+    const { manager, results } = createManager(fake.engine);
+    const statuses: string[] = [];
+    manager.subscribe('a', event => {
+      if (event.type === 'status') statuses.push(event.status);
+    });
+    manager.addTask(page('a'));
+
+    await fake.fail('a', new TypeError('Network request failed'));
+    expect(fake.started()).toEqual(['a', 'a']);
+
+    await fake.finish('a');
+    expect(statuses).toEqual(['queued', 'running', 'retrying', 'running', 'done']);
+    expect(results.get('a')?.text).toBe('Text of a');
+  });
+
+  it('stops retrying after the configured number of attempts', async () => {
+    const fake = createFakeEngine();
+    const { manager, results } = createManager(fake.engine);
+    manager.addTask(page('a'));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await fake.fail('a', new TypeError('Network request failed'));
+    }
+
+    expect(fake.engine).toHaveBeenCalledTimes(3);
+    expect(manager.getTaskStatus('a')).toBe('failed');
+    expect(results.get('a')?.error).toBe('Network request failed');
+  });
+
+  it('does not retry errors the server answered with', async () => {
+    const fake = createFakeEngine();
+    const { manager, results } = createManager(fake.engine);
+    manager.addTask(page('a'));
+
+    // The server has already retried this one against the provider
+    await fake.fail('a', TRPCClientError.from({
+      error: {
+        code: -32603,
+        message: 'The OCR provider is unavailable',
+        data: { code: 'SERVICE_UNAVAILABLE', httpStatus: 503 },
+      },
+    }));
+
+    expect(fake.engine).toHaveBeenCalledTimes(1);
+    expect(manager.getTaskStatus('a')).toBe('failed');
+    expect(results.get('a')?.error).toBe('The OCR provider is unavailable');
+  });
+});
+
+describe('useOCRWorker', () => {
+  const renderWorkerHook = () => {
+    const hook: { current?: ReturnType<typeof useOCRWorker> } = {};
+    const Probe = () => {
+      hook.current = useOCRWorker();
+      return null;
+    };
+    act(() => {
+      create(React.createElement(Probe));
+    });
+    return hook;
+  };
+
+  // Distinct content per page, so a result cached by one test can't answer another
+  beforeEach(() => {
+    jest.mocked(imageUriToBase64).mockImplementation(async imageUri => btoa(imageUri));
+  });
+
+  it('stops processing once the last task is done', async () => {
+    const fake = createFakeEngine();
+    jest.mocked(defaultOCREngine).mockImplementation(fake.engine);
+    const hook = renderWorkerHook();
+
+    await act(async () => {
+      hook.current!.submitTask(page('done-page'));
+      await flush();
+    });
+    expect(hook.current!.isProcessing).toBe(true);
+    expect(hook.current!.queueStatus.activeTasks).toBe(1);
+
+    await act(() => fake.finish('done-page'));
+    expect(hook.current!.getTaskStatus('done-page')).toBe('done');
+    expect(hook.current!.isProcessing).toBe(false);
+  });
+
+  it('stops processing once a cancelled task has let go of its slot', async () => {
+    const fake = createFakeEngine();
+    jest.mocked(defaultOCREngine).mockImplementation(fake.engine);
+    const hook = renderWorkerHook();
+
+    await act(async () => {
+      hook.current!.submitTask(page('cancelled-page'));
+      await flush();
+    });
+    act(() => hook.current!.cancelTask('cancelled-page'));
+    await act(() => fake.fail('cancelled-page', new Error('Aborted')));
+
+    expect(hook.current!.getTaskStatus('cancelled-page')).toBe('cancelled');
+    expect(hook.current!.isProcessing).toBe(false);
+  });
+});
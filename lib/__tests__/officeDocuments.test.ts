@@ -0,0 +1,178 @@
+import { createDocx } from '@/lib/docxWriter';
+import { createOdt } from '@/lib/odtWriter';
+import { StyledDocumentContent } from '@/lib/documentContent';
+import { crc32 } from '@/lib/zipWriter';
+
+const decoder = new TextDecoder();
+
+interface ZipFile {
+  path: string;
+  data: Uint8Array;
+  // Position of the local header, in archive order
+  offset: number;
+}
+
+// Reads an archive from its central directory and checks every local header
+// against it, as unzip does
+const readZip = (zip: Uint8Array): ZipFile[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const files: ZipFile[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    const localNameLength = view.getUint16(offset + 26, true);
+    const localExtraLength = view.getUint16(offset + 28, true);
+    const dataStart = offset + 30 + localNameLength + localExtraLength;
+    const data = zip.subarray(dataStart, dataStart + size);
+
+    expect(method).toBe(0);
+    expect(crc32(data)).toBe(crc);
+    files.push({ path, data, offset });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+// Checks that XML is well formed and every namespace prefix is declared.
+// Returns the root element's name.
+const checkXML = (xml: string): string => {
+  const declared = new Set(['xml', ...Array.from(xml.matchAll(/xmlns:([\w-]+)=/g), match => match[1])]);
+  const checkName = (name: string) => {
+    const prefix = name.includes(':') ? name.split(':')[0] : null;
+    if (prefix && prefix !== 'xmlns' && !declared.has(prefix)) {
+      throw new Error(`Undeclared namespace prefix in ${name}`);
+    }
+  };
+  const checkText = (text: string) => {
+    if (/[<>]|&(?!(amp|lt|gt|quot|apos|#\d+|#x[\da-fA-F]+);)/.test(text)) {
+      throw new Error(`Unescaped character in ${JSON.stringify(text)}`);
+    }
+  };
+
+  const stack: string[] = [];
+  let root = '';
+  const token = /<\?[^]*?\?>|<!--[^]*?-->|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+="[^"]*")*)\s*(\/?)>|([^<]+)|(<)/g;
+  for (const match of xml.matchAll(token)) {
+    const [, closing, name, attributes, selfClosing, text, stray] = match;
+    if (stray) throw new Error(`Malformed tag at ${match.index}: ${xml.slice(match.index, match.index! + 40)}`);
+    if (text !== undefined) {
+      if (stack.length === 0 && text.trim()) throw new Error('Text outside the root element');
+      checkText(text);
+      continue;
+    }
+    if (!name) continue;
+
+    checkName(name);
+    if (closing) {
+      const open = stack.pop();
+      if (open !== name) throw new Error(`</${name}> closes <${open}>`);
+      continue;
+    }
+    const attributeNames = Array.from(attributes.matchAll(/([\w:.-]+)="([^"]*)"/g), ([, attribute, value]) => {
+      checkName(attribute);
+      checkText(value);
+      return attribute;
+    });
+    if (new Set(attributeNames).size !== attributeNames.length) throw new Error(`Repeated attribute on <${name}>`);
+    if (stack.length === 0) {
+      if (root) throw new Error('More than one root element');
+      root = name;
+    }
+    if (!selfClosing) stack.push(name);
+  }
+  if (stack.length > 0) throw new Error(`<${stack.pop()}> is never closed`);
+  return root;
+};
+
+const text = (files: ZipFile[], path: string): string => {
+  const file = files.find(entry => entry.path === path);
+  if (!file) throw new Error(`${path} is missing`);
+  return decoder.decode(file.data);
+};
+
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+const content: StyledDocumentContent = {
+  title: 'Lease <draft> & notes',
+  runs: [
+    { text: 'Tenant: ', bold: true, align: 'center' },
+    { text: 'A & B "Holdings" <Ltd>\n' },
+    { text: 'Second paragraph', italic: true, underline: true, fontSize: 14, color: '#336699' },
+  ],
+  signatures: [{ data: png, format: 'png', width: 120, height: 60 }],
+  pageImages: [{ data: jpeg, format: 'jpeg', width: 2000, height: 2800 }],
+};
+
+describe('createDocx', () => {
+  const files = readZip(createDocx(content));
+
+  it('writes well-formed XML parts', () => {
+    const roots = Object.fromEntries(
+      files.filter(file => file.path.endsWith('.xml') || file.path.endsWith('.rels'))
+        .map(file => [file.path, checkXML(decoder.decode(file.data))])
+    );
+    expect(roots).toMatchObject({
+      '[Content_Types].xml': 'Types',
+      '_rels/.rels': 'Relationships',
+      'word/document.xml': 'w:document',
+      'word/_rels/document.xml.rels': 'Relationships',
+      'word/styles.xml': 'w:styles',
+    });
+  });
+
+  it('relates every embedded picture to a file in the package', () => {
+    const relationships = text(files, 'word/_rels/document.xml.rels');
+    const documentXML = text(files, 'word/document.xml');
+    const embedded = Array.from(documentXML.matchAll(/r:embed="([^"]+)"/g), match => match[1]);
+
+    expect(embedded).toHaveLength(2);
+    for (const id of embedded) {
+      const target = relationships.match(new RegExp(`Id="${id}"[^>]*Target="([^"]+)"`))![1];
+      expect(files.some(file => file.path === `word/${target}`)).toBe(true);
+    }
+    expect(documentXML).toContain('A &amp; B &quot;Holdings&quot; &lt;Ltd&gt;');
+  });
+});
+
+describe('createOdt', () => {
+  const files = readZip(createOdt(content));
+
+  it('stores the mimetype first, as ODF requires', () => {
+    expect(files[0].path).toBe('mimetype');
+    expect(files[0].offset).toBe(0);
+    expect(decoder.decode(files[0].data)).toBe('application/vnd.oasis.opendocument.text');
+  });
+
+  it('writes well-formed XML parts', () => {
+    expect(checkXML(text(files, 'content.xml'))).toBe('office:document-content');
+    expect(checkXML(text(files, 'styles.xml'))).toBe('office:document-styles');
+    expect(checkXML(text(files, 'meta.xml'))).toBe('office:document-meta');
+    expect(checkXML(text(files, 'META-INF/manifest.xml'))).toBe('manifest:manifest');
+  });
+
+  it('lists every file in the manifest and links every picture', () => {
+    const manifest = text(files, 'META-INF/manifest.xml');
+    for (const file of files.filter(entry => entry.path !== 'mimetype' && entry.path !== 'META-INF/manifest.xml')) {
+      expect(manifest).toContain(`manifest:full-path="${file.path}"`);
+    }
+    const pictures = Array.from(text(files, 'content.xml').matchAll(/xlink:href="([^"]+)"/g), match => match[1]);
+    expect(pictures).toHaveLength(2);
+    expect(pictures.every(path => files.some(file => file.path === path))).toBe(true);
+  });
+});
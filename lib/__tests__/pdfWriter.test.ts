@@ -0,0 +1,148 @@
+import { PDFWriter, createPDFImage } from '@/lib/pdfWriter';
+
+const latin1 = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+interface ParsedPDF {
+  text: string;
+  // Object number to its body, between "obj" and "endobj"
+  objects: Map<number, string>;
+  trailer: string;
+}
+
+// Reads a PDF the way a viewer does: from startxref to the table, then each
+// object at the offset the table gives
+const parsePDF = (bytes: Uint8Array): ParsedPDF => {
+  const text = latin1(bytes);
+  const startxref = text.match(/startxref\n(\d+)\n%%EOF\n$/);
+  if (!startxref) throw new Error('No startxref at the end of the file');
+
+  const xref = text.slice(Number(startxref[1]));
+  const header = xref.match(/^xref\n0 (\d+)\n/);
+  if (!header) throw new Error('No cross-reference table at startxref');
+
+  const count = Number(header[1]);
+  const objects = new Map<number, string>();
+  for (let i = 0; i < count; i++) {
+    // Entries are exactly 20 bytes
+    const entry = xref.slice(header[0].length + i * 20, header[0].length + (i + 1) * 20);
+    const match = entry.match(/^(\d{10}) (\d{5}) ([fn]) \n$/);
+    if (!match) throw new Error(`Bad cross-reference entry ${i}: ${JSON.stringify(entry)}`);
+    if (match[3] === 'f') continue;
+
+    const offset = Number(match[1]);
+    const prefix = `${i} 0 obj\n`;
+    if (text.slice(offset, offset + prefix.length) !== prefix) {
+      throw new Error(`Object ${i} is not at offset ${offset}`);
+    }
+    const end = text.indexOf('\nendobj\n', offset);
+    objects.set(i, text.slice(offset + prefix.length, end));
+  }
+
+  const trailer = xref.slice(xref.indexOf('trailer\n') + 'trailer\n'.length, xref.indexOf('\nstartxref'));
+  return { text, objects, trailer };
+};
+
+const ref = (dictionary: string, key: string): number => {
+  const match = dictionary.match(new RegExp(`/${key} (\\d+) 0 R`));
+  if (!match) throw new Error(`No /${key} reference in ${dictionary}`);
+  return Number(match[1]);
+};
+
+// The bytes between "stream" and "endstream", checked against /Length
+const streamOf = (body: string): string => {
+  const length = Number(body.match(/\/Length (\d+)/)![1]);
+  const start = body.indexOf('stream\n') + 'stream\n'.length;
+  const end = body.lastIndexOf('\nendstream');
+  expect(end - start).toBe(length);
+  return body.slice(start, end);
+};
+
+// A JPEG with just a frame header, enough for the writer to read its size
+const fakeJpeg = (width: number, height: number): Uint8Array => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03,
+  0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+  0xff, 0xd9,
+]);
+
+describe('PDFWriter', () => {
+  it('writes a cross-reference table that points at every object', () => {
+    const writer = new PDFWriter({ title: 'Scan' });
+    writer.addPage(595, 842).drawText('Page one', 72, 72, { size: 12 });
+    writer.addPage(612, 792).drawText('Page two', 72, 72, { size: 12, font: 'Helvetica-Bold' });
+
+    const pdf = parsePDF(writer.save());
+
+    expect(pdf.text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(Number(pdf.trailer.match(/\/Size (\d+)/)![1])).toBe(pdf.objects.size + 1);
+
+    const catalog = pdf.objects.get(ref(pdf.trailer, 'Root'))!;
+    expect(catalog).toContain('/Type /Catalog');
+    const pageTree = pdf.objects.get(ref(catalog, 'Pages'))!;
+    expect(pageTree).toContain('/Count 2');
+
+    const kids = Array.from(pageTree.matchAll(/(\d+) 0 R/g), match => Number(match[1]));
+    const pages = kids.map(id => pdf.objects.get(id)!);
+    expect(pages[0]).toContain('/MediaBox [0 0 595 842]');
+    expect(pages[1]).toContain('/MediaBox [0 0 612 792]');
+    for (const page of pages) {
+      expect(page).toContain('/Type /Page');
+      expect(streamOf(pdf.objects.get(ref(page, 'Contents'))!)).toContain('Tj');
+    }
+    expect(pdf.objects.get(ref(pdf.trailer, 'Info'))).toContain('/Title');
+  });
+
+  it('embeds each JPEG once with its size and length', () => {
+    const jpeg = fakeJpeg(640, 480);
+    const image = createPDFImage(jpeg);
+    const writer = new PDFWriter();
+    writer.addPage(595, 842).drawImage(image, { x: 0, y: 0, width: 595, height: 842 });
+    writer.addPage(595, 842).drawImage(image, { x: 0, y: 0, width: 595, height: 842 });
+
+    const pdf = parsePDF(writer.save());
+    const images = Array.from(pdf.objects.values()).filter(body => body.includes('/Subtype /Image'));
+
+    expect(images).toHaveLength(1);
+    expect(images[0]).toContain('/Width 640 /Height 480');
+    expect(images[0]).toContain('/Filter /DCTDecode');
+    expect(streamOf(images[0])).toBe(latin1(jpeg));
+  });
+
+  it('keeps the invisible text layer from hiding text drawn after it', () => {
+    const writer = new PDFWriter();
+    const page = writer.addPage(595, 842);
+    page.drawText('Before', 72, 72, { size: 12 });
+    page.drawInvisibleText('Searchable words', { x: 72, y: 100, width: 200, height: 14 });
+    page.drawText('After', 72, 140, { size: 12 });
+
+    const pdf = parsePDF(writer.save());
+    const pageBody = Array.from(pdf.objects.values()).find(body => body.includes('/Type /Page '))!;
+    const content = streamOf(pdf.objects.get(ref(pageBody, 'Contents'))!);
+
+    // Follow the render mode and scaling through q/Q as a viewer would
+    const stack: { mode: number; scale: number }[] = [];
+    let state = { mode: 0, scale: 100 };
+    let font = '';
+    const visible: string[] = [];
+    for (const line of content.split('\n')) {
+      if (line === 'q') stack.push({ ...state });
+      else if (line === 'Q') state = stack.pop()!;
+      else if (line.endsWith(' Tr')) state.mode = Number(line.split(' ')[0]);
+      else if (line.endsWith(' Tz')) state.scale = Number(line.split(' ')[0]);
+      else if (line.endsWith(' Tf')) font = line.split(' ')[0];
+      else if (line.endsWith(' Tj') && font !== '/F-TextLayer') {
+        expect(state).toEqual({ mode: 0, scale: 100 });
+        visible.push(line);
+      }
+    }
+
+    expect(stack).toHaveLength(0);
+    expect(visible).toHaveLength(2);
+    expect(content).toContain('3 Tr');
+  });
+
+  it('refuses to save a document without pages', () => {
+    expect(() => new PDFWriter().save()).toThrow('at least one page');
+  });
+});
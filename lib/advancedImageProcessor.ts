@@ -1,5 +1,20 @@
 import * as ImageManipulator from 'expo-image-manipulator';
 import * as FileSystem from 'expo-file-system';
+import { loadImagePixels, saveImagePixels } from '@/lib/imagePixels';
+import * as ImageFilters from '@/lib/imageFilters';
+import { dewarpPage, detectSpine, SpineEstimate } from '@/lib/bookScan';
+import { detectOrientation, estimateSkewAngle, rotateImage, rotateQuarterTurns } from '@/lib/deskew';
+import { detectDocumentQuad, EdgeMap, findDocumentEdges, Point } from '@/lib/borderDetection';
+import { getRectifiedSize, warpPerspective } from '@/lib/perspective';
+import { analyzeImageQuality, QualityIssue, QualityReport } from '@/lib/imageQuality';
+import {
+  DEFAULT_PRESET_ID,
+  PRESET_STEP_INFO,
+  getBuiltInPreset,
+  PresetStep,
+  PresetStepType,
+  ProcessingPreset,
+} from '@/lib/processingPresets';
 
 export interface DocumentBounds {
   topLeft: { x: number; y: number };
@@ -18,25 +33,37 @@ export interface ProcessingResult {
   appliedEnhancements: string[];
   documentBounds?: DocumentBounds;
   processingTimeMs: number;
+  // Set when processing failed and the original image was returned instead
+  error?: string;
 }
 
 export interface ProcessingOptions {
   enableBorderDetection?: boolean;
   enablePerspectiveCorrection?: boolean;
+  // Off by default: only worth it for photos taken with a flash or of glossy paper
   enableGlareRemoval?: boolean;
   enableShadowRemoval?: boolean;
   enableContrastEnhancement?: boolean;
   enableSharpening?: boolean;
+  // Straighten text lines tilted by up to 15°
+  enableDeskew?: boolean;
+  // Turn sideways or upside-down pages upright
+  enableOrientationDetection?: boolean;
+  // Adaptive thresholding to pure black and white, for text-only documents
+  enableBinarization?: boolean;
   quality?: number;
 }
 
 const DEFAULT_PROCESSING_OPTIONS: Required<ProcessingOptions> = {
   enableBorderDetection: true,
   enablePerspectiveCorrection: true,
-  enableGlareRemoval: true,
+  enableGlareRemoval: false,
   enableShadowRemoval: true,
   enableContrastEnhancement: true,
   enableSharpening: true,
+  enableDeskew: true,
+  enableOrientationDetection: true,
+  enableBinarization: false,
   quality: 0.9,
 };
 
@@ -56,9 +83,27 @@ const getFileSizeKB = async (uri: string): Promise<number> => {
   }
 };
 
+/** Thrown when processing is aborted through its signal */
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Image processing was cancelled');
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ProcessingCancelledError();
+  }
+};
+
+// Longer side of the copy that border detection runs on. Edges are found on
+// the small image and the corners scaled back up.
+const BORDER_DETECTION_MAX_DIMENSION = 320;
+
 /**
- * Detect document borders using edge detection algorithms
- * This is a simplified implementation - in production, you'd use OpenCV or similar
+ * Detect document borders by finding the largest convex quad outlined by edges
+ * in a downscaled copy of the image. Returns null when no outline is found.
  */
 export const detectDocumentBorders = async (
   imageUri: string
@@ -66,41 +111,34 @@ export const detectDocumentBorders = async (
   console.log('🔍 Detecting document borders...');
   
   try {
-    // Get image dimensions first
-    const imageInfo = await ImageManipulator.manipulateAsync(
+    const { image, originalWidth, originalHeight } = await loadImagePixels(
       imageUri,
-      [],
-      { format: ImageManipulator.SaveFormat.JPEG }
+      BORDER_DETECTION_MAX_DIMENSION
     );
     
-    const { width, height } = imageInfo;
+    const quad = detectDocumentQuad(image);
+    if (!quad) {
+      console.log('⚠️ No document borders found');
+      return null;
+    }
     
-    // Simplified border detection - assumes document takes up most of the image
-    // In a real implementation, this would use computer vision algorithms
-    const margin = 0.05; // 5% margin from edges
-    const confidence = 0.85; // Simulated confidence score
+    // Map pixel centres of the small image back onto the original
+    const scaleX = originalWidth / image.width;
+    const scaleY = originalHeight / image.height;
+    const toOriginal = (point: Point) => ({
+      x: Math.min(originalWidth, Math.max(0, (point.x + 0.5) * scaleX)),
+      y: Math.min(originalHeight, Math.max(0, (point.y + 0.5) * scaleY)),
+    });
     
     const bounds: DocumentBounds = {
-      topLeft: { 
-        x: width * margin, 
-        y: height * margin 
-      },
-      topRight: { 
-        x: width * (1 - margin), 
-        y: height * margin 
-      },
-      bottomLeft: { 
-        x: width * margin, 
-        y: height * (1 - margin) 
-      },
-      bottomRight: { 
-        x: width * (1 - margin), 
-        y: height * (1 - margin) 
-      },
-      confidence,
+      topLeft: toOriginal(quad.topLeft),
+      topRight: toOriginal(quad.topRight),
+      bottomLeft: toOriginal(quad.bottomLeft),
+      bottomRight: toOriginal(quad.bottomRight),
+      confidence: quad.confidence,
     };
     
-    console.log(`✅ Document borders detected with ${(confidence * 100).toFixed(1)}% confidence`);
+    console.log(`✅ Document borders detected with ${(quad.confidence * 100).toFixed(1)}% confidence`);
     return bounds;
     
   } catch (error) {
@@ -109,8 +147,47 @@ export const detectDocumentBorders = async (
   }
 };
 
+export interface DocumentEdges {
+  edges: EdgeMap;
+  // Size of the image the edge map was downscaled from
+  originalWidth: number;
+  originalHeight: number;
+}
+
+/**
+ * Edge map of the image at border detection resolution, for snapping
+ * manually placed corners to the page outline
+ */
+export const detectDocumentEdges = async (imageUri: string): Promise<DocumentEdges> => {
+  const { image, originalWidth, originalHeight } = await loadImagePixels(
+    imageUri,
+    BORDER_DETECTION_MAX_DIMENSION
+  );
+  return { edges: findDocumentEdges(image), originalWidth, originalHeight };
+};
+
+// Longer side of the working copy for perspective correction and filters.
+// Keeps each decoded image to a few megapixels in JS memory.
+const PIXEL_PROCESSING_MAX_DIMENSION = 2048;
+
+// Smaller tilts are within the estimate's precision and not worth resampling
+const MIN_DESKEW_ANGLE = 0.3;
+
 /**
- * Apply perspective correction to straighten the document
+ * Decode an image, run a pixel filter over it and encode the result
+ */
+const applyPixelFilter = async (
+  imageUri: string,
+  filter: (image: ImageFilters.RGBAImage) => ImageFilters.RGBAImage
+): Promise<string> => {
+  const { image } = await loadImagePixels(imageUri, PIXEL_PROCESSING_MAX_DIMENSION);
+  const result = await saveImagePixels(filter(image), 0.9);
+  return result.uri;
+};
+
+/**
+ * Apply perspective correction to flatten the document: map the detected
+ * corners onto a rectangle with a homography and resample the page into it
  */
 export const applyPerspectiveCorrection = async (
   imageUri: string,
@@ -129,28 +206,23 @@ export const applyPerspectiveCorrection = async (
       return imageUri;
     }
     
-    // For now, we'll apply a simple rotation and crop
-    // In a real implementation, this would use perspective transformation matrices
-    const result = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [
-        // Crop to document bounds (simplified)
-        {
-          crop: {
-            originX: bounds.topLeft.x,
-            originY: bounds.topLeft.y,
-            width: bounds.topRight.x - bounds.topLeft.x,
-            height: bounds.bottomLeft.y - bounds.topLeft.y,
-          },
-        },
-      ],
-      {
-        compress: 0.9,
-        format: ImageManipulator.SaveFormat.JPEG,
-      }
-    );
+    const { image, originalWidth } = await loadImagePixels(imageUri, PIXEL_PROCESSING_MAX_DIMENSION);
+    
+    // Bounds are in original pixels; the working copy may be smaller
+    const scale = image.width / originalWidth;
+    const toWorking = (point: Point) => ({ x: point.x * scale, y: point.y * scale });
+    const quad = {
+      topLeft: toWorking(bounds.topLeft),
+      topRight: toWorking(bounds.topRight),
+      bottomRight: toWorking(bounds.bottomRight),
+      bottomLeft: toWorking(bounds.bottomLeft),
+    };
+    
+    const { width, height } = getRectifiedSize(quad);
+    const warped = warpPerspective(image, quad, width, height);
+    const result = await saveImagePixels(warped, 0.9);
     
-    console.log('✅ Perspective correction applied');
+    console.log(`✅ Perspective correction applied (${width}x${height})`);
     return result.uri;
     
   } catch (error) {
@@ -166,23 +238,9 @@ export const removeGlare = async (imageUri: string): Promise<string> => {
   console.log('✨ Removing glare and reflections...');
   
   try {
-    // Apply brightness and contrast adjustments to reduce glare
-    const result = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [],
-      {
-        compress: 0.9,
-        format: ImageManipulator.SaveFormat.JPEG,
-      }
-    );
-    
-    // In a real implementation, this would:
-    // 1. Detect bright spots (glare)
-    // 2. Apply local histogram equalization
-    // 3. Use inpainting to fill glare areas
-    
+    const result = await applyPixelFilter(imageUri, ImageFilters.removeGlare);
     console.log('✅ Glare removal applied');
-    return result.uri;
+    return result;
     
   } catch (error) {
     console.error('❌ Error removing glare:', error);
@@ -197,23 +255,9 @@ export const removeShadows = async (imageUri: string): Promise<string> => {
   console.log('🌑 Removing shadows...');
   
   try {
-    // Apply local contrast enhancement to reduce shadow effects
-    const result = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [],
-      {
-        compress: 0.9,
-        format: ImageManipulator.SaveFormat.JPEG,
-      }
-    );
-    
-    // In a real implementation, this would:
-    // 1. Detect shadow regions using color analysis
-    // 2. Apply adaptive histogram equalization
-    // 3. Enhance contrast in shadow areas
-    
+    const result = await applyPixelFilter(imageUri, ImageFilters.removeShadows);
     console.log('✅ Shadow removal applied');
-    return result.uri;
+    return result;
     
   } catch (error) {
     console.error('❌ Error removing shadows:', error);
@@ -228,23 +272,9 @@ export const enhanceContrast = async (imageUri: string): Promise<string> => {
   console.log('🔆 Enhancing contrast...');
   
   try {
-    const result = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [],
-      {
-        compress: 0.9,
-        format: ImageManipulator.SaveFormat.JPEG,
-      }
-    );
-    
-    // Note: expo-image-manipulator has limited filter support
-    // In a real implementation, this would apply:
-    // 1. Adaptive histogram equalization
-    // 2. CLAHE (Contrast Limited Adaptive Histogram Equalization)
-    // 3. Gamma correction
-    
+    const result = await applyPixelFilter(imageUri, ImageFilters.enhanceContrast);
     console.log('✅ Contrast enhancement applied');
-    return result.uri;
+    return result;
     
   } catch (error) {
     console.error('❌ Error enhancing contrast:', error);
@@ -259,23 +289,9 @@ export const applySharpeningFilter = async (imageUri: string): Promise<string> =
   console.log('🔍 Applying sharpening filter...');
   
   try {
-    const result = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [],
-      {
-        compress: 0.9,
-        format: ImageManipulator.SaveFormat.JPEG,
-      }
-    );
-    
-    // Note: expo-image-manipulator doesn't have built-in sharpening
-    // In a real implementation, this would apply:
-    // 1. Unsharp mask filter
-    // 2. High-pass filtering
-    // 3. Edge enhancement
-    
+    const result = await applyPixelFilter(imageUri, image => ImageFilters.unsharpMask(image));
     console.log('✅ Sharpening filter applied');
-    return result.uri;
+    return result;
     
   } catch (error) {
     console.error('❌ Error applying sharpening filter:', error);
@@ -284,89 +300,178 @@ export const applySharpeningFilter = async (imageUri: string): Promise<string> =
 };
 
 /**
- * Main function to process document image with all enhancements
+ * Convert the document to pure black and white with adaptive thresholding
  */
-export const processDocumentImage = async (
+export const binarizeDocument = async (imageUri: string): Promise<string> => {
+  console.log('⬛ Converting to black and white...');
+  
+  try {
+    const result = await applyPixelFilter(imageUri, image => ImageFilters.binarize(image));
+    console.log('✅ Black and white conversion applied');
+    return result;
+    
+  } catch (error) {
+    console.error('❌ Error converting to black and white:', error);
+    return imageUri;
+  }
+};
+
+// Log line for each pipeline step
+const PIPELINE_STEP_LABELS: Record<PresetStepType, string> = {
+  borders: '🔍 Border Detection',
+  perspective: '📐 Perspective Correction',
+  dewarp: '📖 Page Curl Correction',
+  deskew: '📏 Deskew',
+  orientation: '🔄 Orientation Detection',
+  glare: '✨ Glare Removal',
+  shadows: '🌑 Shadow Removal',
+  contrast: '🔆 Contrast Enhancement',
+  sharpen: '🔍 Sharpening',
+  grayscale: '🔲 Grayscale',
+  whiteboard: '🖍️ Whiteboard Cleanup',
+  binarize: '⬛ B&W Document',
+};
+
+/**
+ * Run one pixel step. Returns the enhancement to record, or null when the
+ * step found nothing to change.
+ */
+const applyPixelStep = (
+  image: ImageFilters.RGBAImage,
+  step: PresetStep
+): { image: ImageFilters.RGBAImage; enhancement: string | null } => {
+  switch (step.type) {
+    case 'dewarp': {
+      const { image: dewarped, maxShift } = dewarpPage(image);
+      if (maxShift === 0) return { image, enhancement: null };
+      return { image: dewarped, enhancement: `Page Curl Correction (${maxShift}px)` };
+    }
+    case 'deskew': {
+      const skew = estimateSkewAngle(image, { maxAngle: step.maxAngle });
+      if (Math.abs(skew) < MIN_DESKEW_ANGLE) return { image, enhancement: null };
+      return {
+        image: rotateImage(image, -skew),
+        enhancement: `Deskew (${skew > 0 ? '+' : ''}${skew.toFixed(1)}°)`,
+      };
+    }
+    case 'orientation': {
+      const orientation = detectOrientation(image);
+      if (orientation === 0) return { image, enhancement: null };
+      return {
+        image: rotateQuarterTurns(image, orientation),
+        enhancement: `Orientation (rotated ${orientation}°)`,
+      };
+    }
+    case 'glare':
+      return { image: ImageFilters.removeGlare(image), enhancement: 'Glare Removal' };
+    case 'shadows':
+      return { image: ImageFilters.removeShadows(image), enhancement: 'Shadow Removal' };
+    case 'contrast':
+      return { image: ImageFilters.enhanceContrast(image), enhancement: 'Contrast Enhancement' };
+    case 'sharpen':
+      return {
+        image: ImageFilters.unsharpMask(image, { amount: step.amount, threshold: step.threshold }),
+        enhancement: 'Sharpening',
+      };
+    case 'grayscale':
+      return { image: ImageFilters.desaturate(image), enhancement: 'Grayscale' };
+    case 'whiteboard':
+      return {
+        image: ImageFilters.enhanceWhiteboard(image, { saturation: step.saturation }),
+        enhancement: 'Whiteboard Cleanup',
+      };
+    case 'binarize':
+      return {
+        image: ImageFilters.binarize(image, { windowRadius: step.windowRadius, k: step.k }),
+        enhancement: 'B&W Document',
+      };
+    default:
+      throw new Error(`${step.type} is not a pixel step`);
+  }
+};
+
+/**
+ * Run an ordered pipeline of processing steps. Consecutive pixel steps share
+ * one decode and one encode; border detection and perspective correction work
+ * on the encoded image. A step that fails is logged and skipped. Aborting the
+ * signal throws a ProcessingCancelledError before the next step.
+ */
+export const runProcessingPipeline = async (
   imageUri: string,
-  options: ProcessingOptions = {}
+  steps: PresetStep[],
+  quality: number = DEFAULT_PROCESSING_OPTIONS.quality,
+  signal?: AbortSignal
 ): Promise<ProcessingResult> => {
   const startTime = Date.now();
-  const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
   const appliedEnhancements: string[] = [];
   
   console.log('🚀 Starting advanced document image processing...');
-  console.log('📋 Processing options:', opts);
+  console.log(`📋 Processing steps: ${steps.map(step => step.type).join(' → ')}`);
   
   try {
     const originalSizeKB = await getFileSizeKB(imageUri);
     let currentImageUri = imageUri;
     let documentBounds: DocumentBounds | undefined;
+    // Decoded pixels shared by consecutive pixel steps, with the enhancements
+    // they applied that are not yet encoded
+    const pixels: { image: ImageFilters.RGBAImage | null; enhancements: string[] } = {
+      image: null,
+      enhancements: [],
+    };
     
-    // Step 1: Border Detection
-    if (opts.enableBorderDetection) {
-      console.log('🔍 Step 1: Border Detection');
-      documentBounds = await detectDocumentBorders(currentImageUri) || undefined;
-      if (documentBounds) {
-        appliedEnhancements.push('Border Detection');
-      }
-    }
-    
-    // Step 2: Perspective Correction
-    if (opts.enablePerspectiveCorrection) {
-      console.log('📐 Step 2: Perspective Correction');
-      const correctedUri = await applyPerspectiveCorrection(currentImageUri, documentBounds);
-      if (correctedUri !== currentImageUri) {
-        currentImageUri = correctedUri;
-        appliedEnhancements.push('Perspective Correction');
-      }
-    }
-    
-    // Step 3: Glare Removal
-    if (opts.enableGlareRemoval) {
-      console.log('✨ Step 3: Glare Removal');
-      const glareRemovedUri = await removeGlare(currentImageUri);
-      if (glareRemovedUri !== currentImageUri) {
-        currentImageUri = glareRemovedUri;
-        appliedEnhancements.push('Glare Removal');
-      }
-    }
-    
-    // Step 4: Shadow Removal
-    if (opts.enableShadowRemoval) {
-      console.log('🌑 Step 4: Shadow Removal');
-      const shadowRemovedUri = await removeShadows(currentImageUri);
-      if (shadowRemovedUri !== currentImageUri) {
-        currentImageUri = shadowRemovedUri;
-        appliedEnhancements.push('Shadow Removal');
-      }
-    }
-    
-    // Step 5: Contrast Enhancement
-    if (opts.enableContrastEnhancement) {
-      console.log('🔆 Step 5: Contrast Enhancement');
-      const contrastEnhancedUri = await enhanceContrast(currentImageUri);
-      if (contrastEnhancedUri !== currentImageUri) {
-        currentImageUri = contrastEnhancedUri;
-        appliedEnhancements.push('Contrast Enhancement');
+    const flushPixels = async () => {
+      if (pixels.image && pixels.enhancements.length > 0) {
+        // Full quality here; the final optimization below compresses
+        const filtered = await saveImagePixels(pixels.image, 1);
+        currentImageUri = filtered.uri;
+        appliedEnhancements.push(...pixels.enhancements);
       }
-    }
+      pixels.image = null;
+      pixels.enhancements = [];
+    };
     
-    // Step 6: Sharpening
-    if (opts.enableSharpening) {
-      console.log('🔍 Step 6: Sharpening');
-      const sharpenedUri = await applySharpeningFilter(currentImageUri);
-      if (sharpenedUri !== currentImageUri) {
-        currentImageUri = sharpenedUri;
-        appliedEnhancements.push('Sharpening');
+    for (let i = 0; i < steps.length; i++) {
+      throwIfCancelled(signal);
+      const step = steps[i];
+      console.log(`${PIPELINE_STEP_LABELS[step.type]} (step ${i + 1}/${steps.length})`);
+      
+      try {
+        if (step.type === 'borders') {
+          await flushPixels();
+          documentBounds = await detectDocumentBorders(currentImageUri) || undefined;
+          if (documentBounds) {
+            appliedEnhancements.push('Border Detection');
+          }
+        } else if (step.type === 'perspective') {
+          await flushPixels();
+          const correctedUri = await applyPerspectiveCorrection(currentImageUri, documentBounds);
+          if (correctedUri !== currentImageUri) {
+            currentImageUri = correctedUri;
+            appliedEnhancements.push('Perspective Correction');
+          }
+        } else {
+          if (!pixels.image) {
+            pixels.image = (await loadImagePixels(currentImageUri, PIXEL_PROCESSING_MAX_DIMENSION)).image;
+          }
+          const { image, enhancement } = applyPixelStep(pixels.image, step);
+          pixels.image = image;
+          if (enhancement) {
+            pixels.enhancements.push(enhancement);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Error in ${PRESET_STEP_INFO[step.type].label} step:`, error);
       }
     }
+    throwIfCancelled(signal);
+    await flushPixels();
     
     // Final optimization
     const finalResult = await ImageManipulator.manipulateAsync(
       currentImageUri,
       [],
       {
-        compress: opts.quality,
+        compress: quality,
         format: ImageManipulator.SaveFormat.JPEG,
       }
     );
@@ -397,6 +502,9 @@ export const processDocumentImage = async (
     return result;
     
   } catch (error) {
+    if (error instanceof ProcessingCancelledError) {
+      throw error;
+    }
     console.error('❌ Error in advanced document processing:', error);
     
     // Return fallback result
@@ -409,10 +517,52 @@ export const processDocumentImage = async (
       processedSizeKB: originalSizeKB,
       appliedEnhancements: [],
       processingTimeMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
     };
   }
 };
 
+// Pipeline equivalent of a set of processing options. Orientation runs before
+// deskew, which only measures small tilts and misreads sideways text lines.
+const optionsToSteps = (opts: Required<ProcessingOptions>): PresetStep[] => {
+  const steps: PresetStep[] = [];
+  if (opts.enableBorderDetection) steps.push({ type: 'borders' });
+  if (opts.enablePerspectiveCorrection) steps.push({ type: 'perspective' });
+  if (opts.enableOrientationDetection) steps.push({ type: 'orientation' });
+  if (opts.enableDeskew) steps.push({ type: 'deskew' });
+  if (opts.enableGlareRemoval) steps.push({ type: 'glare' });
+  if (opts.enableShadowRemoval) steps.push({ type: 'shadows' });
+  if (opts.enableContrastEnhancement) steps.push({ type: 'contrast' });
+  if (opts.enableSharpening) steps.push({ type: 'sharpen' });
+  if (opts.enableBinarization) steps.push({ type: 'binarize' });
+  return steps;
+};
+
+/**
+ * Main function to process document image with all enhancements
+ */
+export const processDocumentImage = async (
+  imageUri: string,
+  options: ProcessingOptions = {},
+  signal?: AbortSignal
+): Promise<ProcessingResult> => {
+  const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+  console.log('📋 Processing options:', opts);
+  return runProcessingPipeline(imageUri, optionsToSteps(opts), opts.quality, signal);
+};
+
+/**
+ * Process an image with the steps of a preset
+ */
+export const processWithPreset = async (
+  imageUri: string,
+  preset: ProcessingPreset,
+  signal?: AbortSignal
+): Promise<ProcessingResult> => {
+  console.log(`🎛️ Processing with preset "${preset.name}"`);
+  return runProcessingPipeline(imageUri, preset.steps, preset.quality, signal);
+};
+
 /**
  * Quick document enhancement for real-time preview
  * Applies only the most essential enhancements for speed
@@ -420,15 +570,7 @@ export const processDocumentImage = async (
 export const quickDocumentEnhancement = async (
   imageUri: string
 ): Promise<ProcessingResult> => {
-  return processDocumentImage(imageUri, {
-    enableBorderDetection: true,
-    enablePerspectiveCorrection: false, // Skip for speed
-    enableGlareRemoval: false, // Skip for speed
-    enableShadowRemoval: false, // Skip for speed
-    enableContrastEnhancement: true,
-    enableSharpening: false, // Skip for speed
-    quality: 0.8,
-  });
+  return processWithPreset(imageUri, getBuiltInPreset('quick'));
 };
 
 /**
@@ -438,49 +580,219 @@ export const quickDocumentEnhancement = async (
 export const fullDocumentEnhancement = async (
   imageUri: string
 ): Promise<ProcessingResult> => {
-  return processDocumentImage(imageUri, {
-    enableBorderDetection: true,
-    enablePerspectiveCorrection: true,
-    enableGlareRemoval: true,
-    enableShadowRemoval: true,
-    enableContrastEnhancement: true,
-    enableSharpening: true,
-    quality: 0.95,
-  });
+  return processWithPreset(imageUri, getBuiltInPreset(DEFAULT_PRESET_ID));
+};
+
+export interface BookSpreadResult {
+  // One page for a single-page photo, otherwise the left page then the right
+  pages: ProcessingResult[];
+  // In pixels of the flattened spread; null when the photo was a single page
+  spine: SpineEstimate | null;
+}
+
+// The spine is found on a copy about this size; the gutter is tens of pixels
+// wide even here
+const SPINE_DETECTION_MAX_DIMENSION = 1024;
+
+// A fainter gutter is not trusted and the spread is cut down the middle
+const MIN_SPINE_CONFIDENCE = 0.25;
+
+/**
+ * Book scanning: flatten a photo of an open book, cut it at the spine into two
+ * pages and run each page through the book page preset, which straightens the
+ * curled text lines. The halves are cropped natively at full resolution.
+ * Aborting the signal throws a ProcessingCancelledError between steps.
+ */
+export const processBookSpread = async (
+  imageUri: string,
+  signal?: AbortSignal
+): Promise<BookSpreadResult> => {
+  console.log('📖 Processing book spread...');
+  const preset = getBuiltInPreset('book-page');
+  const isOutlineStep = (step: PresetStep) => step.type === 'borders' || step.type === 'perspective';
+  const pageSteps = preset.steps.filter(step => !isOutlineStep(step));
+
+  try {
+    // Crop and flatten the whole spread before cutting it in two
+    const flattened = await runProcessingPipeline(imageUri, preset.steps.filter(isOutlineStep), 1, signal);
+    const { image, originalWidth, originalHeight } = await loadImagePixels(
+      flattened.uri,
+      SPINE_DETECTION_MAX_DIMENSION
+    );
+
+    const detected = detectSpine(image);
+    if (!detected) {
+      console.log('📄 Single page photo, no spine to split at');
+      const page = await runProcessingPipeline(flattened.uri, pageSteps, preset.quality, signal);
+      return { pages: [page], spine: null };
+    }
+
+    const scale = originalWidth / image.width;
+    const spineX = detected.confidence >= MIN_SPINE_CONFIDENCE ? detected.x * scale : originalWidth / 2;
+    const spine = { x: Math.round(spineX), confidence: detected.confidence };
+    console.log(`📖 Spine at ${spine.x}px (${(spine.confidence * 100).toFixed(0)}% confidence)`);
+
+    const halves = [
+      { originX: 0, originY: 0, width: spine.x, height: originalHeight },
+      { originX: spine.x, originY: 0, width: originalWidth - spine.x, height: originalHeight },
+    ];
+    const pages: ProcessingResult[] = [];
+    for (const crop of halves) {
+      throwIfCancelled(signal);
+      const half = await ImageManipulator.manipulateAsync(
+        flattened.uri,
+        [{ crop }],
+        { compress: 1, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      pages.push(await runProcessingPipeline(half.uri, pageSteps, preset.quality, signal));
+    }
+
+    console.log('✅ Book spread split into 2 pages');
+    return { pages, spine };
+
+  } catch (error) {
+    if (error instanceof ProcessingCancelledError) {
+      throw error;
+    }
+    console.error('❌ Error processing book spread:', error);
+    return { pages: [await processWithPreset(imageUri, preset, signal)], spine: null };
+  }
 };
 
+export interface BatchProcessingOptions {
+  // How many images are processed at once
+  concurrency?: number;
+  // Aborting stops new images from starting and images underway at their next
+  // step; those are left out like the ones never started
+  signal?: AbortSignal;
+  // Called as each image finishes, in completion order
+  onProgress?: (completed: number, total: number, imageUri: string) => void;
+}
+
+export interface BatchProcessingFailure {
+  index: number;
+  imageUri: string;
+  error: string;
+}
+
+export interface BatchProcessingResult {
+  // In input order. Failed images hold a result with the original image;
+  // images the batch was cancelled before finishing are null.
+  results: (ProcessingResult | null)[];
+  failures: BatchProcessingFailure[];
+  succeeded: number;
+  cancelled: boolean;
+  totalTimeMs: number;
+}
+
+// Image decoding and filtering run on the JS thread, so more parallel images
+// mostly add memory; two keep the native resize and file work overlapped
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
 /**
- * Batch process multiple document images
+ * Batch process multiple document images with either processing options or
+ * a preset. A few images run at a time; an image that fails is recorded and
+ * the rest of the batch carries on.
  */
 export const batchProcessDocuments = async (
   imageUris: string[],
-  options?: ProcessingOptions,
-  onProgress?: (current: number, total: number, currentImage: string) => void
-): Promise<ProcessingResult[]> => {
-  console.log(`🔄 Starting batch processing of ${imageUris.length} documents...`);
+  options?: ProcessingOptions | ProcessingPreset,
+  batchOptions: BatchProcessingOptions = {}
+): Promise<BatchProcessingResult> => {
+  const { signal, onProgress } = batchOptions;
+  const concurrency = Math.max(1, Math.floor(batchOptions.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+  const total = imageUris.length;
+  console.log(`🔄 Starting batch processing of ${total} documents (${concurrency} at a time)...`);
   const startTime = Date.now();
   
-  const results: ProcessingResult[] = [];
+  const results: (ProcessingResult | null)[] = new Array(total).fill(null);
+  const failures: BatchProcessingFailure[] = [];
+  let nextIndex = 0;
+  let completed = 0;
   
-  for (let i = 0; i < imageUris.length; i++) {
-    const imageUri = imageUris[i];
-    onProgress?.(i + 1, imageUris.length, imageUri);
-    
-    console.log(`📄 Processing document ${i + 1}/${imageUris.length}`);
-    const result = await processDocumentImage(imageUri, options);
-    results.push(result);
-    
-    // Small delay between processing to prevent overwhelming the system
-    if (i < imageUris.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  const processNext = async () => {
+    while (nextIndex < total && !signal?.aborted) {
+      const index = nextIndex++;
+      const imageUri = imageUris[index];
+      console.log(`📄 Processing document ${index + 1}/${total}`);
+      
+      try {
+        const result = options && 'steps' in options
+          ? await processWithPreset(imageUri, options, signal)
+          : await processDocumentImage(imageUri, options, signal);
+        results[index] = result;
+        if (result.error) {
+          failures.push({ index, imageUri, error: result.error });
+        }
+      } catch (error) {
+        if (error instanceof ProcessingCancelledError) {
+          return;
+        }
+        // Same fallback as the pipeline: the original image stands in
+        console.error(`❌ Error processing document ${index + 1}/${total}:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        const originalSizeKB = await getFileSizeKB(imageUri);
+        results[index] = {
+          uri: imageUri,
+          width: 0,
+          height: 0,
+          originalSizeKB,
+          processedSizeKB: originalSizeKB,
+          appliedEnhancements: [],
+          processingTimeMs: 0,
+          error: message,
+        };
+        failures.push({ index, imageUri, error: message });
+      }
+      
+      completed++;
+      onProgress?.(completed, total, imageUri);
     }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, total) }, processNext));
+  
+  failures.sort((a, b) => a.index - b.index);
+  
+  const totalTimeMs = Date.now() - startTime;
+  const cancelled = completed < total;
+  const succeeded = completed - failures.length;
+  
+  if (cancelled) {
+    console.log(`⏹️ Batch processing cancelled after ${completed}/${total} documents`);
+  }
+  console.log(`✅ Batch processing finished in ${totalTimeMs}ms: ${succeeded} processed, ${failures.length} failed`);
+  if (completed > 0) {
+    console.log(`📊 Average processing time: ${Math.round(totalTimeMs / completed)}ms per document`);
   }
   
-  const totalTime = Date.now() - startTime;
-  console.log(`✅ Batch processing completed in ${totalTime}ms`);
-  console.log(`📊 Average processing time: ${Math.round(totalTime / imageUris.length)}ms per document`);
+  return { results, failures, succeeded, cancelled, totalTimeMs };
+};
+
+// Longer side of the copy that quality is measured on. The default sharpness
+// threshold is calibrated for this size.
+const QUALITY_ANALYSIS_MAX_DIMENSION = 640;
+
+// Detected bounds below this confidence are not trusted for a DPI estimate
+const MIN_BOUNDS_CONFIDENCE_FOR_DPI = 0.6;
+
+/**
+ * Measure focus, motion blur, exposure and - when the page outline is known -
+ * resolution of an image
+ */
+export const assessImageQuality = async (
+  imageUri: string,
+  bounds?: DocumentBounds | null
+): Promise<QualityReport> => {
+  const { image } = await loadImagePixels(imageUri, QUALITY_ANALYSIS_MAX_DIMENSION);
   
-  return results;
+  let pageSizePx: { long: number; short: number } | null = null;
+  if (bounds && bounds.confidence >= MIN_BOUNDS_CONFIDENCE_FOR_DPI) {
+    const { width, height } = getRectifiedSize(bounds);
+    pageSizePx = { long: Math.max(width, height), short: Math.min(width, height) };
+  }
+  
+  return analyzeImageQuality(image, { pageSizePx });
 };
 
 /**
@@ -489,12 +801,13 @@ export const batchProcessDocuments = async (
  */
 export const realtimeDocumentPreview = async (
   imageUri: string
-): Promise<{ uri: string; bounds?: DocumentBounds }> => {
+): Promise<{ uri: string; bounds?: DocumentBounds; quality?: QualityReport }> => {
   console.log('⚡ Real-time document preview processing...');
   
   try {
-    // Only do border detection for real-time preview
+    // Only do border detection and quality checks for real-time preview
     const bounds = await detectDocumentBorders(imageUri) || undefined;
+    const quality = await assessImageQuality(imageUri, bounds);
     
     // Apply minimal processing for preview
     const result = await ImageManipulator.manipulateAsync(
@@ -509,6 +822,7 @@ export const realtimeDocumentPreview = async (
     return {
       uri: result.uri,
       bounds,
+      quality,
     };
     
   } catch (error) {
@@ -517,6 +831,33 @@ export const realtimeDocumentPreview = async (
   }
 };
 
+const QUALITY_ISSUE_MESSAGES: Record<QualityIssue, { issue: string; recommendation: string }> = {
+  'blurry': {
+    issue: 'Image is out of focus',
+    recommendation: 'Tap to focus on the document and hold the camera steady',
+  },
+  'motion-blur': {
+    issue: 'Motion blur detected',
+    recommendation: 'Hold the camera still or rest your elbows on the table',
+  },
+  'underexposed': {
+    issue: 'Image is too dark',
+    recommendation: 'Move to a brighter area or turn on the flash',
+  },
+  'overexposed': {
+    issue: 'Image is too bright',
+    recommendation: 'Avoid direct light on the document and turn off the flash',
+  },
+  'low-contrast': {
+    issue: 'Low contrast',
+    recommendation: 'Place the document on a contrasting background with even lighting',
+  },
+  'low-resolution': {
+    issue: 'Document resolution too low for reliable OCR',
+    recommendation: 'Move closer so the document fills the frame',
+  },
+};
+
 /**
  * Validate if an image is suitable for document processing
  */
@@ -526,6 +867,7 @@ export const validateDocumentImage = async (
   isValid: boolean;
   issues: string[];
   recommendations: string[];
+  quality: QualityReport | null;
 }> => {
   console.log('🔍 Validating document image...');
   
@@ -569,6 +911,14 @@ export const validateDocumentImage = async (
       recommendations.push('Ensure good lighting and clear document edges');
     }
     
+    // Measure sharpness, exposure and page resolution
+    const quality = await assessImageQuality(imageUri, bounds);
+    for (const qualityIssue of quality.issues) {
+      const { issue, recommendation } = QUALITY_ISSUE_MESSAGES[qualityIssue];
+      issues.push(issue);
+      recommendations.push(recommendation);
+    }
+    
     const isValid = issues.length === 0;
     
     console.log(`📋 Image validation result: ${isValid ? 'VALID' : 'ISSUES FOUND'}`);
@@ -580,6 +930,7 @@ export const validateDocumentImage = async (
       isValid,
       issues,
       recommendations,
+      quality,
     };
     
   } catch (error) {
@@ -588,6 +939,7 @@ export const validateDocumentImage = async (
       isValid: false,
       issues: ['Failed to analyze image'],
       recommendations: ['Try taking a new photo'],
+      quality: null,
     };
   }
 };
\ No newline at end of file
@@ -0,0 +1,300 @@
+import { RGBAImage, binarize, toGrayscale } from '@/lib/imageFilters';
+
+// Where the two pages of an open book meet, in pixels from the left edge
+export interface SpineEstimate {
+  x: number;
+  // 0-1; how clearly the gutter stands out from the pages beside it
+  confidence: number;
+}
+
+export interface DewarpResult {
+  image: RGBAImage;
+  // Largest vertical correction applied, in pixels; 0 when the page was flat
+  maxShift: number;
+}
+
+// Narrower photos are a single page, not a spread
+const SPREAD_MIN_ASPECT = 1.1;
+// The spine is searched for in this central share of the width
+const SPINE_SEARCH_START = 0.35;
+const SPINE_SEARCH_END = 0.65;
+// A gutter this much darker than the pages beside it is certain
+const SPINE_FULL_CONFIDENCE_DEPTH = 40;
+
+// The page is measured in vertical strips, and each strip in horizontal bands
+// so the curl can differ between the top and bottom of the page
+const DEWARP_STRIPS = 16;
+const DEWARP_BANDS = 3;
+// Strips with less ink than this share of their area have no lines to follow
+const MIN_STRIP_INK = 0.01;
+// Correlations weaker than this are not trusted as a line match
+const MIN_PROFILE_CORRELATION = 0.3;
+// Neighbouring strips can only be this far apart, as a share of the page
+// height; keeps a shift from skipping to the next text line
+const MAX_STRIP_STEP = 0.012;
+// No correction is larger than this share of the page height
+const MAX_DEWARP_SHIFT = 0.08;
+// Smaller corrections are not worth resampling
+const MIN_DEWARP_SHIFT = 1;
+
+/**
+ * Find the spine of a two-page spread: the column where the gutter shadow is
+ * darkest. Each column is judged by its median brightness, which is the paper
+ * under any text, so dark columns of print are not mistaken for the gutter.
+ * Returns null for photos too narrow to be a spread.
+ */
+export const detectSpine = (image: RGBAImage): SpineEstimate | null => {
+  const { width, height } = image;
+  if (width < height * SPREAD_MIN_ASPECT) return null;
+
+  const gray = toGrayscale(image).data;
+  const medians = new Float32Array(width);
+  const histogram = new Uint32Array(256);
+  for (let x = 0; x < width; x++) {
+    histogram.fill(0);
+    for (let y = 0; y < height; y++) {
+      histogram[gray[y * width + x]]++;
+    }
+    let count = 0;
+    let value = 0;
+    while (value < 255 && count + histogram[value] < height / 2) {
+      count += histogram[value];
+      value++;
+    }
+    medians[x] = value;
+  }
+
+  // Smooth over about half a percent of the width so paper grain does not
+  // decide the minimum
+  const radius = Math.max(2, Math.round(width / 200));
+  const profile = new Float32Array(width);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+      sum += medians[k];
+      count++;
+    }
+    profile[x] = sum / count;
+  }
+
+  const start = Math.round(width * SPINE_SEARCH_START);
+  const end = Math.round(width * SPINE_SEARCH_END);
+  let spineX = start;
+  for (let x = start; x < end; x++) {
+    if (profile[x] < profile[spineX]) spineX = x;
+  }
+
+  let leftPaper = 0;
+  let rightPaper = 0;
+  for (let x = start; x < spineX; x++) leftPaper = Math.max(leftPaper, profile[x]);
+  for (let x = spineX + 1; x < end; x++) rightPaper = Math.max(rightPaper, profile[x]);
+  const depth = Math.min(leftPaper, rightPaper) - profile[spineX];
+
+  return {
+    x: spineX,
+    confidence: Math.max(0, Math.min(1, depth / SPINE_FULL_CONFIDENCE_DEPTH)),
+  };
+};
+
+// Zero-mean correlation of two row profiles with the second moved by offset,
+// over the rows [start, end) of the first
+const correlate = (
+  reference: Float32Array,
+  profile: Float32Array,
+  start: number,
+  end: number,
+  offset: number
+): number => {
+  const from = Math.max(start, -offset);
+  const to = Math.min(end, profile.length - offset);
+  const count = to - from;
+  if (count <= 1) return 0;
+
+  let meanA = 0;
+  let meanB = 0;
+  for (let y = from; y < to; y++) {
+    meanA += reference[y];
+    meanB += profile[y + offset];
+  }
+  meanA /= count;
+  meanB /= count;
+
+  let product = 0;
+  let squaresA = 0;
+  let squaresB = 0;
+  for (let y = from; y < to; y++) {
+    const a = reference[y] - meanA;
+    const b = profile[y + offset] - meanB;
+    product += a * b;
+    squaresA += a * a;
+    squaresB += b * b;
+  }
+  return squaresA > 0 && squaresB > 0 ? product / Math.sqrt(squaresA * squaresB) : 0;
+};
+
+// Least-squares cubic through the points, evaluated at every column. Falls
+// back to no displacement when there are too few points to fit.
+const fitCubic = (points: { x: number; y: number }[], width: number): Float32Array => {
+  const fitted = new Float32Array(width);
+  if (points.length < 4) return fitted;
+
+  // Normal equations on x scaled to 0-1 to keep them well conditioned
+  const matrix = Array.from({ length: 4 }, () => new Array<number>(5).fill(0));
+  for (const point of points) {
+    const t = point.x / width;
+    const powers = [1, t, t * t, t * t * t];
+    for (let row = 0; row < 4; row++) {
+      for (let col = 0; col < 4; col++) {
+        matrix[row][col] += powers[row] * powers[col];
+      }
+      matrix[row][4] += powers[row] * point.y;
+    }
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 4; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 4; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-9) return fitted;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let row = 0; row < 4; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 5; k++) {
+        matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+  }
+  const coefficients = matrix.map((row, i) => row[4] / row[i]);
+
+  for (let x = 0; x < width; x++) {
+    const t = x / width;
+    fitted[x] = coefficients[0] + t * (coefficients[1] + t * (coefficients[2] + t * coefficients[3]));
+  }
+  return fitted;
+};
+
+/**
+ * Straighten text lines that bow towards the spine of a book page. The rows of
+ * ink in neighbouring vertical strips are matched to find how far each line
+ * drifts up or down across the page; a smooth curve through those drifts is
+ * then undone by moving every column back into line. The top, middle and
+ * bottom of the page are measured separately and blended.
+ */
+export const dewarpPage = (image: RGBAImage): DewarpResult => {
+  const { width, height } = image;
+  const binary = binarize(image);
+  const stripWidth = Math.floor(width / DEWARP_STRIPS);
+  const bandHeight = Math.floor(height / DEWARP_BANDS);
+  if (stripWidth < 4 || bandHeight < 16) return { image, maxShift: 0 };
+
+  // Ink per row within each strip
+  const profiles = Array.from({ length: DEWARP_STRIPS }, () => new Float32Array(height));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < stripWidth * DEWARP_STRIPS; x++) {
+      if (binary.data[(y * width + x) * 4] === 0) {
+        profiles[Math.floor(x / stripWidth)][y]++;
+      }
+    }
+  }
+
+  const maxStep = Math.max(2, Math.round(height * MAX_STRIP_STEP));
+  const maxShift = height * MAX_DEWARP_SHIFT;
+  const displacements: Float32Array[] = [];
+
+  for (let band = 0; band < DEWARP_BANDS; band++) {
+    const start = band * bandHeight;
+    const end = band === DEWARP_BANDS - 1 ? height : start + bandHeight;
+    const minInk = stripWidth * (end - start) * MIN_STRIP_INK;
+    const hasInk = profiles.map(profile => {
+      let ink = 0;
+      for (let y = start; y < end; y++) ink += profile[y];
+      return ink >= minInk;
+    });
+
+    // Lines are followed outwards from the strip with the most ink
+    let reference = -1;
+    let referenceInk = 0;
+    profiles.forEach((profile, strip) => {
+      if (!hasInk[strip]) return;
+      let ink = 0;
+      for (let y = start; y < end; y++) ink += profile[y];
+      if (ink > referenceInk) {
+        referenceInk = ink;
+        reference = strip;
+      }
+    });
+
+    const points: { x: number; y: number }[] = [];
+    if (reference >= 0) {
+      points.push({ x: (reference + 0.5) * stripWidth, y: 0 });
+      for (const direction of [1, -1]) {
+        let previous = reference;
+        let drift = 0;
+        for (let strip = reference + direction; strip >= 0 && strip < DEWARP_STRIPS; strip += direction) {
+          if (!hasInk[strip]) continue;
+          // Skipped blank strips allow a proportionally larger step
+          const range = maxStep * Math.abs(strip - previous);
+          let bestOffset = 0;
+          let bestScore = -Infinity;
+          for (let offset = -range; offset <= range; offset++) {
+            const score = correlate(profiles[previous], profiles[strip], start, end, offset);
+            if (score > bestScore) {
+              bestScore = score;
+              bestOffset = offset;
+            }
+          }
+          if (bestScore < MIN_PROFILE_CORRELATION) continue;
+          drift += bestOffset;
+          previous = strip;
+          points.push({ x: (strip + 0.5) * stripWidth, y: drift });
+        }
+      }
+    }
+
+    // Centre the correction so the page moves as little as possible overall
+    const fitted = fitCubic(points, width);
+    let mean = 0;
+    for (let x = 0; x < width; x++) mean += fitted[x];
+    mean /= width;
+    for (let x = 0; x < width; x++) {
+      fitted[x] = Math.max(-maxShift, Math.min(maxShift, fitted[x] - mean));
+    }
+    displacements.push(fitted);
+  }
+
+  let largest = 0;
+  for (const fitted of displacements) {
+    for (let x = 0; x < width; x++) largest = Math.max(largest, Math.abs(fitted[x]));
+  }
+  if (largest < MIN_DEWARP_SHIFT) return { image, maxShift: 0 };
+
+  const { data: source } = image;
+  const data = new Uint8ClampedArray(source.length);
+  for (let y = 0; y < height; y++) {
+    // Blend the two nearest bands by distance from their centres
+    const bandPosition = Math.max(0, Math.min(DEWARP_BANDS - 1, (y + 0.5) / bandHeight - 0.5));
+    const upper = Math.floor(bandPosition);
+    const lower = Math.min(DEWARP_BANDS - 1, upper + 1);
+    const weight = bandPosition - upper;
+
+    for (let x = 0; x < width; x++) {
+      const shift = displacements[upper][x] * (1 - weight) + displacements[lower][x] * weight;
+      const sourceY = Math.max(0, Math.min(height - 1, y + shift));
+      const y0 = Math.floor(sourceY);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fy = sourceY - y0;
+      const out = (y * width + x) * 4;
+      const top = (y0 * width + x) * 4;
+      const bottom = (y1 * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[out + c] = source[top + c] * (1 - fy) + source[bottom + c] * fy;
+      }
+    }
+  }
+
+  return { image: { width, height, data }, maxShift: Math.round(largest) };
+};
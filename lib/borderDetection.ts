@@ -0,0 +1,487 @@
+import { RGBAImage, gaussianBlur, toGrayscale } from '@/lib/imageFilters';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DetectedQuad {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+  // Share of the outline that lies on detected edges, lowered for shapes far
+  // from a rectangle. 0 means no evidence at all.
+  confidence: number;
+}
+
+// 1 for edge pixels and 0 elsewhere, row by row
+export interface EdgeMap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface BorderDetectionOptions {
+  // Smallest quad accepted, as a fraction of the image area
+  minAreaRatio?: number;
+}
+
+const DEFAULT_MIN_AREA_RATIO = 0.1;
+
+// Gradient floor for hysteresis, so flat images do not turn noise into edges
+const MIN_HIGH_THRESHOLD = 40;
+const LOW_THRESHOLD_RATIO = 0.4;
+
+// Hulls are thinned to this many vertices before searching for the best quad
+const MAX_HULL_VERTICES = 8;
+
+// Value below which the given fraction of gradient magnitudes fall
+const magnitudePercentile = (magnitude: Float32Array, fraction: number): number => {
+  const histogram = new Uint32Array(1449); // Sobel on 8-bit input tops out at ~1443
+  for (let i = 0; i < magnitude.length; i++) {
+    histogram[Math.min(1448, Math.floor(magnitude[i]))]++;
+  }
+  const target = magnitude.length * fraction;
+  let count = 0;
+  for (let bin = 0; bin < histogram.length; bin++) {
+    count += histogram[bin];
+    if (count >= target) return bin;
+  }
+  return histogram.length - 1;
+};
+
+/**
+ * Canny edge detection: Sobel gradients, non-maximum suppression and
+ * hysteresis with thresholds derived from the image's own gradients.
+ * Returns 1 for edge pixels and 0 elsewhere.
+ */
+const detectEdges = (blurred: Float32Array, width: number, height: number): Uint8Array => {
+  const size = width * height;
+  const magnitude = new Float32Array(size);
+  const direction = new Uint8Array(size);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        blurred[i - width + 1] + 2 * blurred[i + 1] + blurred[i + width + 1] -
+        blurred[i - width - 1] - 2 * blurred[i - 1] - blurred[i + width - 1];
+      const gy =
+        blurred[i + width - 1] + 2 * blurred[i + width] + blurred[i + width + 1] -
+        blurred[i - width - 1] - 2 * blurred[i - width] - blurred[i - width + 1];
+      magnitude[i] = Math.hypot(gx, gy);
+
+      // Quantize the gradient direction to 0°, 45°, 90° or 135°
+      let angle = (Math.atan2(gy, gx) * 180) / Math.PI;
+      if (angle < 0) angle += 180;
+      direction[i] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3;
+    }
+  }
+
+  // Neighbour offsets along each quantized gradient direction
+  const offsets = [1, width + 1, width, width - 1];
+  const thin = new Float32Array(size);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const offset = offsets[direction[i]];
+      if (magnitude[i] > magnitude[i - offset] && magnitude[i] >= magnitude[i + offset]) {
+        thin[i] = magnitude[i];
+      }
+    }
+  }
+
+  const high = Math.max(MIN_HIGH_THRESHOLD, magnitudePercentile(magnitude, 0.9));
+  const low = high * LOW_THRESHOLD_RATIO;
+
+  // Keep weak edges only where they connect to a strong one
+  const edges = new Uint8Array(size);
+  const stack: number[] = [];
+  for (let i = 0; i < size; i++) {
+    if (thin[i] >= high) {
+      edges[i] = 1;
+      stack.push(i);
+    }
+  }
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (!edges[n] && thin[n] >= low) {
+          edges[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+  return edges;
+};
+
+// 3x3 dilation, closing the small gaps blur and suppression leave in outlines
+const dilate = (edges: Uint8Array, width: number, height: number): Uint8Array => {
+  const dilated = new Uint8Array(edges.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+            dilated[ny * width + nx] = 1;
+          }
+        }
+      }
+    }
+  }
+  return dilated;
+};
+
+// 8-connected groups of edge pixels, ignoring groups smaller than minPixels
+const findContours = (
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  minPixels: number
+): Point[][] => {
+  const visited = new Uint8Array(edges.length);
+  const contours: Point[][] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < edges.length; start++) {
+    if (!edges[start] || visited[start]) continue;
+
+    const points: Point[] = [];
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      points.push({ x, y });
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (edges[n] && !visited[n]) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+
+    if (points.length >= minPixels) {
+      contours.push(points);
+    }
+  }
+  return contours;
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+};
+
+// Shoelace formula. Positive for clockwise order in image coordinates (y down).
+const signedArea = (polygon: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+};
+
+// Drops the vertex that contributes least area until maxVertices remain
+// (Visvalingam–Whyatt). On a convex hull this trims rounded or clipped corners.
+const simplifyHull = (hull: Point[], maxVertices: number): Point[] => {
+  const points = [...hull];
+  while (points.length > maxVertices) {
+    let smallest = Infinity;
+    let smallestIndex = 0;
+    for (let i = 0; i < points.length; i++) {
+      const prev = points[(i - 1 + points.length) % points.length];
+      const next = points[(i + 1) % points.length];
+      const area = Math.abs(cross(prev, points[i], next));
+      if (area < smallest) {
+        smallest = area;
+        smallestIndex = i;
+      }
+    }
+    points.splice(smallestIndex, 1);
+  }
+  return points;
+};
+
+// Largest-area quad whose corners are hull vertices. Taking them in hull
+// order keeps the quad convex.
+const largestQuad = (hull: Point[]): Point[] | null => {
+  const candidates = simplifyHull(hull, MAX_HULL_VERTICES);
+  if (candidates.length < 4) return null;
+
+  let best: Point[] | null = null;
+  let bestArea = 0;
+  const n = candidates.length;
+  for (let a = 0; a < n; a++) {
+    for (let b = a + 1; b < n; b++) {
+      for (let c = b + 1; c < n; c++) {
+        for (let d = c + 1; d < n; d++) {
+          const quad = [candidates[a], candidates[b], candidates[c], candidates[d]];
+          const area = Math.abs(signedArea(quad));
+          if (area > bestArea) {
+            bestArea = area;
+            best = quad;
+          }
+        }
+      }
+    }
+  }
+  return best;
+};
+
+// Contour points within this many pixels of a side are used to refit it
+const SIDE_FIT_DISTANCE = 3;
+
+interface Line {
+  point: Point;
+  direction: Point;
+}
+
+// Total least squares fit: the line through the centroid along the principal axis
+const fitLine = (points: Point[]): Line => {
+  let meanX = 0;
+  let meanY = 0;
+  for (const point of points) {
+    meanX += point.x;
+    meanY += point.y;
+  }
+  meanX /= points.length;
+  meanY /= points.length;
+
+  let xx = 0;
+  let xy = 0;
+  let yy = 0;
+  for (const point of points) {
+    const dx = point.x - meanX;
+    const dy = point.y - meanY;
+    xx += dx * dx;
+    xy += dx * dy;
+    yy += dy * dy;
+  }
+  const angle = Math.atan2(2 * xy, xx - yy) / 2;
+  return { point: { x: meanX, y: meanY }, direction: { x: Math.cos(angle), y: Math.sin(angle) } };
+};
+
+const intersectLines = (a: Line, b: Line): Point | null => {
+  const denominator = a.direction.x * b.direction.y - a.direction.y * b.direction.x;
+  if (Math.abs(denominator) < 1e-6) return null;
+  const t =
+    ((b.point.x - a.point.x) * b.direction.y - (b.point.y - a.point.y) * b.direction.x) / denominator;
+  return { x: a.point.x + t * a.direction.x, y: a.point.y + t * a.direction.y };
+};
+
+/**
+ * Hull vertices land on the pixel grid and can sit a few pixels off a blunt
+ * corner. Refit each side to the contour points along it and move the corners
+ * to where the fitted sides meet. Corners that would move implausibly far are
+ * left alone.
+ */
+const refineCorners = (quad: Point[], contour: Point[]): Point[] => {
+  const lines: (Line | null)[] = quad.map((from, side) => {
+    const to = quad[(side + 1) % 4];
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return null;
+
+    // Skip the ends, where the neighbouring sides' points crowd in
+    const near = contour.filter(point => {
+      const t = ((point.x - from.x) * dx + (point.y - from.y) * dy) / (length * length);
+      const distance = Math.abs((point.x - from.x) * dy - (point.y - from.y) * dx) / length;
+      return t > 0.1 && t < 0.9 && distance <= SIDE_FIT_DISTANCE;
+    });
+    return near.length >= 10 ? fitLine(near) : null;
+  });
+
+  const maxShift = 0.1 * Math.hypot(quad[2].x - quad[0].x, quad[2].y - quad[0].y);
+  return quad.map((corner, i) => {
+    const before = lines[(i + 3) % 4];
+    const after = lines[i];
+    const refined = before && after ? intersectLines(before, after) : null;
+    if (!refined || Math.hypot(refined.x - corner.x, refined.y - corner.y) > maxShift) {
+      return corner;
+    }
+    return refined;
+  });
+};
+
+// Fraction of points sampled along the quad's sides that sit on an edge
+const edgeSupport = (quad: Point[], edges: Uint8Array, width: number, height: number): number => {
+  let samples = 0;
+  let supported = 0;
+  for (let side = 0; side < 4; side++) {
+    const from = quad[side];
+    const to = quad[(side + 1) % 4];
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y)));
+    for (let step = 0; step < steps; step++) {
+      const x = Math.round(from.x + ((to.x - from.x) * step) / steps);
+      const y = Math.round(from.y + ((to.y - from.y) * step) / steps);
+      samples++;
+      // Allow one pixel of slack for corners rounded to the pixel grid
+      search: for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && edges[ny * width + nx]) {
+            supported++;
+            break search;
+          }
+        }
+      }
+    }
+  }
+  return samples > 0 ? supported / samples : 0;
+};
+
+// sin of the sharpest or widest corner: 1 for a rectangle, falling towards 0
+// as the quad degenerates into a sliver
+const shapeScore = (quad: Point[]): number => {
+  let score = 1;
+  for (let i = 0; i < 4; i++) {
+    const prev = quad[(i + 3) % 4];
+    const corner = quad[i];
+    const next = quad[(i + 1) % 4];
+    const ax = prev.x - corner.x;
+    const ay = prev.y - corner.y;
+    const bx = next.x - corner.x;
+    const by = next.y - corner.y;
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    if (lengths === 0) return 0;
+    score = Math.min(score, Math.abs(ax * by - ay * bx) / lengths);
+  }
+  return score;
+};
+
+// Clockwise on screen, starting from the corner nearest the image origin
+const orderCorners = (quad: Point[]): Point[] => {
+  const clockwise = signedArea(quad) < 0 ? [...quad].reverse() : quad;
+  let start = 0;
+  for (let i = 1; i < 4; i++) {
+    if (clockwise[i].x + clockwise[i].y < clockwise[start].x + clockwise[start].y) {
+      start = i;
+    }
+  }
+  return [0, 1, 2, 3].map(k => clockwise[(start + k) % 4]);
+};
+
+/**
+ * Edge pixels of an image after blurring, Canny and a 3x3 dilation. These are
+ * the edges border detection looks for outlines in.
+ */
+export const findDocumentEdges = (image: RGBAImage): EdgeMap => {
+  const { width, height } = image;
+  const blurred = gaussianBlur(toGrayscale(image).data, width, height);
+  return { width, height, data: dilate(detectEdges(blurred, width, height), width, height) };
+};
+
+/**
+ * Closest edge pixel to a point within radius, or null if there is none
+ */
+export const nearestEdgePoint = (edges: EdgeMap, point: Point, radius: number): Point | null => {
+  const { width, height, data } = edges;
+  const cx = Math.round(point.x);
+  const cy = Math.round(point.y);
+  let best: Point | null = null;
+  let bestDistance = radius * radius;
+
+  for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+    for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+      if (!data[y * width + x]) continue;
+      const distance = (x - point.x) ** 2 + (y - point.y) ** 2;
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = { x, y };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Find the document outline in an image: blur, Canny edges, connected edge
+ * contours, then the largest convex quad on each contour's hull. The quad best
+ * supported by edges wins; its confidence says how much of its outline the
+ * image actually shows. Coordinates are in the pixel space of the input.
+ */
+export const detectDocumentQuad = (
+  image: RGBAImage,
+  options: BorderDetectionOptions = {}
+): DetectedQuad | null => {
+  const { width, height } = image;
+  if (width < 8 || height < 8) return null;
+
+  const minArea = (options.minAreaRatio ?? DEFAULT_MIN_AREA_RATIO) * width * height;
+  const { data: edges } = findDocumentEdges(image);
+  const contours = findContours(edges, width, height, (width + height) / 2);
+
+  let best: { quad: Point[]; confidence: number; score: number } | null = null;
+  for (const contour of contours) {
+    const hullQuad = largestQuad(convexHull(contour));
+    if (!hullQuad) continue;
+    const quad = refineCorners(hullQuad, contour);
+
+    const area = Math.abs(signedArea(quad));
+    if (area < minArea) continue;
+
+    const confidence = edgeSupport(quad, edges, width, height) * shapeScore(quad);
+    // Favour well-supported outlines, then larger ones
+    const score = confidence * Math.sqrt(area / (width * height));
+    if (!best || score > best.score) {
+      best = { quad, confidence, score };
+    }
+  }
+
+  if (!best) return null;
+
+  const [topLeft, topRight, bottomRight, bottomLeft] = orderCorners(best.quad);
+  return {
+    topLeft,
+    topRight,
+    bottomRight,
+    bottomLeft,
+    confidence: Math.round(best.confidence * 1000) / 1000,
+  };
+};
@@ -0,0 +1,315 @@
+import { RGBAImage, binarize } from '@/lib/imageFilters';
+import { Point } from '@/lib/borderDetection';
+import { warpPerspective } from '@/lib/perspective';
+
+// Clockwise turn that brings a page upright
+export type PageOrientation = 0 | 90 | 180 | 270;
+
+export interface SkewEstimateOptions {
+  // Largest skew searched for, in degrees either way
+  maxAngle?: number;
+}
+
+interface InkMask {
+  width: number;
+  height: number;
+  // 1 for ink, 0 for paper
+  data: Uint8Array;
+}
+
+// Analysis runs on a copy about this size; text lines are still several
+// pixels tall and it keeps the angle search fast
+const ANALYSIS_MAX_DIMENSION = 1024;
+// Fewer ink pixels than this is not enough text to judge by
+const MIN_INK_PIXELS = 200;
+// Points used for the angle search are subsampled down to about this many
+const MAX_SKEW_POINTS = 40000;
+
+const COARSE_ANGLE_STEP = 0.5;
+const FINE_ANGLE_STEP = 0.1;
+
+// Rows must be this much more structured than columns to call text horizontal
+const LINE_AXIS_RATIO = 1.2;
+// Ascender ink must outweigh descender ink by this much to call a direction
+const ASCENDER_RATIO = 1.25;
+
+// Box-average downscale by an integer factor
+const downscale = (image: RGBAImage, factor: number): RGBAImage => {
+  if (factor <= 1) return image;
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const area = factor * factor;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          const row = (y * factor + dy) * image.width;
+          for (let dx = 0; dx < factor; dx++) {
+            sum += image.data[(row + x * factor + dx) * 4 + c];
+          }
+        }
+        data[out + c] = sum / area;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+const findInk = (image: RGBAImage): InkMask => {
+  const factor = Math.ceil(Math.max(image.width, image.height) / ANALYSIS_MAX_DIMENSION);
+  const binary = binarize(downscale(image, factor));
+  const data = new Uint8Array(binary.width * binary.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = binary.data[i * 4] === 0 ? 1 : 0;
+  }
+  return { width: binary.width, height: binary.height, data };
+};
+
+// Rotates a single-channel plane by a quarter turn clockwise
+const rotateMaskClockwise = ({ width, height, data }: InkMask): InkMask => {
+  const rotated = new Uint8Array(data.length);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < height; x++) {
+      rotated[y * height + x] = data[(height - 1 - x) * width + y];
+    }
+  }
+  return { width: height, height: width, data: rotated };
+};
+
+// Sum of squared bin counts of the ink projected across the given angle. It
+// peaks when the projection runs along the text lines, which packs ink into
+// few bins and leaves the gaps between lines empty.
+const projectionScore = (points: Point[], degrees: number, diagonal: number): number => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const bins = new Uint32Array(Math.ceil(diagonal * 2) + 1);
+  for (const { x, y } of points) {
+    bins[Math.round(y * cos - x * sin + diagonal)]++;
+  }
+  let score = 0;
+  for (let i = 0; i < bins.length; i++) {
+    score += bins[i] * bins[i];
+  }
+  return score;
+};
+
+const bestAngle = (
+  points: Point[],
+  diagonal: number,
+  from: number,
+  to: number,
+  step: number
+): number => {
+  let best = 0;
+  let bestScore = -1;
+  for (let angle = from; angle <= to + 1e-9; angle += step) {
+    const score = projectionScore(points, angle, diagonal);
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return best;
+};
+
+/**
+ * Estimate how far text lines are tilted, in degrees clockwise, using the
+ * projection profile of the ink: a coarse search over the whole range, then a
+ * fine one around the best angle. Returns 0 when there is too little text.
+ */
+export const estimateSkewAngle = (image: RGBAImage, options: SkewEstimateOptions = {}): number => {
+  const maxAngle = options.maxAngle ?? 15;
+  const ink = findInk(image);
+
+  let inkCount = 0;
+  for (let i = 0; i < ink.data.length; i++) inkCount += ink.data[i];
+  if (inkCount < MIN_INK_PIXELS) return 0;
+
+  const stride = Math.max(1, Math.floor(inkCount / MAX_SKEW_POINTS));
+  const points: Point[] = [];
+  let seen = 0;
+  for (let i = 0; i < ink.data.length; i++) {
+    if (ink.data[i] && seen++ % stride === 0) {
+      const x = i % ink.width;
+      points.push({ x, y: (i - x) / ink.width });
+    }
+  }
+
+  const diagonal = Math.hypot(ink.width, ink.height);
+  const coarse = bestAngle(points, diagonal, -maxAngle, maxAngle, COARSE_ANGLE_STEP);
+  const fine = bestAngle(
+    points,
+    diagonal,
+    coarse - COARSE_ANGLE_STEP,
+    coarse + COARSE_ANGLE_STEP,
+    FINE_ANGLE_STEP
+  );
+  return Math.round(fine * 10) / 10 || 0; // never -0
+};
+
+// How peaked a projection profile is relative to a flat one of the same ink
+const profileSharpness = (profile: Uint32Array): number => {
+  let sum = 0;
+  let squares = 0;
+  let used = 0;
+  for (let i = 0; i < profile.length; i++) {
+    sum += profile[i];
+    squares += profile[i] * profile[i];
+    if (profile[i] > 0) used++;
+  }
+  return sum > 0 ? (squares * used) / (sum * sum) : 0;
+};
+
+const rowProfile = ({ width, height, data }: InkMask): Uint32Array => {
+  const profile = new Uint32Array(height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      profile[y] += data[y * width + x];
+    }
+  }
+  return profile;
+};
+
+const columnProfile = ({ width, height, data }: InkMask): Uint32Array => {
+  const profile = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      profile[x] += data[y * width + x];
+    }
+  }
+  return profile;
+};
+
+// +1 if the horizontal lines of text read upright, -1 if upside down, 0 if it
+// cannot tell. Latin-like scripts have more ink above the x-height band
+// (ascenders, capitals) than below the baseline (descenders).
+const verticalDirection = (mask: InkMask): number => {
+  const profile = rowProfile(mask);
+  let peak = 0;
+  for (let y = 0; y < profile.length; y++) peak = Math.max(peak, profile[y]);
+  if (peak === 0) return 0;
+
+  let above = 0;
+  let below = 0;
+  const lineThreshold = peak * 0.05;
+  let y = 0;
+  while (y < profile.length) {
+    if (profile[y] <= lineThreshold) {
+      y++;
+      continue;
+    }
+    const start = y;
+    while (y < profile.length && profile[y] > lineThreshold) y++;
+    const end = y - 1;
+    if (end - start < 3) continue;
+
+    // The x-height band is where the line is densest
+    let linePeak = 0;
+    for (let row = start; row <= end; row++) linePeak = Math.max(linePeak, profile[row]);
+    let coreTop = start;
+    while (profile[coreTop] < linePeak * 0.5) coreTop++;
+    let coreBottom = end;
+    while (profile[coreBottom] < linePeak * 0.5) coreBottom--;
+
+    for (let row = start; row < coreTop; row++) above += profile[row];
+    for (let row = coreBottom + 1; row <= end; row++) below += profile[row];
+  }
+
+  if (above > below * ASCENDER_RATIO) return 1;
+  if (below > above * ASCENDER_RATIO) return -1;
+  return 0;
+};
+
+/**
+ * Detect whether a page is upright, sideways or upside down. Text lines
+ * run along the axis whose projection profile is more structured; which way
+ * up they read comes from ascenders outweighing descenders. Scripts without
+ * that asymmetry, or pages with too little text, come back as 0.
+ */
+export const detectOrientation = (image: RGBAImage): PageOrientation => {
+  const ink = findInk(image);
+  let inkCount = 0;
+  for (let i = 0; i < ink.data.length; i++) inkCount += ink.data[i];
+  if (inkCount < MIN_INK_PIXELS) return 0;
+
+  const rows = profileSharpness(rowProfile(ink));
+  const columns = profileSharpness(columnProfile(ink));
+
+  if (columns > rows * LINE_AXIS_RATIO) {
+    const direction = verticalDirection(rotateMaskClockwise(ink));
+    return direction > 0 ? 90 : direction < 0 ? 270 : 0;
+  }
+  return verticalDirection(ink) < 0 ? 180 : 0;
+};
+
+/**
+ * Rotate by any angle (clockwise, in degrees) about the centre, keeping the
+ * canvas size. Corners that rotate in from outside repeat the edge pixels.
+ */
+export const rotateImage = (image: RGBAImage, degrees: number): RGBAImage => {
+  const { width, height } = image;
+  const centreX = width / 2;
+  const centreY = height / 2;
+  const radians = (-degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  // Where each output corner comes from in the source
+  const source = (x: number, y: number): Point => ({
+    x: centreX + (x - centreX) * cos - (y - centreY) * sin,
+    y: centreY + (x - centreX) * sin + (y - centreY) * cos,
+  });
+
+  return warpPerspective(
+    image,
+    {
+      topLeft: source(0, 0),
+      topRight: source(width, 0),
+      bottomRight: source(width, height),
+      bottomLeft: source(0, height),
+    },
+    width,
+    height
+  );
+};
+
+/**
+ * Rotate clockwise by a whole number of quarter turns
+ */
+export const rotateQuarterTurns = (image: RGBAImage, orientation: PageOrientation): RGBAImage => {
+  if (orientation === 0) return image;
+
+  const { width, height, data: source } = image;
+  const sideways = orientation !== 180;
+  const outWidth = sideways ? height : width;
+  const outHeight = sideways ? width : height;
+  const data = new Uint8ClampedArray(source.length);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sx: number;
+      let sy: number;
+      if (orientation === 90) {
+        sx = y;
+        sy = height - 1 - x;
+      } else if (orientation === 180) {
+        sx = width - 1 - x;
+        sy = height - 1 - y;
+      } else {
+        sx = width - 1 - y;
+        sy = x;
+      }
+      const from = (sy * width + sx) * 4;
+      const to = (y * outWidth + x) * 4;
+      data[to] = source[from];
+      data[to + 1] = source[from + 1];
+      data[to + 2] = source[from + 2];
+      data[to + 3] = source[from + 3];
+    }
+  }
+  return { width: outWidth, height: outHeight, data };
+};
@@ -0,0 +1,76 @@
+// Styled text and pictures shared by the word processor writers (DOCX, ODT).
+// Pure TypeScript with no React Native imports.
+
+/** A run of text sharing one style */
+export interface StyledTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  // In points
+  fontSize?: number;
+  // #rrggbb
+  color?: string;
+  // Applies to the paragraph the run starts
+  align?: 'left' | 'center' | 'right';
+}
+
+/** A picture to place in a document, shown at the given size in points */
+export interface EmbeddedImage {
+  data: Uint8Array;
+  format: 'jpeg' | 'png';
+  width: number;
+  height: number;
+}
+
+export interface StyledDocumentContent {
+  title?: string;
+  runs: StyledTextRun[];
+  // Placed right-aligned after the text
+  signatures?: EmbeddedImage[];
+  // Scanned pages, each on a page of its own after everything else
+  pageImages?: EmbeddedImage[];
+}
+
+// A4 with one-inch margins, in points
+export const DOCUMENT_PAGE = {
+  width: 595.3,
+  height: 841.9,
+  margin: 72,
+};
+
+export const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Escape text for XML content and attributes, dropping control characters
+ * that XML 1.0 does not allow
+ */
+export const escapeXML = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Split styled runs into paragraphs at line breaks, keeping each piece's style
+ */
+export const splitRunsIntoParagraphs = (runs: StyledTextRun[]): StyledTextRun[][] => {
+  const paragraphs: StyledTextRun[][] = [[]];
+  for (const run of runs) {
+    run.text.split('\n').forEach((part, index) => {
+      if (index > 0) paragraphs.push([]);
+      if (part) paragraphs[paragraphs.length - 1].push({ ...run, text: part });
+    });
+  }
+  return paragraphs;
+};
+
+/**
+ * Shrink a picture to fit the box, keeping its aspect ratio
+ */
+export const fitImageInside = (image: EmbeddedImage, maxWidth: number, maxHeight: number): EmbeddedImage => {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+  return { ...image, width: image.width * scale, height: image.height * scale };
+};
@@ -0,0 +1,86 @@
+// Reads a JSON document export back into the app. The page images embedded in
+// the file are written to the app's documents, as if they had been scanned here.
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { EmbeddedPageImage, ImportedDocument, parseDocumentJSON } from '@/lib/documentJSON';
+import { sanitizeFileName } from '@/lib/exportService';
+import { MultiPageDocument } from '@/types/scan';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export interface RestoredDocument extends ImportedDocument {
+  // The pages with their images saved on this device
+  document: MultiPageDocument;
+}
+
+const readFile = async (uri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return FileSystem.readAsStringAsync(uri);
+};
+
+// Web has no file system to write to, so the image stays inline
+const saveImage = async (pageId: string, image: EmbeddedPageImage): Promise<string> => {
+  if (Platform.OS === 'web') {
+    return `data:${image.mimeType};base64,${image.data}`;
+  }
+  const extension = IMAGE_EXTENSIONS[image.mimeType] ?? 'jpg';
+  const fileUri = `${FileSystem.documentDirectory}imported-${Date.now()}-${sanitizeFileName(pageId)}.${extension}`;
+  await FileSystem.writeAsStringAsync(fileUri, image.data, { encoding: FileSystem.EncodingType.Base64 });
+  return fileUri;
+};
+
+/**
+ * Restore a document from its JSON contents. Pages without an embedded image,
+ * as in older exports, keep the URI they were exported with.
+ */
+export const restoreDocument = async (json: string): Promise<RestoredDocument> => {
+  const imported = parseDocumentJSON(json);
+  if (imported.pages.length === 0) {
+    throw new Error('This document has no pages');
+  }
+
+  const pages = [];
+  for (const page of imported.pages) {
+    const image = imported.pageImages?.[page.id];
+    pages.push(image ? { ...page, imageUri: await saveImage(page.id, image) } : page);
+  }
+
+  return {
+    ...imported,
+    pages,
+    document: {
+      id: imported.document?.id ?? `imported-${Date.now()}`,
+      title: imported.document?.title ?? imported.title ?? 'Imported Document',
+      createdAt: imported.document?.createdAt ?? imported.exportedAt,
+      updatedAt: imported.document?.updatedAt ?? imported.exportedAt,
+      pages,
+    },
+  };
+};
+
+/**
+ * Let the user pick a JSON document export and restore it. Null when the
+ * picker is dismissed; throws with a readable message when the file cannot be
+ * imported.
+ */
+export const importDocumentFile = async (): Promise<RestoredDocument | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'application/json',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  const restored = await restoreDocument(await readFile(result.assets[0].uri));
+  console.log(`📥 Imported ${restored.document.title} with ${restored.pages.length} pages`);
+  return restored;
+};
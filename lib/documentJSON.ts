@@ -0,0 +1,215 @@
+// Lossless JSON export of a scanned document that can be read back in. Pure
+// TypeScript with no React Native imports.
+import { StyledTextRun } from '@/lib/documentContent';
+import { SignatureStroke } from '@/lib/signatureImage';
+import { Annotation, DocumentPage, MultiPageDocument, SavedSignature } from '@/types/scan';
+
+const DOCUMENT_FILE_FORMAT = 'document-scanner-export';
+// Bumped when the file format changes incompatibly
+const DOCUMENT_FILE_VERSION = 1;
+
+const ANNOTATION_TYPES: Annotation['type'][] = ['highlight', 'drawing', 'textbox'];
+
+/** The document a set of pages belongs to, without the pages */
+export type DocumentMetadata = Omit<MultiPageDocument, 'pages'>;
+
+/** A page image carried inside the file, base64 encoded */
+export interface EmbeddedPageImage {
+  mimeType: string;
+  data: string;
+}
+
+/** Everything a document export holds */
+export interface DocumentExportData {
+  document?: DocumentMetadata;
+  title?: string;
+  text: string;
+  // Page URIs only make sense on the device that exported them, so the images
+  // themselves travel in pageImages, keyed by page id
+  pages: DocumentPage[];
+  pageImages?: Record<string, EmbeddedPageImage>;
+  annotations: Annotation[];
+  // Saved signatures placed on the pages, so placements can be restored
+  signatures: SavedSignature[];
+  // Formatting and hand-drawn signatures from the text formatter
+  runs?: StyledTextRun[];
+  handwrittenSignatures?: SignatureStroke[];
+}
+
+export interface ImportedDocument extends DocumentExportData {
+  exportedAt: Date;
+}
+
+/** The MIME type of base64 image data, from its first bytes; JPEG if unknown */
+export const detectImageMimeType = (base64: string): string => {
+  if (base64.startsWith('iVBORw0KGgo')) return 'image/png';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  if (base64.startsWith('R0lGOD')) return 'image/gif';
+  return 'image/jpeg';
+};
+
+/**
+ * The document as JSON. Only saved signatures placed on a page, and
+ * annotations that are on an exported page or on none, are included; Dates
+ * are written as ISO strings.
+ */
+export const createDocumentJSON = (data: DocumentExportData): string => {
+  const placedIds = new Set(
+    data.pages.flatMap(page => (page.signatures ?? []).map(instance => instance.signatureId))
+  );
+  const pageIds = new Set(data.pages.map(page => page.id));
+  return JSON.stringify(
+    {
+      format: DOCUMENT_FILE_FORMAT,
+      version: DOCUMENT_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...data,
+      annotations: data.annotations.filter(annotation => !annotation.pageId || pageIds.has(annotation.pageId)),
+      signatures: data.signatures.filter(signature => placedIds.has(signature.id)),
+    },
+    null,
+    2
+  );
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const parseDate = (value: unknown, label: string): Date => {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`${label} has an invalid date`);
+  }
+  return date;
+};
+
+const hasBox = (value: Record<string, unknown>): boolean =>
+  isNumber(value.x) && isNumber(value.y) && isNumber(value.width) && isNumber(value.height);
+
+const parsePage = (value: unknown, index: number): DocumentPage => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.imageUri !== 'string') {
+    throw new Error(`Page ${index + 1} needs an id and an image`);
+  }
+  if (value.signatures !== undefined) {
+    if (!Array.isArray(value.signatures) || !value.signatures.every(instance =>
+      isRecord(instance) && typeof instance.signatureId === 'string' && hasBox(instance)
+    )) {
+      throw new Error(`Page ${index + 1} has an invalid signature placement`);
+    }
+  }
+  return {
+    ...(value as unknown as DocumentPage),
+    order: isNumber(value.order) ? value.order : index,
+  };
+};
+
+const parseMetadata = (value: unknown): DocumentMetadata => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.title !== 'string') {
+    throw new Error('The document needs an id and a title');
+  }
+  return {
+    id: value.id,
+    title: value.title,
+    createdAt: parseDate(value.createdAt, 'The document'),
+    updatedAt: parseDate(value.updatedAt, 'The document'),
+  };
+};
+
+const parsePageImages = (value: unknown): Record<string, EmbeddedPageImage> => {
+  if (!isRecord(value)) {
+    throw new Error('Page images must be keyed by page');
+  }
+  for (const [pageId, image] of Object.entries(value)) {
+    if (!isRecord(image) || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')
+      || typeof image.data !== 'string') {
+      throw new Error(`The image for page ${pageId} is invalid`);
+    }
+  }
+  return value as Record<string, EmbeddedPageImage>;
+};
+
+const parseAnnotation = (value: unknown, index: number): Annotation => {
+  if (!isRecord(value) || typeof value.id !== 'string'
+    || !ANNOTATION_TYPES.includes(value.type as Annotation['type']) || !hasBox(value)) {
+    throw new Error(`Annotation ${index + 1} is invalid`);
+  }
+  return {
+    ...(value as unknown as Annotation),
+    createdAt: parseDate(value.createdAt, `Annotation ${index + 1}`),
+  };
+};
+
+const parseSignature = (value: unknown, index: number): SavedSignature => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.svgPath !== 'string'
+    || !isNumber(value.width) || !isNumber(value.height)) {
+    throw new Error(`Signature ${index + 1} is invalid`);
+  }
+  return {
+    ...(value as unknown as SavedSignature),
+    name: typeof value.name === 'string' ? value.name : 'Signature',
+    createdAt: parseDate(value.createdAt, `Signature ${index + 1}`),
+  };
+};
+
+const parseList = <T>(value: unknown, label: string, parse: (item: unknown, index: number) => T): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`${label} must be a list`);
+  }
+  return value.map(parse);
+};
+
+/**
+ * Read a file written by createDocumentJSON, restoring Dates. Throws with a
+ * readable message when the file is not a document export or is damaged.
+ */
+export const parseDocumentJSON = (json: string): ImportedDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Document file must be valid JSON');
+  }
+  if (!isRecord(parsed) || parsed.format !== DOCUMENT_FILE_FORMAT) {
+    throw new Error('This is not a document export');
+  }
+  if (!isNumber(parsed.version) || parsed.version > DOCUMENT_FILE_VERSION) {
+    throw new Error('This document was exported by a newer version of the app');
+  }
+
+  const pages = parseList(parsed.pages, 'Pages', parsePage).sort((a, b) => a.order - b.order);
+  const signatures = parseList(parsed.signatures, 'Signatures', parseSignature);
+  const known = new Set(signatures.map(signature => signature.id));
+  const missing = pages.flatMap(page => page.signatures ?? []).find(instance => !known.has(instance.signatureId));
+  if (missing) {
+    throw new Error(`A page uses signature ${missing.signatureId}, which is not in the file`);
+  }
+
+  return {
+    document: parsed.document === undefined ? undefined : parseMetadata(parsed.document),
+    title: typeof parsed.title === 'string' ? parsed.title : undefined,
+    text: typeof parsed.text === 'string' ? parsed.text : '',
+    pages,
+    pageImages: parsed.pageImages === undefined ? undefined : parsePageImages(parsed.pageImages),
+    annotations: parseList(parsed.annotations, 'Annotations', parseAnnotation),
+    signatures,
+    runs: parsed.runs === undefined ? undefined : parseList(parsed.runs, 'Formatted text', (run, index) => {
+      if (!isRecord(run) || typeof run.text !== 'string') {
+        throw new Error(`Formatted text ${index + 1} is invalid`);
+      }
+      return run as unknown as StyledTextRun;
+    }),
+    handwrittenSignatures: parsed.handwrittenSignatures === undefined
+      ? undefined
+      : parseList(parsed.handwrittenSignatures, 'Handwritten signatures', (stroke, index) => {
+        if (!isRecord(stroke) || !Array.isArray(stroke.points)) {
+          throw new Error(`Handwritten signature ${index + 1} is invalid`);
+        }
+        return stroke as unknown as SignatureStroke;
+      }),
+    exportedAt: parseDate(parsed.exportedAt, 'The export'),
+  };
+};
@@ -0,0 +1,197 @@
+// Office Open XML (.docx) writer: styled paragraphs and inline pictures,
+// packaged with the parts Word needs to open the file. Pure TypeScript with no
+// React Native imports.
+import { getTextDirection } from '@/lib/ocrLanguages';
+import { createZip, ZipEntry } from '@/lib/zipWriter';
+import {
+  DOCUMENT_PAGE,
+  EmbeddedImage,
+  StyledDocumentContent,
+  StyledTextRun,
+  XML_HEADER,
+  escapeXML,
+  fitImageInside,
+  splitRunsIntoParagraphs,
+} from '@/lib/documentContent';
+
+const MIME_TYPES = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+// Word measures pictures in EMUs, page geometry in twentieths of a point and
+// font sizes in half points
+const EMU_PER_POINT = 12700;
+const TWIPS_PER_POINT = 20;
+
+const DEFAULT_FONT_SIZE = 12;
+
+const NAMESPACES = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+};
+const RELATIONSHIP_TYPES = {
+  document: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  core: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  app: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+};
+
+const runProperties = (run: StyledTextRun, rtl: boolean): string => {
+  const properties: string[] = [];
+  if (run.bold) properties.push('<w:b/><w:bCs/>');
+  if (run.italic) properties.push('<w:i/><w:iCs/>');
+  if (run.underline) properties.push('<w:u w:val="single"/>');
+  if (run.color) properties.push(`<w:color w:val="${run.color.replace('#', '').toUpperCase()}"/>`);
+  if (run.fontSize) {
+    const halfPoints = Math.round(run.fontSize * 2);
+    properties.push(`<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/>`);
+  }
+  if (rtl) properties.push('<w:rtl/>');
+  return properties.length > 0 ? `<w:rPr>${properties.join('')}</w:rPr>` : '';
+};
+
+// Tabs are elements of their own in WordprocessingML
+const runXML = (run: StyledTextRun, rtl: boolean): string => {
+  const content = run.text
+    .split('\t')
+    .map(part => (part ? `<w:t xml:space="preserve">${escapeXML(part)}</w:t>` : ''))
+    .join('<w:tab/>');
+  return `<w:r>${runProperties(run, rtl)}${content}</w:r>`;
+};
+
+const paragraphXML = (runs: StyledTextRun[]): string => {
+  const text = runs.map(run => run.text).join('');
+  // Each paragraph takes the direction of its own text, like the HTML export
+  const rtl = getTextDirection(text) === 'rtl';
+  const align = runs.find(run => run.align)?.align;
+  const properties = [
+    rtl ? '<w:bidi/>' : '',
+    align ? `<w:jc w:val="${align}"/>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs.map(run => runXML(run, rtl)).join('')}</w:p>`;
+};
+
+const pictureXML = (image: EmbeddedImage, relationshipId: string, pictureId: number): string => {
+  const cx = Math.round(image.width * EMU_PER_POINT);
+  const cy = Math.round(image.height * EMU_PER_POINT);
+  const name = `Picture ${pictureId}`;
+  return (
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${pictureId}" name="${name}"/>` +
+    `<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+    `<a:graphic><a:graphicData uri="${NAMESPACES.pic}"><pic:pic>` +
+    `<pic:nvPicPr><pic:cNvPr id="${pictureId}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+  );
+};
+
+/**
+ * Build a .docx file. Text keeps its bold, italic, underline, size, colour and
+ * alignment; pictures are embedded in the package.
+ */
+export const createDocx = (content: StyledDocumentContent): Uint8Array => {
+  const media: ZipEntry[] = [];
+  const relationships: string[] = [
+    `<Relationship Id="rIdStyles" Type="${RELATIONSHIP_TYPES.styles}" Target="styles.xml"/>`,
+  ];
+  const addPicture = (image: EmbeddedImage): string => {
+    const index = media.length + 1;
+    const extension = image.format === 'png' ? 'png' : 'jpeg';
+    const relationshipId = `rIdImage${index}`;
+    media.push({ path: `word/media/image${index}.${extension}`, data: image.data });
+    relationships.push(
+      `<Relationship Id="${relationshipId}" Type="${RELATIONSHIP_TYPES.image}" Target="media/image${index}.${extension}"/>`
+    );
+    return pictureXML(image, relationshipId, index);
+  };
+
+  const contentWidth = DOCUMENT_PAGE.width - DOCUMENT_PAGE.margin * 2;
+  const contentHeight = DOCUMENT_PAGE.height - DOCUMENT_PAGE.margin * 2;
+  const body: string[] = splitRunsIntoParagraphs(content.runs).map(paragraphXML);
+
+  for (const signature of content.signatures ?? []) {
+    const picture = addPicture(fitImageInside(signature, contentWidth, contentHeight));
+    body.push(`<w:p><w:pPr><w:spacing w:before="240"/><w:jc w:val="right"/></w:pPr>${picture}</w:p>`);
+  }
+
+  for (const pageImage of content.pageImages ?? []) {
+    // Slightly under the full height so Word does not push it to another page
+    const picture = addPicture(fitImageInside(pageImage, contentWidth, contentHeight - 12));
+    body.push(`<w:p><w:pPr><w:pageBreakBefore/><w:jc w:val="center"/></w:pPr>${picture}</w:p>`);
+  }
+
+  const twips = (points: number) => Math.round(points * TWIPS_PER_POINT);
+  body.push(
+    `<w:sectPr><w:pgSz w:w="${twips(DOCUMENT_PAGE.width)}" w:h="${twips(DOCUMENT_PAGE.height)}"/>` +
+    `<w:pgMar w:top="${twips(DOCUMENT_PAGE.margin)}" w:right="${twips(DOCUMENT_PAGE.margin)}" w:bottom="${twips(DOCUMENT_PAGE.margin)}" ` +
+    `w:left="${twips(DOCUMENT_PAGE.margin)}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`
+  );
+
+  const namespaceAttributes = Object.entries(NAMESPACES)
+    .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+    .join(' ');
+  const documentXML = `${XML_HEADER}<w:document ${namespaceAttributes}><w:body>${body.join('')}</w:body></w:document>`;
+
+  const stylesXML =
+    `${XML_HEADER}<w:styles xmlns:w="${NAMESPACES.w}"><w:docDefaults>` +
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Arial"/>` +
+    `<w:sz w:val="${DEFAULT_FONT_SIZE * 2}"/><w:szCs w:val="${DEFAULT_FONT_SIZE * 2}"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>` +
+    `</w:docDefaults></w:styles>`;
+
+  const contentTypesXML =
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Default Extension="jpeg" ContentType="${MIME_TYPES.jpeg}"/>` +
+    `<Default Extension="png" ContentType="${MIME_TYPES.png}"/>` +
+    `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>` +
+    `</Types>`;
+
+  const packageRelationshipsXML =
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES.document}" Target="word/document.xml"/>` +
+    `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPES.core}" Target="docProps/core.xml"/>` +
+    `<Relationship Id="rId3" Type="${RELATIONSHIP_TYPES.app}" Target="docProps/app.xml"/>` +
+    `</Relationships>`;
+
+  const documentRelationshipsXML =
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `${relationships.join('')}</Relationships>`;
+
+  const created = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const coreXML =
+    `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+    `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    (content.title ? `<dc:title>${escapeXML(content.title)}</dc:title>` : '') +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>` +
+    `</cp:coreProperties>`;
+
+  const appXML =
+    `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+    `<Application>Document Scanner App</Application></Properties>`;
+
+  return createZip([
+    { path: '[Content_Types].xml', data: contentTypesXML },
+    { path: '_rels/.rels', data: packageRelationshipsXML },
+    { path: 'word/document.xml', data: documentXML },
+    { path: 'word/styles.xml', data: stylesXML },
+    { path: 'word/_rels/document.xml.rels', data: documentRelationshipsXML },
+    { path: 'docProps/core.xml', data: coreXML },
+    { path: 'docProps/app.xml', data: appXML },
+    ...media,
+  ]);
+};
@@ -0,0 +1,188 @@
+// Registry of the formats documents can be exported in. The export menu is
+// built from it, so a format added here shows up there.
+import { getTextDirection } from '@/lib/ocrLanguages';
+import { createDocx } from '@/lib/docxWriter';
+import { createOdt } from '@/lib/odtWriter';
+import { createMarkdown, textToMarkdown } from '@/lib/markdownWriter';
+import { DocumentMetadata, EmbeddedPageImage, createDocumentJSON, detectImageMimeType } from '@/lib/documentJSON';
+import { EmbeddedImage, StyledDocumentContent, StyledTextRun } from '@/lib/documentContent';
+import { SignatureStroke, rasterizeSignature } from '@/lib/signatureImage';
+import { encodePNG } from '@/lib/pngEncoder';
+import { loadImageBase64, loadImageJpeg } from '@/lib/imagePixels';
+import { ExportEncoder } from '@/lib/exportService';
+import { Annotation, DocumentPage, SavedSignature } from '@/types/scan';
+
+export type ExportFormat = 'txt' | 'markdown' | 'docx' | 'odt' | 'html' | 'json';
+
+export interface ExportOptions {
+  text: string;
+  format: ExportFormat;
+  includeFormatting?: boolean;
+  fileName?: string;
+  title?: string;
+  // Styled text for DOCX and ODT; the plain text is used when left out
+  runs?: StyledTextRun[];
+  signatures?: SignatureStroke[];
+  // Scanned pages to embed in DOCX and ODT
+  imageUris?: string[];
+  // The scanned document, for Markdown headings from the OCR layout and for JSON
+  pages?: DocumentPage[];
+  annotations?: Annotation[];
+  savedSignatures?: SavedSignature[];
+  // The document the pages belong to, kept in JSON exports
+  document?: DocumentMetadata;
+}
+
+export interface DocumentExporter extends ExportEncoder<ExportOptions> {
+  // Shown in the export menu
+  label: string;
+  // Menu entry for a second variant that embeds the scanned pages, offered
+  // when there are page images
+  pageImagesLabel?: string;
+}
+
+// Signatures are shown 120x60pt, like the formatter's preview, and drawn at
+// twice that in pixels so they stay crisp
+const SIGNATURE_IMAGE_SIZE = { width: 120, height: 60 };
+const SIGNATURE_PIXEL_SCALE = 2;
+// Longest side and quality of page images embedded in documents
+const PAGE_IMAGE_MAX_DIMENSION = 2000;
+const PAGE_IMAGE_QUALITY = 0.85;
+
+/**
+ * Styled content for the word processor formats: styled text, signatures as
+ * pictures and optionally the scanned pages, each on its own page.
+ */
+export const buildDocumentContent = async (options: ExportOptions): Promise<StyledDocumentContent> => {
+  const signatures: EmbeddedImage[] = (options.signatures ?? [])
+    .filter(signature => signature.points.length > 0)
+    .map(signature => ({
+      data: encodePNG(rasterizeSignature(signature, {
+        width: SIGNATURE_IMAGE_SIZE.width * SIGNATURE_PIXEL_SCALE,
+        height: SIGNATURE_IMAGE_SIZE.height * SIGNATURE_PIXEL_SCALE,
+      })),
+      format: 'png',
+      ...SIGNATURE_IMAGE_SIZE,
+    }));
+
+  const pageImages: EmbeddedImage[] = [];
+  for (const imageUri of options.imageUris ?? []) {
+    const { data, width, height } = await loadImageJpeg(imageUri, PAGE_IMAGE_MAX_DIMENSION, PAGE_IMAGE_QUALITY);
+    // Sized to the page width by the writer
+    pageImages.push({ data, format: 'jpeg', width, height });
+  }
+
+  return {
+    title: options.title,
+    runs: options.runs ?? [{ text: options.text }],
+    signatures,
+    pageImages,
+  };
+};
+
+// The original image files, so a JSON export can be restored on another device
+const loadPageImages = async (pages: DocumentPage[]): Promise<Record<string, EmbeddedPageImage>> => {
+  const images: Record<string, EmbeddedPageImage> = {};
+  for (const page of pages) {
+    const data = await loadImageBase64(page.imageUri);
+    images[page.id] = { mimeType: detectImageMimeType(data), data };
+  }
+  return images;
+};
+
+const createHTMLContent = (text: string): string => {
+  const htmlText = text.replace(/\n/g, '<br>');
+
+  return `
+    <!DOCTYPE html>
+    <html dir="${getTextDirection(text)}">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>Scanned Document</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          margin: 40px;
+          line-height: 1.6;
+          color: #333;
+        }
+        .content {
+          white-space: pre-wrap;
+          /* Each paragraph takes its own direction, so RTL lines align right */
+          unicode-bidi: plaintext;
+          text-align: start;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="content">${htmlText}</div>
+    </body>
+    </html>
+  `;
+};
+
+// In menu order
+export const EXPORT_FORMATS: Record<ExportFormat, DocumentExporter> = {
+  txt: {
+    label: 'TXT (Plain Text)',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    encode: async options => options.text,
+  },
+  markdown: {
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    // Headings come from the OCR layout when the pages are known
+    encode: async options =>
+      options.pages?.some(page => page.extractedText || page.ocrLayout)
+        ? createMarkdown(options.pages, options.title)
+        : textToMarkdown(options.text),
+  },
+  docx: {
+    label: 'DOCX (Word Format)',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    encode: async options => createDocx(await buildDocumentContent(options)),
+    pageImagesLabel: 'DOCX with Page Images',
+  },
+  odt: {
+    label: 'ODT (OpenDocument Text)',
+    extension: 'odt',
+    mimeType: 'application/vnd.oasis.opendocument.text',
+    encode: async options => createOdt(await buildDocumentContent(options)),
+    pageImagesLabel: 'ODT with Page Images',
+  },
+  html: {
+    label: 'HTML (Web Format)',
+    extension: 'html',
+    mimeType: 'text/html',
+    encode: async options => createHTMLContent(options.text),
+  },
+  json: {
+    label: 'JSON (Full Document)',
+    extension: 'json',
+    mimeType: 'application/json',
+    encode: async options => {
+      const pages = options.pages ?? [];
+      const now = new Date();
+      return createDocumentJSON({
+        document: options.document ?? {
+          id: `document-${now.getTime()}`,
+          title: options.title ?? 'Scanned Document',
+          createdAt: now,
+          updatedAt: now,
+        },
+        title: options.title,
+        text: options.text,
+        pages,
+        pageImages: await loadPageImages(pages),
+        annotations: options.annotations ?? [],
+        signatures: options.savedSignatures ?? [],
+        runs: options.runs,
+        handwrittenSignatures: options.signatures,
+      });
+    },
+  },
+};
@@ -0,0 +1,145 @@
+// One export path for every format and destination: an encoder turns the input
+// into file contents and a delivery target puts the file somewhere. Pure
+// TypeScript with no React Native imports, so tests and the backend can run it
+// with their own encoders and targets.
+import { utf8Bytes } from '@/lib/zipWriter';
+
+/** A finished file ready to deliver */
+export interface ExportFile {
+  // Including the extension
+  fileName: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+/** Turns some input into the contents of one file format */
+export interface ExportEncoder<TInput> {
+  extension: string;
+  mimeType: string;
+  encode: (input: TInput) => Promise<string | Uint8Array>;
+}
+
+export type DeliveryTargetKind = 'download' | 'share' | 'files' | 'upload';
+
+export interface DeliveryOutcome {
+  // Where the file ended up: a file URI, a URL or the downloaded file's name
+  location: string;
+  // False when the user dismissed the share sheet
+  completed: boolean;
+}
+
+/** Puts an exported file somewhere: a download, the share sheet, storage... */
+export interface DeliveryTarget {
+  kind: DeliveryTargetKind;
+  deliver: (file: ExportFile) => Promise<DeliveryOutcome>;
+}
+
+export type ExportResult =
+  | {
+    status: 'delivered';
+    target: DeliveryTargetKind;
+    fileName: string;
+    mimeType: string;
+    // In bytes
+    size: number;
+    location: string;
+  }
+  | {
+    status: 'cancelled';
+    target: DeliveryTargetKind;
+    fileName: string;
+    location: string;
+  }
+  | {
+    status: 'failed';
+    target: DeliveryTargetKind;
+    fileName: string;
+    // Whether building the file or delivering it went wrong
+    stage: 'encode' | 'deliver';
+    error: string;
+  };
+
+export interface ExportRequest<TInput> {
+  encoder: ExportEncoder<TInput>;
+  input: TInput;
+  // Without the extension, which comes from the encoder
+  fileName: string;
+  target: DeliveryTarget;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Keep letters, digits, dashes and underscores so a title is safe to use as a
+ * file name on every platform
+ */
+export const sanitizeFileName = (name: string): string =>
+  name.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '') || 'document';
+
+export const fileSize = (data: string | Uint8Array): number =>
+  typeof data === 'string' ? utf8Bytes(data).length : data.length;
+
+/**
+ * Encode the input into a file without delivering it, e.g. to return it from
+ * an API
+ */
+export const encodeExport = async <TInput>(
+  encoder: ExportEncoder<TInput>,
+  input: TInput,
+  fileName: string
+): Promise<ExportFile> => ({
+  fileName: `${fileName}.${encoder.extension}`,
+  mimeType: encoder.mimeType,
+  data: await encoder.encode(input),
+});
+
+/**
+ * Encode and deliver one file. Never throws: failures come back as a result so
+ * callers decide how to tell the user.
+ */
+export const exportFile = async <TInput>({
+  encoder,
+  input,
+  fileName,
+  target,
+}: ExportRequest<TInput>): Promise<ExportResult> => {
+  const fullFileName = `${fileName}.${encoder.extension}`;
+
+  let file: ExportFile;
+  try {
+    file = await encodeExport(encoder, input, fileName);
+  } catch (error) {
+    console.error(`❌ Error encoding ${fullFileName}:`, error);
+    return { status: 'failed', target: target.kind, fileName: fullFileName, stage: 'encode', error: errorMessage(error) };
+  }
+
+  try {
+    const { location, completed } = await target.deliver(file);
+    if (!completed) {
+      return { status: 'cancelled', target: target.kind, fileName: fullFileName, location };
+    }
+    const size = fileSize(file.data);
+    console.log(`📤 Exported ${fullFileName} (${size} bytes) via ${target.kind}: ${location}`);
+    return {
+      status: 'delivered',
+      target: target.kind,
+      fileName: fullFileName,
+      mimeType: file.mimeType,
+      size,
+      location,
+    };
+  } catch (error) {
+    console.error(`❌ Error delivering ${fullFileName}:`, error);
+    return { status: 'failed', target: target.kind, fileName: fullFileName, stage: 'deliver', error: errorMessage(error) };
+  }
+};
+
+/**
+ * A target that hands the file to an uploader, which returns where the file
+ * can be found afterwards
+ */
+export const createUploadTarget = (upload: (file: ExportFile) => Promise<string>): DeliveryTarget => ({
+  kind: 'upload',
+  deliver: async file => ({ location: await upload(file), completed: true }),
+});
@@ -0,0 +1,136 @@
+// Delivery targets for the export service on the app's platforms.
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import { DeliveryOutcome, DeliveryTarget, ExportFile, createUploadTarget } from '@/lib/exportService';
+import { bytesToBase64 } from '@/lib/imagePixels';
+import { storage } from '@/lib/supabase';
+
+const writeFile = async (fileUri: string, file: ExportFile): Promise<void> => {
+  if (typeof file.data === 'string') {
+    await FileSystem.writeAsStringAsync(fileUri, file.data);
+  } else {
+    await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(file.data), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+};
+
+// Write the file to the app's documents and return its URI
+const writeToDocuments = async (file: ExportFile): Promise<string> => {
+  const fileUri = `${FileSystem.documentDirectory}${file.fileName}`;
+  await writeFile(fileUri, file);
+  return fileUri;
+};
+
+// The media library only takes pictures and videos
+const isMedia = (mimeType: string): boolean =>
+  mimeType.startsWith('image/') || mimeType.startsWith('video/');
+
+// Android documents go to a folder the user picks through the storage access
+// framework; declining the picker cancels the export
+const saveWithStorageAccess = async (file: ExportFile): Promise<DeliveryOutcome> => {
+  const { StorageAccessFramework } = FileSystem;
+  const permissions = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+  if (!permissions.granted) {
+    return { location: '', completed: false };
+  }
+  // The framework adds the extension for the MIME type itself
+  const name = file.fileName.replace(/\.[^.]+$/, '');
+  const fileUri = await StorageAccessFramework.createFileAsync(permissions.directoryUri, name, file.mimeType);
+  await writeFile(fileUri, file);
+  return { location: fileUri, completed: true };
+};
+
+/** Browser download; web only */
+export const downloadTarget: DeliveryTarget = {
+  kind: 'download',
+  deliver: async file => {
+    if (Platform.OS !== 'web') {
+      throw new Error('Downloads are only available on web');
+    }
+    const blob = new Blob([file.data], { type: file.mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return { location: file.fileName, completed: true };
+  },
+};
+
+/**
+ * The system share sheet; web falls back to a download. iOS only on native:
+ * React Native's share sheet ignores file URLs on Android.
+ */
+export const shareTarget: DeliveryTarget = {
+  kind: 'share',
+  deliver: async file => {
+    if (Platform.OS === 'web') {
+      return downloadTarget.deliver(file);
+    }
+    if (Platform.OS === 'android') {
+      throw new Error('Sharing files is not available on Android');
+    }
+    const fileUri = await writeToDocuments(file);
+    const { action } = await Share.share({ url: fileUri });
+    return { location: fileUri, completed: action !== Share.dismissedAction };
+  },
+};
+
+/**
+ * Saved as a file. Pictures and videos are kept in the app's documents and
+ * also added to the media library when the user allows it; documents on
+ * Android go to a folder the user picks.
+ */
+export const filesTarget: DeliveryTarget = {
+  kind: 'files',
+  deliver: async file => {
+    if (Platform.OS === 'web') {
+      return downloadTarget.deliver(file);
+    }
+    if (Platform.OS === 'android' && !isMedia(file.mimeType)) {
+      return saveWithStorageAccess(file);
+    }
+    const fileUri = await writeToDocuments(file);
+    if (isMedia(file.mimeType)) {
+      // The file is already saved, so a library failure does not fail the export
+      try {
+        const { status } = await MediaLibrary.requestPermissionsAsync();
+        if (status === 'granted') {
+          await MediaLibrary.saveToLibraryAsync(fileUri);
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not add export to the media library:', error);
+      }
+    }
+    return { location: fileUri, completed: true };
+  },
+};
+
+/**
+ * Uploads to the user's folder in the private document-exports bucket; the
+ * location is the file's path in that bucket
+ */
+export const createStorageUploadTarget = (userId: string): DeliveryTarget =>
+  createUploadTarget(async file => {
+    const { data, error } = await storage.uploadExport(userId, file);
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Upload failed');
+    }
+    return data.path;
+  });
+
+/**
+ * Where exports go unless the user picks: a download on web, the gallery for
+ * pictures, the share sheet for documents on iOS and a picked folder for
+ * documents on Android, whose share sheet cannot attach files
+ */
+export const getDefaultDeliveryTarget = (mimeType: string): DeliveryTarget => {
+  if (Platform.OS === 'web') return downloadTarget;
+  if (isMedia(mimeType)) return filesTarget;
+  return Platform.OS === 'ios' ? shareTarget : filesTarget;
+};
@@ -1,148 +1,74 @@
-import { Platform, Alert, Share } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import * as MediaLibrary from 'expo-media-library';
+import { Alert } from 'react-native';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions } from '@/lib/exportFormats';
+import { DeliveryTarget, ExportResult, exportFile } from '@/lib/exportService';
+import { getDefaultDeliveryTarget } from '@/lib/exportTargets';
 
-export interface ExportOptions {
-  text: string;
-  format: 'txt' | 'doc' | 'html';
-  includeFormatting?: boolean;
-  fileName?: string;
-}
+export type { ExportFormat, ExportOptions } from '@/lib/exportFormats';
 
-export const exportDocument = async (options: ExportOptions): Promise<void> => {
-  const { text, format, fileName } = options;
-  const timestamp = Date.now();
-  const defaultFileName = fileName || `scanned-document-${timestamp}`;
-  
-  try {
-    let content: string;
-    let mimeType: string;
-    let fileExtension: string;
-    
-    switch (format) {
-      case 'txt':
-        content = text;
-        mimeType = 'text/plain';
-        fileExtension = 'txt';
-        break;
-        
-      case 'doc':
-        // Create RTF content (Rich Text Format) which can be opened by Word
-        content = createRTFContent(text);
-        mimeType = 'application/rtf';
-        fileExtension = 'rtf';
-        break;
-        
-      case 'html':
-        content = createHTMLContent(text);
-        mimeType = 'text/html';
-        fileExtension = 'html';
-        break;
-        
-      default:
-        throw new Error(`Unsupported format: ${format}`);
-    }
-    
-    const fullFileName = `${defaultFileName}.${fileExtension}`;
-    
-    if (Platform.OS === 'web') {
-      // For web, create and download file
-      const blob = new Blob([content], { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = fullFileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
-      const formatName = format === 'doc' ? 'RTF (Word)' : format.toUpperCase();
-      Alert.alert('Success', `Document exported as ${formatName} file!`);
-    } else {
-      // For mobile, save file
-      const fileUri = FileSystem.documentDirectory + fullFileName;
-      await FileSystem.writeAsStringAsync(fileUri, content);
-      
-      if (Platform.OS === 'ios') {
-        await Share.share({ url: fileUri });
-      } else {
-        const { status } = await MediaLibrary.requestPermissionsAsync();
-        if (status === 'granted') {
-          await MediaLibrary.saveToLibraryAsync(fileUri);
-          const formatName = format === 'doc' ? 'RTF (Word)' : format.toUpperCase();
-          Alert.alert('Success', `Document saved as ${formatName} file!`);
-        } else {
-          await Share.share({ url: fileUri });
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error exporting ${format}:`, error);
-    Alert.alert('Error', `Failed to export ${format.toUpperCase()} file. Please try again.`);
-  }
+/**
+ * Export text in one of the registered formats. Delivered to the platform's
+ * default target unless one is given; the outcome is returned, not shown.
+ */
+export const exportDocument = async (
+  options: ExportOptions,
+  target?: DeliveryTarget
+): Promise<ExportResult> => {
+  const exporter = EXPORT_FORMATS[options.format];
+  const fileName = options.fileName || `scanned-document-${Date.now()}`;
+  return exportFile({
+    encoder: exporter,
+    input: options,
+    fileName,
+    target: target ?? getDefaultDeliveryTarget(exporter.mimeType),
+  });
 };
 
-const createRTFContent = (text: string): string => {
-  // Create RTF content (Rich Text Format) which can be opened by Word
-  let rtfContent = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}\\f0\\fs24 ';
-  
-  // Process text and convert line breaks
-  const processedText = text.replace(/\n/g, '\\par ');
-  rtfContent += processedText;
-  rtfContent += '}';
-  
-  return rtfContent;
+const DELIVERED_MESSAGES: Record<ExportResult['target'], string> = {
+  download: 'exported as',
+  share: 'shared as',
+  files: 'saved as',
+  upload: 'uploaded as',
 };
 
-const createHTMLContent = (text: string): string => {
-  const htmlText = text.replace(/\n/g, '<br>');
-  
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1">
-      <title>Scanned Document</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          margin: 40px;
-          line-height: 1.6;
-          color: #333;
-        }
-        .content {
-          white-space: pre-wrap;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="content">${htmlText}</div>
-    </body>
-    </html>
-  `;
+/**
+ * Tell the user how an export went. The share sheet is feedback enough, so
+ * shares and cancellations are not announced.
+ */
+export const alertExportResult = (result: ExportResult, label: string): void => {
+  if (result.status === 'failed') {
+    Alert.alert('Error', `Failed to export ${label} file. Please try again.`);
+  } else if (result.status === 'delivered' && result.target !== 'share') {
+    Alert.alert('Success', `Document ${DELIVERED_MESSAGES[result.target]} ${label} file!`);
+  }
 };
 
-export const showExportOptions = (text: string, fileName?: string): void => {
-  Alert.alert(
-    'Export Document',
-    'Choose export format:',
-    [
-      { 
-        text: 'TXT (Plain Text)', 
-        onPress: () => exportDocument({ text, format: 'txt', fileName }) 
-      },
-      { 
-        text: 'DOC (Word Format)', 
-        onPress: () => exportDocument({ text, format: 'doc', fileName }) 
-      },
-      { 
-        text: 'HTML (Web Format)', 
-        onPress: () => exportDocument({ text, format: 'html', fileName }) 
-      },
-      { text: 'Cancel', style: 'cancel' },
-    ],
-    { cancelable: true }
-  );
-};
\ No newline at end of file
+/** One choice in the export menu */
+export interface ExportMenuEntry {
+  key: string;
+  label: string;
+  onPress: () => void;
+}
+
+/**
+ * The export menu, one entry per registered format plus the page image
+ * variants when there are pages to embed. Each entry exports and reports how
+ * it went.
+ */
+export const getExportMenuEntries = (options: Omit<ExportOptions, 'format'>): ExportMenuEntry[] => {
+  // Page images only go into the variants that offer them
+  const { imageUris, ...rest } = options;
+  const hasPageImages = !!imageUris && imageUris.length > 0;
+  return (Object.keys(EXPORT_FORMATS) as ExportFormat[]).flatMap(format => {
+    const { label, pageImagesLabel, extension } = EXPORT_FORMATS[format];
+    const exportAndReport = async (exportOptions: ExportOptions) =>
+      alertExportResult(await exportDocument(exportOptions), extension.toUpperCase());
+    return [
+      { key: format, label, onPress: () => exportAndReport({ ...rest, format }) },
+      ...(pageImagesLabel && hasPageImages ? [{
+        key: `${format}-page-images`,
+        label: pageImagesLabel,
+        onPress: () => exportAndReport({ ...rest, format, imageUris }),
+      }] : []),
+    ];
+  });
+};
@@ -0,0 +1,547 @@
+// Pixel filters for document images. Everything here is a pure function over
+// decoded pixels, with no React Native imports, so it runs anywhere JS does.
+
+// Decoded pixels, four bytes (RGBA) per pixel, row by row
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// One luminance byte per pixel
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface BinarizationOptions {
+  // Half the side of the neighbourhood each threshold is computed over
+  windowRadius?: number;
+  // How far below the local mean text must be; higher keeps less ink
+  k?: number;
+}
+
+export interface UnsharpMaskOptions {
+  amount?: number;
+  // Differences smaller than this are left alone, so paper grain is not sharpened
+  threshold?: number;
+}
+
+// Sauvola's dynamic range of the standard deviation for 8-bit images
+const SAUVOLA_R = 128;
+const DEFAULT_SAUVOLA_K = 0.2;
+
+// Near-white, colourless pixels that count as specular highlights
+const GLARE_MIN_LUMINANCE = 235;
+const GLARE_MAX_CHROMA = 24;
+// Highlights must stand this far above the paper around them, so evenly
+// bright paper is never mistaken for glare
+const GLARE_MIN_CONTRAST = 24;
+// Pixels this far below the paper are ink; they are never filled over
+const GLARE_STROKE_CONTRAST = 48;
+// The paper behind a pixel is the median over this many blocks each way, so a
+// spot has to be large before it shifts its own background
+const GLARE_BACKGROUND_RADIUS = 3;
+// Above this share of the image the photo is overexposed, not glared
+const GLARE_MAX_COVERAGE = 0.25;
+
+// Keeps deep shadows from amplifying sensor noise when divided out
+const MIN_BACKGROUND = 24;
+
+/**
+ * Convert to luminance using the Rec. 601 weights
+ */
+export const toGrayscale = (image: RGBAImage): GrayImage => {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return { width, height, data: gray };
+};
+
+/**
+ * Drop colour but keep the RGBA layout, so other filters can follow
+ */
+export const desaturate = (image: RGBAImage): RGBAImage => {
+  const { width, height } = image;
+  const gray = toGrayscale(image).data;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    data[p] = gray[i];
+    data[p + 1] = gray[i];
+    data[p + 2] = gray[i];
+    data[p + 3] = image.data[p + 3];
+  }
+  return { width, height, data };
+};
+
+const clampIndex = (value: number, max: number) => (value < 0 ? 0 : value > max ? max : value);
+
+/**
+ * Separable 5-tap binomial blur, an approximation of a Gaussian with sigma ~1.
+ * Edges are extended by repeating the border pixels.
+ */
+export const gaussianBlur = (values: ArrayLike<number>, width: number, height: number): Float32Array => {
+  const kernel = [1, 4, 6, 4, 1];
+  const horizontal = new Float32Array(width * height);
+  const blurred = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += kernel[k + 2] * values[y * width + clampIndex(x + k, width - 1)];
+      }
+      horizontal[y * width + x] = sum / 16;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += kernel[k + 2] * horizontal[clampIndex(y + k, height - 1) * width + x];
+      }
+      blurred[y * width + x] = sum / 16;
+    }
+  }
+  return blurred;
+};
+
+// Mean over a (2r+1)^2 window clipped to the image, in O(1) per pixel using
+// running sums along rows and then columns
+const boxMean = (values: ArrayLike<number>, width: number, height: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(width * height);
+  const mean = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += values[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += values[row + x + radius];
+      if (x - radius - 1 >= 0) sum -= values[row + x - radius - 1];
+      horizontal[row + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) sum += horizontal[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += horizontal[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) sum -= horizontal[(y - radius - 1) * width + x];
+      mean[y * width + x] = sum / (Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1);
+    }
+  }
+  return mean;
+};
+
+/**
+ * Sauvola adaptive thresholding for a black and white document. Each pixel is
+ * compared with a threshold from its neighbourhood's mean and standard
+ * deviation, so uneven lighting does not swallow text the way one global
+ * threshold would.
+ */
+export const binarize = (image: RGBAImage, options: BinarizationOptions = {}): RGBAImage => {
+  const { width, height } = image;
+  const gray = toGrayscale(image).data;
+  // About a line of body text at typical scan resolutions
+  const radius = options.windowRadius ?? Math.max(7, Math.round(Math.min(width, height) / 80));
+  const k = options.k ?? DEFAULT_SAUVOLA_K;
+
+  const squares = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    squares[i] = gray[i] * gray[i];
+  }
+  const mean = boxMean(gray, width, height, radius);
+  const meanOfSquares = boxMean(squares, width, height, radius);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    const deviation = Math.sqrt(Math.max(0, meanOfSquares[i] - mean[i] * mean[i]));
+    const threshold = mean[i] * (1 + k * (deviation / SAUVOLA_R - 1));
+    const value = gray[i] > threshold ? 255 : 0;
+    data[p] = value;
+    data[p + 1] = value;
+    data[p + 2] = value;
+    data[p + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+/**
+ * Even out shadows and uneven lighting. The paper colour is estimated per
+ * channel as the brightest value in coarse blocks (text is dark, so it drops
+ * out), smoothed, and divided out so the page comes out uniformly white.
+ */
+export const removeShadows = (image: RGBAImage): RGBAImage => {
+  const { width, height, data: source } = image;
+  // Blocks must be larger than text strokes but small enough to follow a shadow
+  const blockSize = Math.max(8, Math.round(Math.min(width, height) / 32));
+  const gridWidth = Math.ceil(width / blockSize);
+  const gridHeight = Math.ceil(height / blockSize);
+  const data = new Uint8ClampedArray(source.length);
+
+  for (let channel = 0; channel < 3; channel++) {
+    const blockMax = new Float32Array(gridWidth * gridHeight);
+    for (let y = 0; y < height; y++) {
+      const gy = Math.floor(y / blockSize);
+      for (let x = 0; x < width; x++) {
+        const cell = gy * gridWidth + Math.floor(x / blockSize);
+        const value = source[(y * width + x) * 4 + channel];
+        if (value > blockMax[cell]) blockMax[cell] = value;
+      }
+    }
+
+    // Widen by one block so large dark areas (headings, photos) borrow the
+    // paper around them, then smooth the block seams
+    const widened = new Float32Array(blockMax.length);
+    for (let gy = 0; gy < gridHeight; gy++) {
+      for (let gx = 0; gx < gridWidth; gx++) {
+        let max = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const value =
+              blockMax[clampIndex(gy + dy, gridHeight - 1) * gridWidth + clampIndex(gx + dx, gridWidth - 1)];
+            if (value > max) max = value;
+          }
+        }
+        widened[gy * gridWidth + gx] = max;
+      }
+    }
+    const background = gaussianBlur(widened, gridWidth, gridHeight);
+
+    // Bilinear interpolation between block centres
+    for (let y = 0; y < height; y++) {
+      const fy = clampIndex((y + 0.5) / blockSize - 0.5, gridHeight - 1);
+      const y0 = Math.floor(fy);
+      const y1 = Math.min(gridHeight - 1, y0 + 1);
+      const wy = fy - y0;
+      for (let x = 0; x < width; x++) {
+        const fx = clampIndex((x + 0.5) / blockSize - 0.5, gridWidth - 1);
+        const x0 = Math.floor(fx);
+        const x1 = Math.min(gridWidth - 1, x0 + 1);
+        const wx = fx - x0;
+        const top = background[y0 * gridWidth + x0] * (1 - wx) + background[y0 * gridWidth + x1] * wx;
+        const bottom = background[y1 * gridWidth + x0] * (1 - wx) + background[y1 * gridWidth + x1] * wx;
+        const paper = Math.max(MIN_BACKGROUND, top * (1 - wy) + bottom * wy);
+
+        const p = (y * width + x) * 4 + channel;
+        data[p] = (source[p] * 255) / paper;
+      }
+    }
+  }
+
+  for (let p = 3; p < data.length; p += 4) {
+    data[p] = source[p];
+  }
+  return { width, height, data };
+};
+
+// Paper brightness behind each pixel: the median luminance of coarse blocks
+// (text is a minority, so it drops out), then the median of the blocks
+// around each one, so a glare spot does not count as its own background
+const estimatePaper = (gray: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const blockSize = Math.max(8, Math.round(Math.min(width, height) / 32));
+  const gridWidth = Math.ceil(width / blockSize);
+  const gridHeight = Math.ceil(height / blockSize);
+
+  const histograms = new Uint32Array(gridWidth * gridHeight * 256);
+  const counts = new Uint32Array(gridWidth * gridHeight);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.floor(y / blockSize);
+    for (let x = 0; x < width; x++) {
+      const cell = gy * gridWidth + Math.floor(x / blockSize);
+      histograms[cell * 256 + gray[y * width + x]]++;
+      counts[cell]++;
+    }
+  }
+  const blockMedian = new Float32Array(gridWidth * gridHeight);
+  for (let cell = 0; cell < blockMedian.length; cell++) {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histograms[cell * 256 + value];
+      if (seen * 2 >= counts[cell]) {
+        blockMedian[cell] = value;
+        break;
+      }
+    }
+  }
+
+  const paperBlocks = new Float32Array(blockMedian.length);
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const around: number[] = [];
+      for (let dy = -GLARE_BACKGROUND_RADIUS; dy <= GLARE_BACKGROUND_RADIUS; dy++) {
+        for (let dx = -GLARE_BACKGROUND_RADIUS; dx <= GLARE_BACKGROUND_RADIUS; dx++) {
+          const ny = gy + dy;
+          const nx = gx + dx;
+          if (nx >= 0 && ny >= 0 && nx < gridWidth && ny < gridHeight) {
+            around.push(blockMedian[ny * gridWidth + nx]);
+          }
+        }
+      }
+      around.sort((a, b) => a - b);
+      paperBlocks[gy * gridWidth + gx] = around[Math.floor(around.length / 2)];
+    }
+  }
+
+  const paper = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.floor(y / blockSize);
+    for (let x = 0; x < width; x++) {
+      paper[y * width + x] = paperBlocks[gy * gridWidth + Math.floor(x / blockSize)];
+    }
+  }
+  return paper;
+};
+
+/**
+ * Fill specular highlights (colourless spots from a flash or glossy paper
+ * that are clearly brighter than the paper around them) from their
+ * surroundings. The spots are grown by two pixels to cover their halo, then
+ * filled ring by ring from the outside in with the average of already known
+ * paper. Ink is left out of both the mask and the averages, so text in or
+ * next to a spot survives.
+ */
+export const removeGlare = (image: RGBAImage): RGBAImage => {
+  const { width, height, data: source } = image;
+  const size = width * height;
+  const gray = toGrayscale(image).data;
+  const paper = estimatePaper(gray, width, height);
+
+  const highlight = new Uint8Array(size);
+  const stroke = new Uint8Array(size);
+  let highlighted = 0;
+  for (let i = 0, p = 0; i < size; i++, p += 4) {
+    const chroma = Math.max(source[p], source[p + 1], source[p + 2]) - Math.min(source[p], source[p + 1], source[p + 2]);
+    if (gray[i] >= GLARE_MIN_LUMINANCE && gray[i] - paper[i] >= GLARE_MIN_CONTRAST && chroma <= GLARE_MAX_CHROMA) {
+      highlight[i] = 1;
+      highlighted++;
+    } else if (gray[i] <= paper[i] - GLARE_STROKE_CONTRAST) {
+      stroke[i] = 1;
+    }
+  }
+  if (highlighted === 0 || highlighted > size * GLARE_MAX_COVERAGE) {
+    return { width, height, data: new Uint8ClampedArray(source) };
+  }
+
+  // Grow the mask over the halo but not over ink; 1 marks pixels still to be
+  // filled
+  const missing = new Uint8Array(size);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!highlight[y * width + x]) continue;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && !stroke[ny * width + nx]) {
+            missing[ny * width + nx] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(source);
+  const hasKnownNeighbour = (i: number) => {
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && !missing[ny * width + nx]) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  let ring: number[] = [];
+  for (let i = 0; i < size; i++) {
+    if (missing[i] && hasKnownNeighbour(i)) ring.push(i);
+  }
+
+  const queued = new Uint8Array(size);
+  for (const i of ring) queued[i] = 1;
+  while (ring.length > 0) {
+    // Compute the whole ring before marking it known, so the fill does not
+    // smear in scan order. Only known paper is averaged; pixels that so far
+    // touch nothing but ink wait for a later ring.
+    const fills = new Float32Array(ring.length * 3);
+    const filled = new Uint8Array(ring.length);
+    ring.forEach((i, index) => {
+      const x = i % width;
+      const y = (i - x) / width;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (missing[n] || stroke[n]) continue;
+          r += data[n * 4];
+          g += data[n * 4 + 1];
+          b += data[n * 4 + 2];
+          count++;
+        }
+      }
+      if (count === 0) return;
+      filled[index] = 1;
+      fills[index * 3] = r / count;
+      fills[index * 3 + 1] = g / count;
+      fills[index * 3 + 2] = b / count;
+    });
+
+    // Pixels walled in by ink keep their own colour rather than stall the fill
+    const stalled = !filled.includes(1);
+    const next: number[] = [];
+    ring.forEach((i, index) => {
+      if (filled[index]) {
+        data[i * 4] = fills[index * 3];
+        data[i * 4 + 1] = fills[index * 3 + 1];
+        data[i * 4 + 2] = fills[index * 3 + 2];
+        missing[i] = 0;
+      } else if (stalled) {
+        missing[i] = 0;
+      } else {
+        next.push(i);
+      }
+    });
+    for (const i of ring) {
+      if (missing[i]) continue;
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (missing[n] && !queued[n]) {
+            queued[n] = 1;
+            next.push(n);
+          }
+        }
+      }
+    }
+    ring = next;
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Stretch contrast so the darkest and brightest 1% of pixels reach black and
+ * white. The same linear map is applied to every channel to keep colours.
+ */
+export const enhanceContrast = (image: RGBAImage): RGBAImage => {
+  const { width, height, data: source } = image;
+  const gray = toGrayscale(image).data;
+
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]]++;
+  }
+  const percentile = (fraction: number) => {
+    const target = gray.length * fraction;
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= target) return value;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+
+  const data = new Uint8ClampedArray(source);
+  // Nearly flat images (blank pages) would only have their noise amplified
+  if (high - low < 16) {
+    return { width, height, data };
+  }
+
+  const gain = 255 / (high - low);
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] = (source[p] - low) * gain;
+    data[p + 1] = (source[p + 1] - low) * gain;
+    data[p + 2] = (source[p + 2] - low) * gain;
+  }
+  return { width, height, data };
+};
+
+/**
+ * Unsharp mask: add back the difference between the image and a blurred copy,
+ * which steepens the edges of glyphs
+ */
+export const unsharpMask = (image: RGBAImage, options: UnsharpMaskOptions = {}): RGBAImage => {
+  const { width, height, data: source } = image;
+  const amount = options.amount ?? 0.6;
+  const threshold = options.threshold ?? 3;
+  const data = new Uint8ClampedArray(source);
+  const channel = new Float32Array(width * height);
+
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] = source[i * 4 + c];
+    }
+    const blurred = gaussianBlur(channel, width, height);
+    for (let i = 0; i < channel.length; i++) {
+      const detail = channel[i] - blurred[i];
+      if (Math.abs(detail) >= threshold) {
+        data[i * 4 + c] = channel[i] + amount * detail;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+export interface WhiteboardOptions {
+  // How much marker colours are saturated; 1 leaves them as they are
+  saturation?: number;
+}
+
+// After the board is flattened, anything this bright is board and goes white
+const WHITEBOARD_WHITE_POINT = 215;
+// Darkens faint strokes without touching the white board
+const WHITEBOARD_INK_GAMMA = 1.5;
+
+/**
+ * Clean up a photo of a whiteboard: fill glare spots, divide out the uneven
+ * board brightness, push the board to pure white and make marker strokes
+ * darker and more saturated so their colours stay distinguishable.
+ */
+export const enhanceWhiteboard = (image: RGBAImage, options: WhiteboardOptions = {}): RGBAImage => {
+  const saturation = options.saturation ?? 1.8;
+  // Glare spots much larger than a stroke are part of the board estimate
+  // below, so whatever removeGlare leaves is flattened there
+  const flattened = removeShadows(removeGlare(image));
+  const { width, height, data: source } = flattened;
+  const data = new Uint8ClampedArray(source.length);
+
+  const levels = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    const stretched = Math.min(1, value / WHITEBOARD_WHITE_POINT);
+    levels[value] = 255 * Math.pow(stretched, WHITEBOARD_INK_GAMMA);
+  }
+
+  for (let p = 0; p < data.length; p += 4) {
+    const r = levels[source[p]];
+    const g = levels[source[p + 1]];
+    const b = levels[source[p + 2]];
+    const mean = (r + g + b) / 3;
+    data[p] = mean + (r - mean) * saturation;
+    data[p + 1] = mean + (g - mean) * saturation;
+    data[p + 2] = mean + (b - mean) * saturation;
+    data[p + 3] = source[p + 3];
+  }
+  return { width, height, data };
+};
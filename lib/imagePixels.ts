@@ -0,0 +1,183 @@
+import { Platform } from 'react-native';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { RGBAImage } from '@/lib/imageFilters';
+
+export interface LoadedPixels {
+  image: RGBAImage;
+  // Size of the source image, to map coordinates back from a downscaled copy
+  originalWidth: number;
+  originalHeight: number;
+}
+
+/** Decode base64 into raw bytes */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/** Encode raw bytes as base64 */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so String.fromCharCode stays within argument limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Uncompressed 24-bit BMP, bottom-up rows padded to four bytes. Every platform
+// decodes it natively, unlike raw RGBA.
+const encodeBMP = ({ width, height, data }: RGBAImage): Uint8Array => {
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const pixelBytes = rowSize * height;
+  const bytes = new Uint8Array(54 + pixelBytes);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, 0x4d42, true); // 'BM'
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, 54, true); // pixel data offset
+  view.setUint32(14, 40, true); // BITMAPINFOHEADER
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true); // planes
+  view.setUint16(28, 24, true); // bits per pixel
+  view.setUint32(34, pixelBytes, true);
+
+  for (let y = 0; y < height; y++) {
+    let out = 54 + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      bytes[out++] = data[p + 2];
+      bytes[out++] = data[p + 1];
+      bytes[out++] = data[p];
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Decode an image into RGBA pixels, downscaled so its longer side is at most
+ * maxDimension. The image manipulator does the resize natively and re-encodes
+ * to JPEG, which is then decoded in JS.
+ */
+export const loadImagePixels = async (
+  imageUri: string,
+  maxDimension: number
+): Promise<LoadedPixels> => {
+  const imageInfo = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [],
+    { format: ImageManipulator.SaveFormat.JPEG }
+  );
+  const { width: originalWidth, height: originalHeight } = imageInfo;
+
+  const scale = Math.min(1, maxDimension / Math.max(originalWidth, originalHeight));
+  const resized = await ImageManipulator.manipulateAsync(
+    imageInfo.uri,
+    scale < 1 ? [{ resize: { width: Math.round(originalWidth * scale) } }] : [],
+    { base64: true, compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  if (!resized.base64) {
+    throw new Error('Image manipulator returned no pixel data');
+  }
+
+  // useTArray keeps jpeg-js off Node's Buffer, which React Native lacks
+  const decoded = decodeJpeg(base64ToBytes(resized.base64), {
+    useTArray: true,
+    formatAsRGBA: true,
+  });
+
+  return {
+    image: {
+      width: decoded.width,
+      height: decoded.height,
+      data: new Uint8ClampedArray(decoded.data.buffer, decoded.data.byteOffset, decoded.data.length),
+    },
+    originalWidth,
+    originalHeight,
+  };
+};
+
+/** The image file's bytes as base64, exactly as stored */
+export const loadImageBase64 = async (imageUri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(imageUri);
+    return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+  }
+  return FileSystem.readAsStringAsync(imageUri, { encoding: FileSystem.EncodingType.Base64 });
+};
+
+export interface LoadedJpeg {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  // Size of the source image, which placements on it are measured against
+  originalWidth: number;
+  originalHeight: number;
+}
+
+/**
+ * Re-encode an image as JPEG bytes for embedding in a document, downscaled so
+ * its longer side is at most maxDimension.
+ */
+export const loadImageJpeg = async (
+  imageUri: string,
+  maxDimension: number,
+  compress: number = 0.9
+): Promise<LoadedJpeg> => {
+  const original = await ImageManipulator.manipulateAsync(imageUri, []);
+  const scale = Math.min(1, maxDimension / Math.max(original.width, original.height));
+  const encoded = await ImageManipulator.manipulateAsync(
+    original.uri,
+    scale < 1 ? [{ resize: { width: Math.round(original.width * scale) } }] : [],
+    { base64: true, compress, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  if (!encoded.base64) {
+    throw new Error('Image manipulator returned no image data');
+  }
+  return {
+    data: base64ToBytes(encoded.base64),
+    width: encoded.width,
+    height: encoded.height,
+    originalWidth: original.width,
+    originalHeight: original.height,
+  };
+};
+
+/**
+ * Write pixels out as a JPEG and return its URI. jpeg-js's encoder needs Node's
+ * Buffer, so the pixels go through an uncompressed BMP that the image
+ * manipulator decodes and compresses natively.
+ */
+export const saveImagePixels = async (
+  image: RGBAImage,
+  compress: number = 0.9
+): Promise<ImageManipulator.ImageResult> => {
+  const base64 = bytesToBase64(encodeBMP(image));
+
+  if (Platform.OS === 'web') {
+    return ImageManipulator.manipulateAsync(
+      `data:image/bmp;base64,${base64}`,
+      [],
+      { compress, format: ImageManipulator.SaveFormat.JPEG }
+    );
+  }
+
+  const bmpUri = `${FileSystem.cacheDirectory}pixels-${Date.now()}-${Math.random().toString(36).slice(2)}.bmp`;
+  await FileSystem.writeAsStringAsync(bmpUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  try {
+    return await ImageManipulator.manipulateAsync(
+      bmpUri,
+      [],
+      { compress, format: ImageManipulator.SaveFormat.JPEG }
+    );
+  } finally {
+    await FileSystem.deleteAsync(bmpUri, { idempotent: true });
+  }
+};
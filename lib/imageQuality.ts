@@ -0,0 +1,228 @@
+import { RGBAImage, toGrayscale } from '@/lib/imageFilters';
+
+export type QualityIssue =
+  | 'blurry'
+  | 'motion-blur'
+  | 'underexposed'
+  | 'overexposed'
+  | 'low-contrast'
+  | 'low-resolution';
+
+export interface QualityThresholds {
+  // Laplacian variance below this is blurry
+  minSharpness: number;
+  // Gradient anisotropy (0 = same in every direction, 1 = one direction only)
+  maxMotionBlur: number;
+  minMeanLuminance: number;
+  maxMeanLuminance: number;
+  // Share of pixels allowed to be crushed to black / blown out to white
+  maxShadowClipping: number;
+  maxHighlightClipping: number;
+  // Spread between the 1st and 99th luminance percentiles
+  minDynamicRange: number;
+  minDpi: number;
+}
+
+export interface ExposureStats {
+  meanLuminance: number;
+  shadowClipping: number;
+  highlightClipping: number;
+  dynamicRange: number;
+}
+
+export interface QualityReport {
+  sharpness: number;
+  motionBlur: number;
+  // Direction of the blur streaks in degrees, 0 = horizontal
+  motionBlurAngle: number;
+  exposure: ExposureStats;
+  // null when the page size could not be measured
+  estimatedDpi: number | null;
+  issues: QualityIssue[];
+  isAcceptable: boolean;
+}
+
+export interface QualityAnalysisOptions {
+  // Longer and shorter side of the detected page, in pixels of the full image
+  pageSizePx?: { long: number; short: number } | null;
+  thresholds?: Partial<QualityThresholds>;
+}
+
+// Tuned for images around 640px on the longer side; sharpness depends on scale
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minSharpness: 100,
+  maxMotionBlur: 0.5,
+  minMeanLuminance: 60,
+  maxMeanLuminance: 235,
+  maxShadowClipping: 0.3,
+  maxHighlightClipping: 0.4,
+  minDynamicRange: 60,
+  minDpi: 150,
+};
+
+const SHADOW_CLIP_LEVEL = 5;
+const HIGHLIGHT_CLIP_LEVEL = 250;
+
+// Common paper sizes as long x short side in inches
+const PAPER_SIZES = [
+  { long: 11.69, short: 8.27 }, // A4
+  { long: 11, short: 8.5 }, // Letter
+  { long: 14, short: 8.5 }, // Legal
+  { long: 8.27, short: 5.83 }, // A5
+];
+
+/**
+ * Variance of the Laplacian. Sharp edges give a wide spread of second
+ * derivatives; blur flattens them towards zero.
+ */
+export const measureSharpness = (gray: Uint8ClampedArray, width: number, height: number): number => {
+  let sum = 0;
+  let squares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      squares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return squares / count - mean * mean;
+};
+
+/**
+ * Motion blur smears edges along the direction of movement, so gradient
+ * energy piles up perpendicular to it. Returns the anisotropy of the gradient
+ * structure tensor and the direction of the streaks.
+ */
+export const measureMotionBlur = (
+  gray: Uint8ClampedArray,
+  width: number,
+  height: number
+): { score: number; angle: number } => {
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = gray[i + 1] - gray[i - 1];
+      const gy = gray[i + width] - gray[i - width];
+      xx += gx * gx;
+      yy += gy * gy;
+      xy += gx * gy;
+    }
+  }
+
+  const trace = xx + yy;
+  if (trace === 0) return { score: 0, angle: 0 };
+  const spread = Math.sqrt((xx - yy) * (xx - yy) + 4 * xy * xy);
+  // Dominant gradient direction; the streaks run across it
+  const gradientAngle = (Math.atan2(2 * xy, xx - yy) * 90) / Math.PI;
+  return { score: spread / trace, angle: Math.round(gradientAngle + 90) % 180 };
+};
+
+export const measureExposure = (gray: Uint8ClampedArray): ExposureStats => {
+  const histogram = new Uint32Array(256);
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]]++;
+    sum += gray[i];
+  }
+
+  const percentile = (fraction: number) => {
+    const target = gray.length * fraction;
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= target) return value;
+    }
+    return 255;
+  };
+
+  let shadows = 0;
+  for (let value = 0; value <= SHADOW_CLIP_LEVEL; value++) shadows += histogram[value];
+  let highlights = 0;
+  for (let value = HIGHLIGHT_CLIP_LEVEL; value < 256; value++) highlights += histogram[value];
+
+  const total = Math.max(1, gray.length);
+  return {
+    meanLuminance: sum / total,
+    shadowClipping: shadows / total,
+    highlightClipping: highlights / total,
+    dynamicRange: percentile(0.99) - percentile(0.01),
+  };
+};
+
+/**
+ * Resolution of the page in dots per inch, assuming it is whichever common
+ * paper size its proportions match best
+ */
+export const estimateDpi = (pageSizePx: { long: number; short: number }): number | null => {
+  if (pageSizePx.short <= 0) return null;
+  const aspect = pageSizePx.long / pageSizePx.short;
+  let paper = PAPER_SIZES[0];
+  for (const size of PAPER_SIZES) {
+    if (Math.abs(size.long / size.short - aspect) < Math.abs(paper.long / paper.short - aspect)) {
+      paper = size;
+    }
+  }
+  return Math.round(pageSizePx.long / paper.long);
+};
+
+/**
+ * Score how usable an image is for OCR: focus, motion blur, exposure and
+ * resolution, each checked against a threshold. Pass an image of about 640px
+ * on the longer side for the default sharpness threshold to apply.
+ */
+export const analyzeImageQuality = (
+  image: RGBAImage,
+  options: QualityAnalysisOptions = {}
+): QualityReport => {
+  const thresholds = { ...DEFAULT_QUALITY_THRESHOLDS, ...options.thresholds };
+  const { width, height, data: gray } = toGrayscale(image);
+
+  const sharpness = measureSharpness(gray, width, height);
+  const motionBlur = measureMotionBlur(gray, width, height);
+  const exposure = measureExposure(gray);
+  const estimatedDpi = options.pageSizePx ? estimateDpi(options.pageSizePx) : null;
+
+  const issues: QualityIssue[] = [];
+  if (sharpness < thresholds.minSharpness) {
+    issues.push('blurry');
+  }
+  if (motionBlur.score > thresholds.maxMotionBlur) {
+    issues.push('motion-blur');
+  }
+  if (
+    exposure.meanLuminance < thresholds.minMeanLuminance ||
+    exposure.shadowClipping > thresholds.maxShadowClipping
+  ) {
+    issues.push('underexposed');
+  }
+  if (
+    exposure.meanLuminance > thresholds.maxMeanLuminance ||
+    exposure.highlightClipping > thresholds.maxHighlightClipping
+  ) {
+    issues.push('overexposed');
+  }
+  if (exposure.dynamicRange < thresholds.minDynamicRange) {
+    issues.push('low-contrast');
+  }
+  if (estimatedDpi !== null && estimatedDpi < thresholds.minDpi) {
+    issues.push('low-resolution');
+  }
+
+  return {
+    sharpness: Math.round(sharpness),
+    motionBlur: Math.round(motionBlur.score * 100) / 100,
+    motionBlurAngle: motionBlur.angle,
+    exposure,
+    estimatedDpi,
+    issues,
+    isAcceptable: issues.length === 0,
+  };
+};
@@ -0,0 +1,129 @@
+// Markdown export: headings and lists are inferred from the OCR layout where
+// there is one, and from the shape of the text where there is not. Pure
+// TypeScript with no React Native imports.
+import { DocumentPage, OCRLayout, OCRLine } from '@/types/scan';
+
+// Lines this much taller than the page's typical line are headings
+const HEADING_1_SCALE = 1.6;
+const HEADING_2_SCALE = 1.25;
+// Longer lines are body text whatever their size or case
+const MAX_HEADING_LENGTH = 80;
+
+const BULLET_ITEM = /^\s*[•·▪◦●‣\-*–]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d{1,3})[.)]\s+(.*)$/;
+
+/**
+ * Escape characters Markdown would read as formatting, including markers at
+ * the start of a line that would turn it into a heading, list or quote
+ */
+export const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/([\\`*_[\]<>|])/g, '\\$1')
+    .replace(/^(\s*)([#+\-=>])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(\s)/, '$1\\$2$3');
+
+// A list item as Markdown, or null for other lines
+const listItem = (line: string): string | null => {
+  const bullet = line.match(BULLET_ITEM);
+  if (bullet) return `- ${escapeMarkdown(bullet[1].trim())}`;
+  const numbered = line.match(NUMBERED_ITEM);
+  if (numbered) return `${numbered[1]}. ${escapeMarkdown(numbered[2].trim())}`;
+  return null;
+};
+
+// Short lines in capitals with no closing punctuation read as headings
+const looksLikeHeading = (line: string): boolean => {
+  const text = line.trim();
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  return (
+    text.length <= MAX_HEADING_LENGTH &&
+    letters.length >= 2 &&
+    letters === letters.toUpperCase() &&
+    letters !== letters.toLowerCase() &&
+    !/[.,;:]$/.test(text)
+  );
+};
+
+// Group lines into Markdown blocks: consecutive list items form one list, and
+// consecutive plain lines one paragraph with their line breaks kept
+const linesToBlocks = (lines: { text: string; heading: 0 | 1 | 2 }[]): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let currentIsList = false;
+  const flush = () => {
+    if (current.length > 0) blocks.push(current.join(currentIsList ? '\n' : '  \n'));
+    current = [];
+  };
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) {
+      flush();
+      continue;
+    }
+    if (line.heading > 0) {
+      flush();
+      blocks.push(`${'#'.repeat(line.heading)} ${escapeMarkdown(text)}`);
+      continue;
+    }
+    const item = listItem(text);
+    if ((item !== null) !== currentIsList) flush();
+    currentIsList = item !== null;
+    current.push(item ?? escapeMarkdown(text));
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Markdown for plain text: capitalised short lines become headings, bulleted
+ * and numbered lines become lists, and blank lines separate paragraphs
+ */
+export const textToMarkdown = (text: string): string =>
+  linesToBlocks(
+    text.split('\n').map(line => ({
+      text: line,
+      heading: looksLikeHeading(line) && !listItem(line) ? 2 : 0,
+    }))
+  ).join('\n\n');
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+/**
+ * Markdown for an OCR layout: each block is a paragraph, lines set noticeably
+ * larger than the page's body text are headings, and bulleted or numbered
+ * lines are lists
+ */
+export const layoutToMarkdown = (layout: OCRLayout): string => {
+  const allLines: OCRLine[] = layout.blocks.flatMap(block => block.lines);
+  const bodyHeight = median(allLines.map(line => line.bbox.height));
+
+  const lines: { text: string; heading: 0 | 1 | 2 }[] = [];
+  for (const block of layout.blocks) {
+    for (const line of block.lines) {
+      const scale = bodyHeight > 0 ? line.bbox.height / bodyHeight : 1;
+      const short = line.text.trim().length <= MAX_HEADING_LENGTH && !listItem(line.text);
+      const heading = short && scale >= HEADING_1_SCALE ? 1 : short && scale >= HEADING_2_SCALE ? 2 : 0;
+      lines.push({ text: line.text, heading });
+    }
+    // Blocks are paragraphs of their own
+    lines.push({ text: '', heading: 0 });
+  }
+  return linesToBlocks(lines).join('\n\n');
+};
+
+/**
+ * Markdown for a scanned document, page by page with a rule between pages.
+ * Pages with an OCR layout use it; others fall back to their plain text.
+ */
+export const createMarkdown = (pages: DocumentPage[], title?: string): string => {
+  const sections = [...pages]
+    .sort((a, b) => a.order - b.order)
+    .map(page => page.ocrLayout ? layoutToMarkdown(page.ocrLayout) : textToMarkdown(page.extractedText ?? ''))
+    .filter(section => section.trim());
+  const heading = title ? `# ${escapeMarkdown(title)}\n\n` : '';
+  return `${heading}${sections.join('\n\n---\n\n')}\n`;
+};
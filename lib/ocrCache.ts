@@ -0,0 +1,227 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OCRLayout } from '@/types/scan';
+
+const CACHE_INDEX_KEY = '@ocr_cache_index';
+const CACHE_ENTRY_PREFIX = '@ocr_cache:';
+const CACHE_PROVIDERS_KEY = '@ocr_cache_providers';
+
+// Bump when results from earlier app versions should no longer be served, e.g.
+// after a change to how text or layouts are produced
+const CACHE_KEY_VERSION = 2;
+
+export interface OCRCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CachedOCRResult {
+  text: string;
+  layout?: OCRLayout;
+  provider: string;
+  createdAt: number;
+}
+
+interface CacheIndexEntry {
+  size: number;
+  lastAccess: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: OCRCacheOptions = {
+  maxEntries: 200,
+  maxBytes: 5 * 1024 * 1024,
+};
+
+// Two independently seeded 53-bit string hashes (cyrb53). Not cryptographic,
+// but collisions between page images are vanishingly unlikely and it runs
+// fast on multi-megabyte base64 strings in JS.
+const cyrb53 = (input: string, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export function hashImageContent(base64Data: string): string {
+  return `${cyrb53(base64Data, 1)}${cyrb53(base64Data, 2)}${base64Data.length.toString(36)}`;
+}
+
+/**
+ * Cache key for one image read by one engine. The provider is part of it, so
+ * switching the server to another OCR provider stops old results being served.
+ */
+export function getOCRCacheKey(
+  contentHash: string,
+  languages: readonly string[],
+  engine: string,
+  provider: string
+): string {
+  const language = languages.length > 0 ? languages.join('+') : 'auto';
+  return `v${CACHE_KEY_VERSION}:${contentHash}:${language}:${engine}:${provider}`;
+}
+
+// Persistent LRU cache of OCR results keyed by image content, language,
+// engine and provider. The index (sizes and access times) is kept in memory
+// and mirrored to AsyncStorage; each result is stored under its own key.
+export class OCRResultCache {
+  private index: Map<string, CacheIndexEntry> | null = null;
+  private loading: Promise<Map<string, CacheIndexEntry>> | null = null;
+  private providers: Promise<Record<string, string>> | null = null;
+  private options: OCRCacheOptions;
+
+  constructor(options: Partial<OCRCacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  private async loadIndex(): Promise<Map<string, CacheIndexEntry>> {
+    if (this.index) return this.index;
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(CACHE_INDEX_KEY);
+          this.index = new Map(stored ? Object.entries(JSON.parse(stored)) : []);
+        } catch (error) {
+          console.error('Error loading OCR cache index:', error);
+          this.index = new Map();
+        }
+        return this.index;
+      })();
+    }
+    return this.loading;
+  }
+
+  private async saveIndex(index: Map<string, CacheIndexEntry>) {
+    try {
+      await AsyncStorage.setItem(CACHE_INDEX_KEY, JSON.stringify(Object.fromEntries(index)));
+    } catch (error) {
+      console.error('Error saving OCR cache index:', error);
+    }
+  }
+
+  private getTotalBytes(index: Map<string, CacheIndexEntry>): number {
+    let total = 0;
+    index.forEach(entry => {
+      total += entry.size;
+    });
+    return total;
+  }
+
+  // Drops least recently used entries until both limits are satisfied
+  private async evict(index: Map<string, CacheIndexEntry>) {
+    const { maxEntries, maxBytes } = this.options;
+    const byAge = Array.from(index.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    const evicted: string[] = [];
+    let totalBytes = this.getTotalBytes(index);
+
+    while (byAge.length > 0 && (index.size > maxEntries || totalBytes > maxBytes)) {
+      const [key, entry] = byAge.shift()!;
+      index.delete(key);
+      totalBytes -= entry.size;
+      evicted.push(key);
+    }
+
+    if (evicted.length > 0) {
+      console.log(`🧹 Evicted ${evicted.length} OCR cache entries`);
+      await AsyncStorage.multiRemove(evicted.map(key => CACHE_ENTRY_PREFIX + key));
+    }
+  }
+
+  private loadProviders(): Promise<Record<string, string>> {
+    if (!this.providers) {
+      this.providers = AsyncStorage.getItem(CACHE_PROVIDERS_KEY)
+        .then(stored => (stored ? JSON.parse(stored) : {}))
+        .catch(error => {
+          console.error('Error loading OCR cache providers:', error);
+          return {};
+        });
+    }
+    return this.providers;
+  }
+
+  /**
+   * The provider that last answered for an engine. The app can't know which
+   * provider the server uses until it answers, so lookups key on this.
+   */
+  async getProvider(engine: string): Promise<string | null> {
+    const providers = await this.loadProviders();
+    return providers[engine] ?? null;
+  }
+
+  async setProvider(engine: string, provider: string): Promise<void> {
+    const providers = await this.loadProviders();
+    if (providers[engine] === provider) return;
+
+    providers[engine] = provider;
+    try {
+      await AsyncStorage.setItem(CACHE_PROVIDERS_KEY, JSON.stringify(providers));
+    } catch (error) {
+      console.error('Error saving OCR cache providers:', error);
+    }
+  }
+
+  async get(key: string): Promise<CachedOCRResult | null> {
+    const index = await this.loadIndex();
+    const entry = index.get(key);
+    if (!entry) return null;
+
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_ENTRY_PREFIX + key);
+      if (!stored) {
+        index.delete(key);
+        await this.saveIndex(index);
+        return null;
+      }
+
+      entry.lastAccess = Date.now();
+      await this.saveIndex(index);
+      return JSON.parse(stored) as CachedOCRResult;
+    } catch (error) {
+      console.error('Error reading OCR cache entry:', error);
+      return null;
+    }
+  }
+
+  async set(key: string, result: Omit<CachedOCRResult, 'createdAt'>): Promise<void> {
+    const index = await this.loadIndex();
+    const serialized = JSON.stringify({ ...result, createdAt: Date.now() });
+
+    // A single result larger than the whole budget is not worth caching
+    if (serialized.length > this.options.maxBytes) return;
+
+    try {
+      await AsyncStorage.setItem(CACHE_ENTRY_PREFIX + key, serialized);
+      index.set(key, { size: serialized.length, lastAccess: Date.now() });
+      await this.evict(index);
+      await this.saveIndex(index);
+    } catch (error) {
+      console.error('Error writing OCR cache entry:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    try {
+      await AsyncStorage.multiRemove([
+        CACHE_INDEX_KEY,
+        CACHE_PROVIDERS_KEY,
+        ...Array.from(index.keys()).map(key => CACHE_ENTRY_PREFIX + key),
+      ]);
+    } catch (error) {
+      console.error('Error clearing OCR cache:', error);
+    }
+    index.clear();
+    this.providers = null;
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const index = await this.loadIndex();
+    return { entries: index.size, bytes: this.getTotalBytes(index) };
+  }
+}
+
+export const ocrResultCache = new OCRResultCache();
@@ -0,0 +1,57 @@
+import { trpcClient } from '@/lib/trpc';
+import { OCRLanguageCode } from '@/lib/ocrLanguages';
+import { OCRLayout } from '@/types/scan';
+
+export type OCRImageKind = 'document' | 'id-card-front' | 'id-card-back';
+
+export interface RemoteOCRRequest {
+  imageUri: string;
+  // Empty means auto-detect
+  languages: OCRLanguageCode[];
+  kind?: OCRImageKind;
+  signal?: AbortSignal;
+}
+
+export interface RemoteOCRResponse {
+  text: string;
+  layout?: OCRLayout;
+  provider: string;
+  attempts: number;
+  durationMs: number;
+}
+
+// Reads a local/file/blob URI into base64 (without the data: prefix)
+export async function imageUriToBase64(imageUri: string): Promise<string> {
+  const response = await fetch(imageUri);
+  const blob = await response.blob();
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Sends an image to the backend `ocr.extract` route, which owns the provider,
+// API keys, timeouts and retries.
+export async function extractTextRemote({
+  imageUri,
+  languages,
+  kind = 'document',
+  signal,
+}: RemoteOCRRequest): Promise<RemoteOCRResponse> {
+  const base64Data = await imageUriToBase64(imageUri);
+
+  return trpcClient.ocr.extract.mutate(
+    {
+      image: { source: 'base64', data: base64Data, mimeType: 'image/jpeg' },
+      languages,
+      kind,
+    },
+    { signal }
+  );
+}
@@ -0,0 +1,80 @@
+import { Platform } from 'react-native';
+import { TRPCClientError } from '@trpc/client';
+import { extractTextRemote } from '@/lib/ocrClient';
+import { extractTextOnDevice, isOnDeviceOCRAvailable } from '@/lib/onDeviceOcr';
+import { OCRLanguageCode } from '@/lib/ocrLanguages';
+import { OCRLayout } from '@/types/scan';
+
+// Which engine produced a result
+export type OCREngineKind = 'cloud' | 'on-device';
+
+// 'auto' uses the cloud and falls back to the device when offline
+export type OCREngineMode = 'auto' | 'on-device';
+
+export interface OCREngineRequest {
+  imageUri: string;
+  languages: OCRLanguageCode[];
+  mode: OCREngineMode;
+  signal: AbortSignal;
+}
+
+export interface OCREngineResponse {
+  text: string;
+  layout?: OCRLayout;
+  engine: OCREngineKind;
+  provider: string;
+}
+
+// Performs one OCR attempt. The default picks cloud or on-device per request;
+// tests can pass a fake to drive the manager deterministically.
+export type OCREngine = (request: OCREngineRequest) => Promise<OCREngineResponse>;
+
+// The request never got a response: no signal, DNS failure, timeout
+export function isConnectionError(error: unknown): boolean {
+  if (error instanceof TRPCClientError) {
+    return error.data?.httpStatus === undefined;
+  }
+  return error instanceof TypeError; // fetch network failure
+}
+
+// Only the browser tells us up front; native builds find out from a failed request
+export function isKnownOffline(): boolean {
+  return Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// The engine a mode tries first, used to key cached results
+export function getPreferredEngine(mode: OCREngineMode): OCREngineKind {
+  return mode === 'on-device' ? 'on-device' : 'cloud';
+}
+
+export const cloudOCREngine: OCREngine = async ({ imageUri, languages, signal }) => {
+  const { text, layout, provider } = await extractTextRemote({ imageUri, languages, signal });
+  return { text, layout, provider, engine: 'cloud' };
+};
+
+export const onDeviceOCREngine: OCREngine = async ({ imageUri, languages, signal }) => {
+  const { text, layout } = await extractTextOnDevice({ imageUri, languages, signal });
+  return { text, layout, provider: 'tesseract', engine: 'on-device' };
+};
+
+export const defaultOCREngine: OCREngine = async request => {
+  if (request.mode === 'on-device') {
+    return onDeviceOCREngine(request);
+  }
+
+  const canFallBack = isOnDeviceOCRAvailable();
+  if (canFallBack && isKnownOffline()) {
+    console.log('📴 Offline, using on-device OCR');
+    return onDeviceOCREngine(request);
+  }
+
+  try {
+    return await cloudOCREngine(request);
+  } catch (error) {
+    if (request.signal.aborted || !canFallBack || !isConnectionError(error)) {
+      throw error;
+    }
+    console.warn('📴 OCR server unreachable, falling back to on-device OCR');
+    return onDeviceOCREngine(request);
+  }
+};
@@ -0,0 +1,132 @@
+// Single source of truth for OCR languages, shared by the app and the backend.
+// Keep this module free of React Native imports so the server can load it.
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type LanguageScript =
+  | 'Latin'
+  | 'Cyrillic'
+  | 'Greek'
+  | 'Arabic'
+  | 'Hebrew'
+  | 'Devanagari'
+  | 'Bengali'
+  | 'Tamil'
+  | 'Thai'
+  | 'Han'
+  | 'Japanese'
+  | 'Hangul';
+
+export interface OCRLanguageDefinition {
+  code: string;
+  name: string;
+  nativeName: string;
+  script: LanguageScript;
+  direction: TextDirection;
+  // Tesseract traineddata name
+  tesseract: string;
+}
+
+export const OCR_LANGUAGE_REGISTRY = [
+  { code: 'en', name: 'English', nativeName: 'English', script: 'Latin', direction: 'ltr', tesseract: 'eng' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', script: 'Latin', direction: 'ltr', tesseract: 'spa' },
+  { code: 'fr', name: 'French', nativeName: 'Français', script: 'Latin', direction: 'ltr', tesseract: 'fra' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', script: 'Latin', direction: 'ltr', tesseract: 'deu' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', script: 'Latin', direction: 'ltr', tesseract: 'ita' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', script: 'Latin', direction: 'ltr', tesseract: 'por' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', script: 'Latin', direction: 'ltr', tesseract: 'nld' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', script: 'Latin', direction: 'ltr', tesseract: 'pol' },
+  { code: 'cs', name: 'Czech', nativeName: 'Čeština', script: 'Latin', direction: 'ltr', tesseract: 'ces' },
+  { code: 'ro', name: 'Romanian', nativeName: 'Română', script: 'Latin', direction: 'ltr', tesseract: 'ron' },
+  { code: 'sv', name: 'Swedish', nativeName: 'Svenska', script: 'Latin', direction: 'ltr', tesseract: 'swe' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', script: 'Latin', direction: 'ltr', tesseract: 'tur' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'Latin', direction: 'ltr', tesseract: 'vie' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', script: 'Latin', direction: 'ltr', tesseract: 'ind' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', script: 'Cyrillic', direction: 'ltr', tesseract: 'rus' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', script: 'Cyrillic', direction: 'ltr', tesseract: 'ukr' },
+  { code: 'bg', name: 'Bulgarian', nativeName: 'Български', script: 'Cyrillic', direction: 'ltr', tesseract: 'bul' },
+  { code: 'sr', name: 'Serbian', nativeName: 'Српски', script: 'Cyrillic', direction: 'ltr', tesseract: 'srp' },
+  { code: 'el', name: 'Greek', nativeName: 'Ελληνικά', script: 'Greek', direction: 'ltr', tesseract: 'ell' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', script: 'Arabic', direction: 'rtl', tesseract: 'ara' },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', script: 'Arabic', direction: 'rtl', tesseract: 'fas' },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', script: 'Arabic', direction: 'rtl', tesseract: 'urd' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', script: 'Hebrew', direction: 'rtl', tesseract: 'heb' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', script: 'Devanagari', direction: 'ltr', tesseract: 'hin' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', script: 'Devanagari', direction: 'ltr', tesseract: 'mar' },
+  { code: 'ne', name: 'Nepali', nativeName: 'नेपाली', script: 'Devanagari', direction: 'ltr', tesseract: 'nep' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', script: 'Bengali', direction: 'ltr', tesseract: 'ben' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', script: 'Tamil', direction: 'ltr', tesseract: 'tam' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', script: 'Thai', direction: 'ltr', tesseract: 'tha' },
+  { code: 'zh-Hans', name: 'Chinese (Simplified)', nativeName: '简体中文', script: 'Han', direction: 'ltr', tesseract: 'chi_sim' },
+  { code: 'zh-Hant', name: 'Chinese (Traditional)', nativeName: '繁體中文', script: 'Han', direction: 'ltr', tesseract: 'chi_tra' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', script: 'Japanese', direction: 'ltr', tesseract: 'jpn' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', script: 'Hangul', direction: 'ltr', tesseract: 'kor' },
+] as const satisfies readonly OCRLanguageDefinition[];
+
+export type OCRLanguageCode = (typeof OCR_LANGUAGE_REGISTRY)[number]['code'];
+
+export const OCR_LANGUAGE_CODES = OCR_LANGUAGE_REGISTRY.map(language => language.code) as [
+  OCRLanguageCode,
+  ...OCRLanguageCode[],
+];
+
+// Each extra language slows recognition and adds to the on-device download
+export const MAX_OCR_LANGUAGES = 3;
+
+// Tesseract cannot detect the language, so auto-detect falls back to these
+const AUTO_DETECT_LANGUAGES: OCRLanguageCode[] = ['en', 'es', 'fr', 'de', 'it', 'pt'];
+
+// Sections of the language picker, in display order
+export const OCR_LANGUAGE_GROUPS: { title: string; scripts: LanguageScript[] }[] = [
+  { title: 'Latin', scripts: ['Latin'] },
+  { title: 'Cyrillic & Greek', scripts: ['Cyrillic', 'Greek'] },
+  { title: 'Arabic & Hebrew', scripts: ['Arabic', 'Hebrew'] },
+  { title: 'South Asian', scripts: ['Devanagari', 'Bengali', 'Tamil'] },
+  { title: 'East & Southeast Asian', scripts: ['Han', 'Japanese', 'Hangul', 'Thai'] },
+];
+
+const registryByCode = new Map<string, OCRLanguageDefinition>(
+  OCR_LANGUAGE_REGISTRY.map(language => [language.code, language])
+);
+
+export function isOCRLanguageCode(code: string): code is OCRLanguageCode {
+  return registryByCode.has(code);
+}
+
+export function getOCRLanguage(code: OCRLanguageCode): OCRLanguageDefinition {
+  return registryByCode.get(code)!;
+}
+
+// An empty selection means auto-detect
+export function formatLanguageSelection(codes: readonly OCRLanguageCode[], native = false): string {
+  if (codes.length === 0) return 'Auto-detect';
+  return codes
+    .map(code => (native ? getOCRLanguage(code).nativeName : getOCRLanguage(code).name))
+    .join(' + ');
+}
+
+export function getTesseractLanguages(codes: readonly OCRLanguageCode[]): string {
+  const selection = codes.length > 0 ? codes : AUTO_DETECT_LANGUAGES;
+  return selection.map(code => getOCRLanguage(code).tesseract).join('+');
+}
+
+// Direction the selected languages are written in, when all of them agree
+export function getSelectionDirection(codes: readonly OCRLanguageCode[]): TextDirection | undefined {
+  const directions = new Set(codes.map(code => getOCRLanguage(code).direction));
+  return directions.size === 1 ? [...directions][0] : undefined;
+}
+
+// Strong right-to-left characters: Hebrew, Arabic, Syriac, Thaana, NKo and
+// their presentation forms
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+const LTR_CHAR = /[A-Za-z\u00C0-\u024F\u0370-\u052F\u0900-\u0E7F\u1E00-\u1EFF\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/;
+
+// Base direction of a text by its first strong character (Unicode bidi rule P2),
+// so numbers and punctuation at the start don't decide it
+export function getTextDirection(text: string): TextDirection {
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return 'rtl';
+    if (LTR_CHAR.test(char)) return 'ltr';
+  }
+  return 'ltr';
+}
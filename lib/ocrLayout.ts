@@ -0,0 +1,152 @@
+// Builds OCRLayouts from what each OCR engine reports, shared by the app's
+// on-device engine and the backend providers. Keep this module free of React
+// Native imports so the server can load it.
+
+import type { OCRBlock, OCRBoundingBox, OCRLayout, OCRLine } from '@/types/scan';
+
+interface PixelBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+interface TesseractWordLike {
+  text: string;
+  confidence: number;
+  bbox: PixelBox;
+}
+
+interface TesseractLineLike extends TesseractWordLike {
+  words: TesseractWordLike[];
+}
+
+interface TesseractBlockLike extends TesseractWordLike {
+  paragraphs: { lines: TesseractLineLike[] }[];
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const normalizeBox = (box: PixelBox, width: number, height: number): OCRBoundingBox => ({
+  x: clamp01(box.x0 / width),
+  y: clamp01(box.y0 / height),
+  width: clamp01((box.x1 - box.x0) / width),
+  height: clamp01((box.y1 - box.y0) / height),
+});
+
+// Tesseract reports confidence as 0-100
+const normalizeConfidence = (confidence: number) => clamp01(confidence / 100);
+
+/** Converts Tesseract's pixel boxes and 0-100 confidences to a normalized layout. */
+export const layoutFromTesseract = (
+  blocks: TesseractBlockLike[],
+  imageWidth: number,
+  imageHeight: number,
+  pageConfidence: number
+): OCRLayout => ({
+  imageWidth,
+  imageHeight,
+  confidence: normalizeConfidence(pageConfidence),
+  blocks: blocks.map(block => ({
+    text: block.text.trim(),
+    confidence: normalizeConfidence(block.confidence),
+    bbox: normalizeBox(block.bbox, imageWidth, imageHeight),
+    // Paragraphs are flattened; blocks are the unit the UI cares about
+    lines: block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.map(line => ({
+        text: line.text.trim(),
+        confidence: normalizeConfidence(line.confidence),
+        bbox: normalizeBox(line.bbox, imageWidth, imageHeight),
+        words: line.words.map(word => ({
+          text: word.text,
+          confidence: normalizeConfidence(word.confidence),
+          bbox: normalizeBox(word.bbox, imageWidth, imageHeight),
+        })),
+      }))
+    ),
+  })),
+});
+
+// Splits a line's box between its words in proportion to their length, for
+// providers that only know where whole lines are
+const wordsInLine = (text: string, bbox: OCRBoundingBox, confidence: number) => {
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0);
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
+  let x = bbox.x;
+
+  return words.map(word => {
+    const width = (word.length / totalChars) * bbox.width;
+    const wordBox = { x, y: bbox.y, width, height: bbox.height };
+    x += width;
+    return { text: word, confidence, bbox: wordBox };
+  });
+};
+
+const unionBox = (boxes: OCRBoundingBox[]): OCRBoundingBox => {
+  const x = Math.min(...boxes.map(box => box.x));
+  const y = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+export interface TextLineBox {
+  text: string;
+  // Normalized to the image, 0-1 on both axes
+  bbox: OCRBoundingBox;
+}
+
+// Builds a layout from lines whose boxes are known but whose words are not,
+// as the LLM reports them. There is no confidence to go on, so every line
+// counts as read in full.
+export const layoutFromLines = (
+  textLines: TextLineBox[],
+  imageWidth: number,
+  imageHeight: number
+): OCRLayout => {
+  const lines: OCRLine[] = textLines
+    .filter(line => line.text.trim().length > 0)
+    .map(line => {
+      const bbox = {
+        x: clamp01(line.bbox.x),
+        y: clamp01(line.bbox.y),
+        width: clamp01(line.bbox.width),
+        height: clamp01(line.bbox.height),
+      };
+      return { text: line.text.trim(), confidence: 1, bbox, words: wordsInLine(line.text, bbox, 1) };
+    });
+
+  const block: OCRBlock = {
+    text: lines.map(line => line.text).join('\n'),
+    confidence: 1,
+    bbox: lines.length > 0 ? unionBox(lines.map(line => line.bbox)) : { x: 0, y: 0, width: 1, height: 1 },
+    lines,
+  };
+
+  return {
+    imageWidth,
+    imageHeight,
+    confidence: 1,
+    blocks: lines.length > 0 ? [block] : [],
+  };
+};
+
+// Synthesizes an evenly spaced layout for plain text: one block, one line per
+// text line, words split proportionally to their length. Used by the mock provider.
+export const layoutFromPlainText = (
+  text: string,
+  imageWidth: number = 1000,
+  imageHeight: number = 1000
+): OCRLayout => {
+  const textLines = text.split('\n').filter(line => line.trim().length > 0);
+  const lineHeight = textLines.length > 0 ? 1 / textLines.length : 1;
+
+  return layoutFromLines(
+    textLines.map((lineText, lineIndex) => ({
+      text: lineText,
+      bbox: { x: 0, y: lineIndex * lineHeight, width: 1, height: lineHeight },
+    })),
+    imageWidth,
+    imageHeight
+  );
+};
@@ -0,0 +1,16 @@
+// Time limits for one OCR request, shared by the app and the OCR server so the
+// two cannot drift apart. Pure constants with no React Native imports.
+
+/**
+ * Total time the server may spend on one OCR request, every attempt and
+ * backoff included. OCR_TIMEOUT_MS and OCR_MAX_ATTEMPTS tune the attempts
+ * within this budget but never extend it.
+ */
+export const OCR_SERVER_BUDGET_MS = 90_000;
+
+/**
+ * How long the app waits for an OCR response. The margin covers uploading the
+ * image and downloading it from storage, so the server's answer, success or
+ * final error, always arrives before the app gives up.
+ */
+export const OCR_CLIENT_TIMEOUT_MS = OCR_SERVER_BUDGET_MS + 30_000;
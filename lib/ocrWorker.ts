@@ -1,211 +1,514 @@
 import React from 'react';
 import { Platform } from 'react-native';
-import Constants from 'expo-constants';
-import { OCRLanguage } from '@/contexts/OCRSettingsContext';
+import { imageUriToBase64 } from '@/lib/ocrClient';
+import {
+  OCREngine,
+  OCREngineKind,
+  OCREngineMode,
+  defaultOCREngine,
+  getPreferredEngine,
+  isConnectionError,
+} from '@/lib/ocrEngines';
+import { OCRLanguageCode } from '@/lib/ocrLanguages';
+import { OCRResultCache, ocrResultCache, hashImageContent, getOCRCacheKey } from '@/lib/ocrCache';
+import { trackPerformance } from '@/lib/performanceMonitor';
+import { OCRLayout } from '@/types/scan';
 
 export interface OCRTask {
   id: string;
   imageUri: string;
-  language: OCRLanguage;
+  // Empty means auto-detect
+  languages: OCRLanguageCode[];
+  // Higher runs first; equal priorities run in submission order
+  priority?: number;
+  // Defaults to 'auto': cloud first, on-device when offline
+  engineMode?: OCREngineMode;
   onProgress?: (progress: string) => void;
 }
 
+export const OCR_PRIORITY = {
+  background: 0,
+  normal: 10,
+  visible: 100,
+} as const;
+
+export interface OCRWorkerManagerOptions {
+  engine?: OCREngine;
+  // Pass null to disable result caching (e.g. in tests)
+  cache?: OCRResultCache | null;
+  concurrency?: number;
+  retry?: Partial<OCRRetryOptions>;
+}
+
+// Concurrent requests per platform. Mobile radios and memory favour fewer
+// parallel uploads of full-page images.
+export const DEFAULT_OCR_CONCURRENCY: Record<string, number> = {
+  web: 4,
+  ios: 2,
+  android: 2,
+  default: 1,
+};
+
+interface QueuedTask {
+  task: OCRTask;
+  priority: number;
+  sequence: number;
+}
+
 export interface OCRResult {
   id: string;
   text: string;
+  layout?: OCRLayout;
+  // Set on success: which engine read the text, and the provider behind it
+  engine?: OCREngineKind;
+  provider?: string;
   error?: string;
 }
 
-class OCRWorkerManager {
-  private workers: Worker[] = [];
-  private taskQueue: OCRTask[] = [];
+export type OCRTaskStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface OCRRetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type OCRTaskEvent =
+  | { type: 'status'; taskId: string; status: OCRTaskStatus }
+  | { type: 'progress'; taskId: string; message: string }
+  | { type: 'result'; taskId: string; result: OCRResult };
+
+export type OCRTaskListener = (event: OCRTaskEvent) => void;
+
+export interface OCRQueueStatus {
+  // Tasks waiting for a slot, including those still checking the cache
+  queueLength: number;
+  activeTasks: number;
+  concurrency: number;
+}
+
+export type OCRQueueListener = (status: OCRQueueStatus) => void;
+
+const DEFAULT_RETRY_OPTIONS: OCRRetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+class OCRCancelledError extends Error {
+  constructor(taskId: string) {
+    super(`OCR task ${taskId} was cancelled`);
+    this.name = 'OCRCancelledError';
+  }
+}
+
+// The server already retries rate limits, provider errors and timeouts, so an
+// error response is final. Only requests that never reached it are retried here.
+function isRetryableError(error: unknown): boolean {
+  return isConnectionError(error);
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class OCRWorkerManager {
+  private taskQueue: QueuedTask[] = [];
+  private sequence = 0;
   private activeTasks: Map<string, OCRTask> = new Map();
-  private maxWorkers = Platform.OS === 'web' ? 2 : 1; // Limit workers on mobile
-  private isProcessing = false;
+  private controllers: Map<string, AbortController> = new Map();
+  private statuses: Map<string, OCRTaskStatus> = new Map();
+  private taskListeners: Map<string, Set<OCRTaskListener>> = new Map();
+  private globalListeners: Set<OCRTaskListener> = new Set();
+  private queueListeners: Set<OCRQueueListener> = new Set();
+  private retryOptions: OCRRetryOptions;
+  private concurrency: number;
+  private engine: OCREngine;
+  private cache: OCRResultCache | null;
+  // Tasks waiting on a cache lookup, with their current priority
+  private pendingLookups: Map<string, number> = new Map();
+  // Content hashes of tasks that missed the cache, for storing their results
+  private contentHashes: Map<string, string> = new Map();
+
+  constructor(options: OCRWorkerManagerOptions = {}) {
+    this.engine = options.engine ?? defaultOCREngine;
+    this.cache = options.cache === undefined ? ocrResultCache : options.cache;
+    this.concurrency = Math.max(
+      1,
+      options.concurrency ?? DEFAULT_OCR_CONCURRENCY[Platform.OS] ?? DEFAULT_OCR_CONCURRENCY.default
+    );
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  }
 
-  constructor() {
-    if (Platform.OS === 'web') {
-      this.initializeWebWorkers();
+  private emit(event: OCRTaskEvent) {
+    const listeners = [
+      ...(this.taskListeners.get(event.taskId) ?? []),
+      ...this.globalListeners,
+    ];
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in OCR listener for task ${event.taskId}:`, error);
+      }
+    });
+
+    // Nothing else will be emitted for this task after its result or cancellation
+    const isFinal = event.type === 'result' || (event.type === 'status' && event.status === 'cancelled');
+    if (isFinal) {
+      this.taskListeners.delete(event.taskId);
     }
   }
 
-  private initializeWebWorkers() {
-    // Web Workers are not directly supported in React Native Web
-    // We'll use a different approach for web
+  // Sent whenever a task enters or leaves the queue, a cache lookup or a slot.
+  // Task statuses change before that cleanup, so they can't stand in for it.
+  private notifyQueueChange() {
+    const status = this.getQueueStatus();
+    this.queueListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in OCR queue listener:', error);
+      }
+    });
   }
 
-  private getLanguagePrompt(languageCode: OCRLanguage): string {
-    const languageMap: Record<OCRLanguage, string> = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'auto': 'Auto-detect',
-    };
-    return languageMap[languageCode] || 'English';
+  private setStatus(taskId: string, status: OCRTaskStatus) {
+    this.statuses.set(taskId, status);
+    this.emit({ type: 'status', taskId, status });
   }
 
-  private async processImageToBase64(imageUri: string): Promise<string> {
-    const response = await fetch(imageUri);
-    const blob = await response.blob();
-    
-    return new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        resolve(result.split(',')[1]);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  private reportProgress(task: OCRTask, message: string) {
+    task.onProgress?.(message);
+    this.emit({ type: 'progress', taskId: task.id, message });
   }
 
-  private async performOCR(task: OCRTask): Promise<OCRResult> {
-    try {
-      console.log(`🚀 Starting OCR for task ${task.id}`);
-      
-      task.onProgress?.('Converting image to base64...');
-      const base64Data = await this.processImageToBase64(task.imageUri);
-      
-      task.onProgress?.('Sending to AI for text extraction...');
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000);
-      
-      const aiResponse = await fetch(
-        Constants.expoConfig?.extra?.rorkAiApiUrl || "https://toolkit.rork.com/text/llm/",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            messages: [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: `Extract text from this image quickly. ${
-                      task.language !== 'auto' 
-                        ? `The text is primarily in ${this.getLanguagePrompt(task.language)}.` 
-                        : 'Auto-detect the language.'
-                    } Return only the text content, no formatting or commentary.`,
-                  },
-                  {
-                    type: "image",
-                    image: base64Data,
-                  },
-                ],
-              },
-            ],
-          }),
-          signal: controller.signal,
+  // Exponential backoff with jitter so retried tasks don't hit the API in lockstep
+  private getRetryDelay(retry: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryOptions;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  private async performOCR(task: OCRTask, signal: AbortSignal): Promise<OCRResult> {
+    const { maxRetries } = this.retryOptions;
+    const mode = task.engineMode ?? 'auto';
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        console.log(`🚀 Starting OCR for task ${task.id} (attempt ${attempt + 1})`);
+        
+        this.reportProgress(
+          task,
+          mode === 'on-device' ? 'Reading text on device...' : 'Sending to AI for text extraction...'
+        );
+        
+        const { text, layout, engine, provider } = await this.engine({
+          imageUri: task.imageUri,
+          languages: task.languages,
+          mode,
+          signal,
+        });
+        
+        console.log(`✅ OCR completed for task ${task.id} via ${engine}/${provider}: ${text.length} characters`);
+        
+        return {
+          id: task.id,
+          text,
+          layout,
+          engine,
+          provider,
+        };
+      } catch (error: any) {
+        if (signal.aborted) {
+          throw new OCRCancelledError(task.id);
         }
-      );
-      
-      clearTimeout(timeoutId);
-      
-      if (!aiResponse.ok) {
-        throw new Error(`AI API error: ${aiResponse.status}`);
+
+        if (attempt >= maxRetries || !isRetryableError(error)) {
+          console.error(`❌ OCR failed for task ${task.id}:`, error);
+          return {
+            id: task.id,
+            text: '',
+            error: error.message || 'OCR processing failed',
+          };
+        }
+
+        const delay = this.getRetryDelay(attempt);
+        console.warn(`🔁 OCR task ${task.id} failed, retrying in ${Math.round(delay)}ms:`, error.message);
+        this.setStatus(task.id, 'retrying');
+        this.reportProgress(task, `Connection problem, retrying (${attempt + 1}/${maxRetries})...`);
+
+        try {
+          await sleep(delay, signal);
+        } catch {
+          throw new OCRCancelledError(task.id);
+        }
+        this.setStatus(task.id, 'running');
       }
-      
-      const data = await aiResponse.json();
-      const text = data.completion || "No text detected";
-      
-      console.log(`✅ OCR completed for task ${task.id}: ${text.length} characters`);
-      
-      return {
-        id: task.id,
-        text,
-      };
-    } catch (error: any) {
-      console.error(`❌ OCR failed for task ${task.id}:`, error);
-      return {
-        id: task.id,
-        text: '',
-        error: error.message || 'OCR processing failed',
-      };
     }
   }
 
-  private async processQueue() {
-    if (this.isProcessing || this.taskQueue.length === 0) {
-      return;
+  // Starts queued tasks until every slot is busy. Each finished task frees its
+  // slot and pumps again, so one slow page never holds up the others.
+  private pump() {
+    while (this.activeTasks.size < this.concurrency && this.taskQueue.length > 0) {
+      const { task } = this.taskQueue.shift()!;
+      this.runTask(task);
     }
+  }
+
+  private async runTask(task: OCRTask) {
+    const controller = new AbortController();
+    this.activeTasks.set(task.id, task);
+    this.controllers.set(task.id, controller);
+    this.notifyQueueChange();
+    this.setStatus(task.id, 'running');
 
-    this.isProcessing = true;
-    
-    // Process tasks in parallel (limited by maxWorkers)
-    const promises: Promise<OCRResult>[] = [];
-    const tasksToProcess = this.taskQueue.splice(0, this.maxWorkers);
-    
-    for (const task of tasksToProcess) {
-      this.activeTasks.set(task.id, task);
-      promises.push(this.performOCR(task));
-    }
-    
     try {
-      const results = await Promise.allSettled(promises);
+      const result = await this.performOCR(task, controller.signal);
+      this.setStatus(task.id, result.error ? 'failed' : 'done');
+      this.notifyResult(result);
       
-      results.forEach((result, index) => {
-        const task = tasksToProcess[index];
-        this.activeTasks.delete(task.id);
-        
-        if (result.status === 'fulfilled') {
-          this.notifyResult(result.value);
-        } else {
-          this.notifyResult({
-            id: task.id,
-            text: '',
-            error: result.reason?.message || 'Processing failed',
-          });
-        }
-      });
-    } catch (error) {
-      console.error('Error processing OCR queue:', error);
+      // Keyed by the engine and provider that actually ran, so an offline
+      // fallback result never stands in for a cloud one
+      const contentHash = this.contentHashes.get(task.id);
+      const { engine } = result;
+      const cache = this.cache;
+      if (contentHash && !result.error && engine && cache) {
+        const provider = result.provider ?? engine;
+        cache.setProvider(engine, provider).then(() =>
+          cache.set(getOCRCacheKey(contentHash, task.languages, engine, provider), {
+            text: result.text,
+            layout: result.layout,
+            provider,
+          })
+        );
+      }
+    } catch (error: any) {
+      if (error instanceof OCRCancelledError) {
+        // Cancelled tasks produce no result; cancelTask already set the status
+        console.log(`🚫 OCR task ${task.id} stopped`);
+      } else {
+        console.error(`Error processing OCR task ${task.id}:`, error);
+        this.setStatus(task.id, 'failed');
+        this.notifyResult({
+          id: task.id,
+          text: '',
+          error: error?.message || 'Processing failed',
+        });
+      }
     } finally {
-      this.isProcessing = false;
-      
-      // Process remaining tasks
-      if (this.taskQueue.length > 0) {
-        setTimeout(() => this.processQueue(), 100);
+      this.activeTasks.delete(task.id);
+      this.controllers.delete(task.id);
+      this.contentHashes.delete(task.id);
+      this.pump();
+      this.notifyQueueChange();
+    }
+  }
+
+  // Resolves true when the task was answered from the cache. On a miss the
+  // content hash is remembered so the fresh result can be stored afterwards.
+  private async resolveFromCache(task: OCRTask, cache: OCRResultCache): Promise<boolean> {
+    try {
+      const contentHash = hashImageContent(await imageUriToBase64(task.imageUri));
+      const engine = getPreferredEngine(task.engineMode ?? 'auto');
+      const provider = await cache.getProvider(engine);
+      const cached = provider
+        ? await cache.get(getOCRCacheKey(contentHash, task.languages, engine, provider))
+        : null;
+      trackPerformance.ocrCacheLookup(!!cached);
+
+      if (!cached) {
+        this.contentHashes.set(task.id, contentHash);
+        return false;
       }
+
+      // Cancelled while we were reading the cache
+      if (!this.pendingLookups.has(task.id)) return true;
+
+      console.log(`💾 OCR cache hit for task ${task.id}`);
+      this.reportProgress(task, 'Loaded from cache');
+      this.setStatus(task.id, 'done');
+      this.notifyResult({
+        id: task.id,
+        text: cached.text,
+        layout: cached.layout,
+        engine,
+        provider: cached.provider,
+      });
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ OCR cache lookup failed for task ${task.id}:`, error);
+      return false;
     }
   }
 
-  private notifyResult(result: OCRResult) {
-    // Emit result to listeners
-    const event = new CustomEvent('ocrResult', { detail: result });
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(event);
+  // Keeps the queue ordered by priority (highest first), then submission order
+  private enqueue(entry: QueuedTask) {
+    const index = this.taskQueue.findIndex(queued =>
+      queued.priority < entry.priority ||
+      (queued.priority === entry.priority && queued.sequence > entry.sequence)
+    );
+    if (index === -1) {
+      this.taskQueue.push(entry);
+    } else {
+      this.taskQueue.splice(index, 0, entry);
     }
   }
 
+  private notifyResult(result: OCRResult) {
+    this.emit({ type: 'result', taskId: result.id, result });
+  }
+
+  public configureRetries(options: Partial<OCRRetryOptions>): void {
+    this.retryOptions = { ...this.retryOptions, ...options };
+  }
+
   public addTask(task: OCRTask): void {
     console.log(`📝 Adding OCR task ${task.id} to queue`);
-    this.taskQueue.push(task);
-    
-    // Start processing immediately
-    setTimeout(() => this.processQueue(), 0);
+    const sequence = this.sequence++;
+    this.setStatus(task.id, 'queued');
+
+    const enqueueAndPump = (priority: number) => {
+      this.enqueue({ task, priority, sequence });
+      this.pump();
+      this.notifyQueueChange();
+    };
+
+    const priority = task.priority ?? OCR_PRIORITY.normal;
+    const cache = this.cache;
+    if (!cache) {
+      enqueueAndPump(priority);
+      return;
+    }
+
+    // Check the cache before the task can reach the network
+    this.pendingLookups.set(task.id, priority);
+    this.notifyQueueChange();
+    this.resolveFromCache(task, cache).then(hit => {
+      const currentPriority = this.pendingLookups.get(task.id);
+      this.pendingLookups.delete(task.id);
+      if (!hit && currentPriority !== undefined) {
+        enqueueAndPump(currentPriority);
+      } else {
+        this.notifyQueueChange();
+      }
+    });
+  }
+
+  // Re-prioritizes a queued task, e.g. when the user opens that page. Tasks
+  // that already started are unaffected.
+  public setTaskPriority(taskId: string, priority: number): void {
+    if (this.pendingLookups.has(taskId)) {
+      this.pendingLookups.set(taskId, priority);
+      return;
+    }
+
+    const index = this.taskQueue.findIndex(queued => queued.task.id === taskId);
+    if (index === -1) return;
+
+    const [entry] = this.taskQueue.splice(index, 1);
+    this.enqueue({ ...entry, priority });
+  }
+
+  public setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+    this.notifyQueueChange();
   }
 
   public cancelTask(taskId: string): void {
+    const wasQueued = this.taskQueue.some(queued => queued.task.id === taskId);
+    const wasLookingUp = this.pendingLookups.delete(taskId);
+    const controller = this.controllers.get(taskId);
+    if (!wasQueued && !wasLookingUp && !controller) {
+      return;
+    }
+
     // Remove from queue
-    this.taskQueue = this.taskQueue.filter(task => task.id !== taskId);
+    this.taskQueue = this.taskQueue.filter(queued => queued.task.id !== taskId);
     
-    // Remove from active tasks (note: can't cancel ongoing requests easily)
-    this.activeTasks.delete(taskId);
+    // Abort the in-flight request (or pending retry) for an active task
+    controller?.abort();
     
+    this.setStatus(taskId, 'cancelled');
+    // An active task frees its slot only once its request has stopped
+    this.notifyQueueChange();
     console.log(`🚫 Cancelled OCR task ${taskId}`);
   }
 
-  public getQueueStatus(): { queueLength: number; activeTasks: number } {
+  public getTaskStatus(taskId: string): OCRTaskStatus | undefined {
+    return this.statuses.get(taskId);
+  }
+
+  public getTaskStatuses(): Map<string, OCRTaskStatus> {
+    return new Map(this.statuses);
+  }
+
+  public clearTaskStatuses(): void {
+    // Keep statuses of tasks that are still queued or running
+    for (const [taskId, status] of this.statuses) {
+      if (status === 'done' || status === 'failed' || status === 'cancelled') {
+        this.statuses.delete(taskId);
+      }
+    }
+  }
+
+  // Listens to status, progress and result events of one task. Listeners are
+  // dropped automatically once the task delivers its result or is cancelled.
+  public subscribe(taskId: string, listener: OCRTaskListener): () => void {
+    let listeners = this.taskListeners.get(taskId);
+    if (!listeners) {
+      listeners = new Set();
+      this.taskListeners.set(taskId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.taskListeners.get(taskId);
+      current?.delete(listener);
+      if (current?.size === 0) {
+        this.taskListeners.delete(taskId);
+      }
+    };
+  }
+
+  // Listens to events of every task
+  public subscribeAll(listener: OCRTaskListener): () => void {
+    this.globalListeners.add(listener);
+    return () => {
+      this.globalListeners.delete(listener);
+    };
+  }
+
+  // Listens to changes in queue length and busy slots
+  public subscribeQueue(listener: OCRQueueListener): () => void {
+    this.queueListeners.add(listener);
+    return () => {
+      this.queueListeners.delete(listener);
+    };
+  }
+
+  public getQueueStatus(): OCRQueueStatus {
     return {
-      queueLength: this.taskQueue.length,
+      queueLength: this.taskQueue.length + this.pendingLookups.size,
       activeTasks: this.activeTasks.size,
+      concurrency: this.concurrency,
     };
   }
 }
@@ -213,32 +516,48 @@ class OCRWorkerManager {
 // Singleton instance
 export const ocrWorkerManager = new OCRWorkerManager();
 
-// Hook for using OCR worker in React components
-export function useOCRWorker() {
+export interface UseOCRWorkerOptions {
+  onResult?: (result: OCRResult) => void;
+  onProgress?: (taskId: string, message: string) => void;
+}
+
+// Hook for using OCR worker in React components. Results are pushed through
+// `onResult` as soon as each task finishes, so callers don't need to poll.
+export function useOCRWorker(options: UseOCRWorkerOptions = {}) {
   const [results, setResults] = React.useState<Map<string, OCRResult>>(new Map());
-  const [isProcessing, setIsProcessing] = React.useState(false);
+  const [taskStatuses, setTaskStatuses] = React.useState<Map<string, OCRTaskStatus>>(
+    () => ocrWorkerManager.getTaskStatuses()
+  );
+  const [queueStatus, setQueueStatus] = React.useState(() => ocrWorkerManager.getQueueStatus());
+  
+  // Keep the latest callbacks without resubscribing on every render
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
   
   React.useEffect(() => {
-    const handleResult = (event: CustomEvent<OCRResult>) => {
-      const result = event.detail;
-      setResults(prev => new Map(prev.set(result.id, result)));
-      
-      // Update processing status
-      const status = ocrWorkerManager.getQueueStatus();
-      setIsProcessing(status.queueLength > 0 || status.activeTasks > 0);
-    };
-    
-    if (typeof window !== 'undefined') {
-      window.addEventListener('ocrResult', handleResult as EventListener);
-      
-      return () => {
-        window.removeEventListener('ocrResult', handleResult as EventListener);
-      };
-    }
+    // Catch up on anything that changed between the first render and now
+    setQueueStatus(ocrWorkerManager.getQueueStatus());
+    return ocrWorkerManager.subscribeQueue(setQueueStatus);
+  }, []);
+  
+  React.useEffect(() => {
+    return ocrWorkerManager.subscribeAll(event => {
+      switch (event.type) {
+        case 'status':
+          setTaskStatuses(prev => new Map(prev).set(event.taskId, event.status));
+          break;
+        case 'progress':
+          optionsRef.current.onProgress?.(event.taskId, event.message);
+          break;
+        case 'result':
+          setResults(prev => new Map(prev).set(event.taskId, event.result));
+          optionsRef.current.onResult?.(event.result);
+          break;
+      }
+    });
   }, []);
   
   const submitTask = React.useCallback((task: OCRTask) => {
-    setIsProcessing(true);
     ocrWorkerManager.addTask(task);
   }, []);
   
@@ -251,23 +570,38 @@ export function useOCRWorker() {
     });
   }, []);
   
+  const setTaskPriority = React.useCallback((taskId: string, priority: number) => {
+    ocrWorkerManager.setTaskPriority(taskId, priority);
+  }, []);
+  
   const getResult = React.useCallback((taskId: string) => {
     return results.get(taskId);
   }, [results]);
   
+  const getTaskStatus = React.useCallback((taskId: string) => {
+    return taskStatuses.get(taskId);
+  }, [taskStatuses]);
+  
   const clearResults = React.useCallback(() => {
     setResults(new Map());
+    ocrWorkerManager.clearTaskStatuses();
+    setTaskStatuses(ocrWorkerManager.getTaskStatuses());
   }, []);
   
   return {
     submitTask,
     cancelTask,
+    setTaskPriority,
     getResult,
+    getTaskStatus,
+    taskStatuses,
     clearResults,
-    isProcessing,
-    queueStatus: ocrWorkerManager.getQueueStatus(),
+    isProcessing: queueStatus.queueLength > 0 || queueStatus.activeTasks > 0,
+    queueStatus,
   };
 }
 
+export type { OCREngine, OCREngineKind, OCREngineMode, OCREngineRequest, OCREngineResponse } from '@/lib/ocrEngines';
+
 // For non-React usage
 export { ocrWorkerManager as default };
\ No newline at end of file
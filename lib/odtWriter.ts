@@ -0,0 +1,198 @@
+// OpenDocument Text (.odt) writer for the same styled content as the DOCX
+// writer. Pure TypeScript with no React Native imports.
+import { getTextDirection } from '@/lib/ocrLanguages';
+import { createZip, ZipEntry } from '@/lib/zipWriter';
+import {
+  DOCUMENT_PAGE,
+  EmbeddedImage,
+  StyledDocumentContent,
+  StyledTextRun,
+  XML_HEADER,
+  escapeXML,
+  fitImageInside,
+  splitRunsIntoParagraphs,
+} from '@/lib/documentContent';
+
+const ODF_VERSION = '1.3';
+const MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+const DEFAULT_FONT_SIZE = 12;
+
+const NAMESPACES = {
+  office: 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+  style: 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+  text: 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+  draw: 'urn:oasis:names:tc:opendocument:xmlns:drawing:1.0',
+  fo: 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+  svg: 'urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0',
+  xlink: 'http://www.w3.org/1999/xlink',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  meta: 'urn:oasis:names:tc:opendocument:xmlns:meta:1.0',
+};
+
+const namespaceAttributes = (...prefixes: (keyof typeof NAMESPACES)[]): string =>
+  prefixes.map(prefix => `xmlns:${prefix}="${NAMESPACES[prefix]}"`).join(' ');
+
+// ODF collapses runs of spaces and ignores tabs unless they are written as
+// elements, so both are spelled out
+const textXML = (text: string): string =>
+  text
+    .split('\t')
+    .map(part =>
+      escapeXML(part)
+        .replace(/^ /, '<text:s/>')
+        .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+    )
+    .join('<text:tab/>');
+
+// Automatic styles are named by their properties so identical runs share one
+class StyleRegistry {
+  private readonly styles = new Map<string, string>();
+  private readonly definitions: string[] = [];
+  private readonly counts = { paragraph: 0, text: 0 };
+
+  name(family: 'paragraph' | 'text', properties: string): string | null {
+    if (!properties) return null;
+    const key = `${family}:${properties}`;
+    let name = this.styles.get(key);
+    if (!name) {
+      this.counts[family] += 1;
+      name = `${family === 'paragraph' ? 'P' : 'T'}${this.counts[family]}`;
+      this.styles.set(key, name);
+      this.definitions.push(
+        `<style:style style:name="${name}" style:family="${family}"${family === 'paragraph' ? ' style:parent-style-name="Standard"' : ''}>${properties}</style:style>`
+      );
+    }
+    return name;
+  }
+
+  toXML(): string {
+    return this.definitions.join('');
+  }
+}
+
+const textProperties = (run: StyledTextRun): string => {
+  const attributes: string[] = [];
+  if (run.bold) attributes.push('fo:font-weight="bold" style:font-weight-asian="bold" style:font-weight-complex="bold"');
+  if (run.italic) attributes.push('fo:font-style="italic" style:font-style-asian="italic" style:font-style-complex="italic"');
+  if (run.underline) {
+    attributes.push('style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"');
+  }
+  if (run.color) attributes.push(`fo:color="${run.color.toLowerCase()}"`);
+  if (run.fontSize) {
+    attributes.push(`fo:font-size="${run.fontSize}pt" style:font-size-asian="${run.fontSize}pt" style:font-size-complex="${run.fontSize}pt"`);
+  }
+  return attributes.length > 0 ? `<style:text-properties ${attributes.join(' ')}/>` : '';
+};
+
+const ALIGN_VALUES = { left: 'start', center: 'center', right: 'end' };
+
+const paragraphXML = (runs: StyledTextRun[], styles: StyleRegistry): string => {
+  const text = runs.map(run => run.text).join('');
+  // Each paragraph takes the direction of its own text, like the HTML export
+  const rtl = getTextDirection(text) === 'rtl';
+  const align = runs.find(run => run.align)?.align;
+  const attributes = [
+    align ? `fo:text-align="${ALIGN_VALUES[align]}"` : '',
+    rtl ? 'style:writing-mode="rl-tb"' : '',
+  ].filter(Boolean);
+  const paragraphStyle = styles.name(
+    'paragraph',
+    attributes.length > 0 ? `<style:paragraph-properties ${attributes.join(' ')}/>` : ''
+  ) ?? 'Standard';
+
+  const spans = runs.map(run => {
+    const spanStyle = styles.name('text', textProperties(run));
+    return spanStyle ? `<text:span text:style-name="${spanStyle}">${textXML(run.text)}</text:span>` : textXML(run.text);
+  });
+  return `<text:p text:style-name="${paragraphStyle}">${spans.join('')}</text:p>`;
+};
+
+/**
+ * Build an .odt file. Text keeps its bold, italic, underline, size, colour and
+ * alignment; pictures are embedded in the package.
+ */
+export const createOdt = (content: StyledDocumentContent): Uint8Array => {
+  const styles = new StyleRegistry();
+  const pictures: ZipEntry[] = [];
+  const pictureXML = (image: EmbeddedImage): string => {
+    const index = pictures.length + 1;
+    const path = `Pictures/image${index}.${image.format === 'png' ? 'png' : 'jpg'}`;
+    pictures.push({ path, data: image.data });
+    return (
+      `<draw:frame draw:name="Image${index}" text:anchor-type="as-char" ` +
+      `svg:width="${image.width.toFixed(2)}pt" svg:height="${image.height.toFixed(2)}pt" draw:z-index="0">` +
+      `<draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`
+    );
+  };
+
+  const contentWidth = DOCUMENT_PAGE.width - DOCUMENT_PAGE.margin * 2;
+  const contentHeight = DOCUMENT_PAGE.height - DOCUMENT_PAGE.margin * 2;
+  const body = splitRunsIntoParagraphs(content.runs).map(runs => paragraphXML(runs, styles));
+
+  const signatureStyle = styles.name(
+    'paragraph',
+    '<style:paragraph-properties fo:text-align="end" fo:margin-top="12pt"/>'
+  );
+  for (const signature of content.signatures ?? []) {
+    body.push(`<text:p text:style-name="${signatureStyle}">${pictureXML(fitImageInside(signature, contentWidth, contentHeight))}</text:p>`);
+  }
+
+  const pageImageStyle = styles.name(
+    'paragraph',
+    '<style:paragraph-properties fo:break-before="page" fo:text-align="center"/>'
+  );
+  for (const pageImage of content.pageImages ?? []) {
+    // Slightly under the full height so it is not pushed to another page
+    const fitted = fitImageInside(pageImage, contentWidth, contentHeight - 12);
+    body.push(`<text:p text:style-name="${pageImageStyle}">${pictureXML(fitted)}</text:p>`);
+  }
+
+  const contentXML =
+    `${XML_HEADER}<office:document-content ${namespaceAttributes('office', 'style', 'text', 'draw', 'fo', 'svg', 'xlink')} ` +
+    `office:version="${ODF_VERSION}"><office:automatic-styles>${styles.toXML()}</office:automatic-styles>` +
+    `<office:body><office:text>${body.join('')}</office:text></office:body></office:document-content>`;
+
+  const stylesXML =
+    `${XML_HEADER}<office:document-styles ${namespaceAttributes('office', 'style', 'text', 'fo')} office:version="${ODF_VERSION}">` +
+    `<office:styles><style:default-style style:family="paragraph">` +
+    `<style:paragraph-properties fo:margin-bottom="6pt"/>` +
+    `<style:text-properties fo:font-size="${DEFAULT_FONT_SIZE}pt" style:font-size-asian="${DEFAULT_FONT_SIZE}pt" style:font-size-complex="${DEFAULT_FONT_SIZE}pt"/>` +
+    `</style:default-style><style:style style:name="Standard" style:family="paragraph" style:class="text"/></office:styles>` +
+    `<office:automatic-styles><style:page-layout style:name="PageLayout">` +
+    `<style:page-layout-properties fo:page-width="${DOCUMENT_PAGE.width}pt" fo:page-height="${DOCUMENT_PAGE.height}pt" ` +
+    `fo:margin-top="${DOCUMENT_PAGE.margin}pt" fo:margin-bottom="${DOCUMENT_PAGE.margin}pt" ` +
+    `fo:margin-left="${DOCUMENT_PAGE.margin}pt" fo:margin-right="${DOCUMENT_PAGE.margin}pt"/>` +
+    `</style:page-layout></office:automatic-styles>` +
+    `<office:master-styles><style:master-page style:name="Standard" style:page-layout-name="PageLayout"/></office:master-styles>` +
+    `</office:document-styles>`;
+
+  const created = new Date().toISOString().replace(/\.\d+Z$/, '');
+  const metaXML =
+    `${XML_HEADER}<office:document-meta ${namespaceAttributes('office', 'dc', 'meta')} office:version="${ODF_VERSION}">` +
+    `<office:meta><meta:generator>Document Scanner App</meta:generator>` +
+    (content.title ? `<dc:title>${escapeXML(content.title)}</dc:title>` : '') +
+    `<meta:creation-date>${created}</meta:creation-date></office:meta></office:document-meta>`;
+
+  const manifestEntries = [
+    `<manifest:file-entry manifest:full-path="/" manifest:version="${ODF_VERSION}" manifest:media-type="${MIME_TYPE}"/>`,
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>',
+    '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>',
+    '<manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>',
+    ...pictures.map(picture =>
+      `<manifest:file-entry manifest:full-path="${picture.path}" manifest:media-type="${picture.path.endsWith('.png') ? 'image/png' : 'image/jpeg'}"/>`
+    ),
+  ];
+  const manifestXML =
+    `${XML_HEADER}<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="${ODF_VERSION}">` +
+    `${manifestEntries.join('')}</manifest:manifest>`;
+
+  // The mimetype entry must come first and be stored uncompressed
+  return createZip([
+    { path: 'mimetype', data: MIME_TYPE },
+    { path: 'META-INF/manifest.xml', data: manifestXML },
+    { path: 'content.xml', data: contentXML },
+    { path: 'styles.xml', data: stylesXML },
+    { path: 'meta.xml', data: metaXML },
+    ...pictures,
+  ]);
+};
@@ -0,0 +1,110 @@
+import { Platform } from 'react-native';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import { OCRLanguageCode, getTesseractLanguages } from '@/lib/ocrLanguages';
+import { layoutFromTesseract } from '@/lib/ocrLayout';
+import { OCRLayout } from '@/types/scan';
+
+export interface OnDeviceOCRRequest {
+  imageUri: string;
+  languages: OCRLanguageCode[];
+  signal: AbortSignal;
+}
+
+export interface OnDeviceOCRResponse {
+  text: string;
+  layout?: OCRLayout;
+}
+
+// On-device OCR is a web-only feature: Tesseract.js needs Web Workers and
+// WebAssembly, which only the web build has. Native builds always use the cloud
+// and do not offer the on-device setting; a native engine (e.g. ML Kit in a
+// dev-client module) would be needed there.
+export function isOnDeviceOCRAvailable(): boolean {
+  return Platform.OS === 'web' && typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+}
+
+// By default tesseract.js fetches its core and traineddata from a CDN and keeps
+// them in IndexedDB, so a language works offline only after it has been
+// prepared once online. Self-host them to make the very first offline scan work.
+const getWorkerOptions = () => {
+  const options: { langPath?: string; corePath?: string; workerPath?: string } = {};
+  if (process.env.EXPO_PUBLIC_TESSERACT_LANG_PATH) {
+    options.langPath = process.env.EXPO_PUBLIC_TESSERACT_LANG_PATH;
+  }
+  if (process.env.EXPO_PUBLIC_TESSERACT_CORE_PATH) {
+    options.corePath = process.env.EXPO_PUBLIC_TESSERACT_CORE_PATH;
+  }
+  if (process.env.EXPO_PUBLIC_TESSERACT_WORKER_PATH) {
+    options.workerPath = process.env.EXPO_PUBLIC_TESSERACT_WORKER_PATH;
+  }
+  return options;
+};
+
+// One worker per traineddata set, created on first use. Starting a worker loads
+// the WASM core and language data, so it is reused across scans.
+const workers: Map<string, Promise<TesseractWorker>> = new Map();
+
+function getWorker(languages: string): Promise<TesseractWorker> {
+  let worker = workers.get(languages);
+  if (!worker) {
+    console.log(`🧠 Starting on-device OCR worker (${languages})...`);
+    worker = import('tesseract.js').then(({ createWorker }) =>
+      createWorker(languages, undefined, getWorkerOptions())
+    );
+    // Let the next scan try again if the worker could not start
+    worker.catch(() => workers.delete(languages));
+    workers.set(languages, worker);
+  }
+  return worker;
+}
+
+// Rejects as soon as the signal aborts. The worker is shared, so the running
+// job is left to finish and its result is discarded.
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Downloads the engine and language data ahead of time, e.g. when the user
+// switches to on-device OCR while still online.
+export async function prepareOnDeviceOCR(languages: OCRLanguageCode[]): Promise<void> {
+  if (!isOnDeviceOCRAvailable()) return;
+  await getWorker(getTesseractLanguages(languages));
+}
+
+export async function extractTextOnDevice({
+  imageUri,
+  languages,
+  signal,
+}: OnDeviceOCRRequest): Promise<OnDeviceOCRResponse> {
+  if (!isOnDeviceOCRAvailable()) {
+    throw new Error('On-device OCR is not available on this device');
+  }
+
+  const worker = await abortable(getWorker(getTesseractLanguages(languages)), signal);
+  const blob = await (await fetch(imageUri)).blob();
+  const [{ data }, bitmap] = await abortable(
+    Promise.all([
+      worker.recognize(blob, {}, { text: true, blocks: true }),
+      createImageBitmap(blob),
+    ]),
+    signal
+  );
+
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  return {
+    text: data.text.trim() || 'No text detected',
+    layout: data.blocks
+      ? layoutFromTesseract(data.blocks, width, height, data.confidence)
+      : undefined,
+  };
+}
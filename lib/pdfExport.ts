@@ -0,0 +1,447 @@
+import {
+  AnnotatedDocument,
+  Annotation,
+  DocumentPage,
+  OCRBoundingBox,
+  PDFExportOptions,
+  SavedSignature,
+  SignatureInstance,
+} from '@/types/scan';
+import {
+  PDFFont,
+  PDFPage,
+  PDFRect,
+  PDFWriter,
+  createPDFImage,
+  measureText,
+} from '@/lib/pdfWriter';
+import { loadImageJpeg } from '@/lib/imagePixels';
+import { SignatureStroke } from '@/lib/signatureImage';
+import { ExportEncoder } from '@/lib/exportService';
+
+export interface PDFPageSize {
+  width: number;
+  height: number;
+}
+
+// Portrait sizes in points
+export const PDF_PAGE_SIZES: Record<PDFExportOptions['pageSize'], PDFPageSize> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 },
+};
+
+// Longest side of embedded page images (150, 200 and 300 DPI across an A4
+// page) and their JPEG quality
+const QUALITY_SETTINGS: Record<PDFExportOptions['quality'], { maxDimension: number; compress: number }> = {
+  low: { maxDimension: 1240, compress: 0.5 },
+  medium: { maxDimension: 1754, compress: 0.75 },
+  high: { maxDimension: 3508, compress: 0.92 },
+};
+
+// Text documents
+const TEXT_PAGE_MARGIN = 56;
+const TEXT_LINE_SPACING = 1.4;
+const DEFAULT_TEXT_SIZE = 16;
+// Signatures are drawn in a box this size below the text, like the preview
+const SIGNATURE_BOX_WIDTH = 120;
+const SIGNATURE_BOX_HEIGHT = 60;
+const SIGNATURE_SPACING = 20;
+
+/** A run of text sharing one style, for text documents */
+export interface PDFTextRun {
+  text: string;
+  font?: PDFFont;
+  size?: number;
+  color?: string;
+  underline?: boolean;
+  // Applies to the paragraph the run starts
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Page size in points for the export options
+ */
+export const getPDFPageSize = (
+  pageSize: PDFExportOptions['pageSize'],
+  orientation: PDFExportOptions['orientation']
+): PDFPageSize => {
+  const size = PDF_PAGE_SIZES[pageSize];
+  return orientation === 'landscape'
+    ? { width: size.height, height: size.width }
+    : { ...size };
+};
+
+// Largest rectangle with the source's aspect ratio centred in the box, as
+// resizeMode "contain" draws it
+const fitContain = (width: number, height: number, box: PDFRect): PDFRect => {
+  const scale = Math.min(box.width / width, box.height / height);
+  return {
+    x: box.x + (box.width - width * scale) / 2,
+    y: box.y + (box.height - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+};
+
+// Maps points from where annotations were placed onto the PDF page
+interface CanvasMapping {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+}
+
+const drawAnnotation = (page: PDFPage, annotation: Annotation, mapping: CanvasMapping) => {
+  const { offsetX, offsetY, scale } = mapping;
+  const rect = {
+    x: offsetX + annotation.x * scale,
+    y: offsetY + annotation.y * scale,
+    width: annotation.width * scale,
+    height: annotation.height * scale,
+  };
+
+  switch (annotation.type) {
+    case 'highlight':
+      page.drawRect(rect, { fill: annotation.color, opacity: annotation.opacity });
+      break;
+    case 'drawing':
+      for (const path of annotation.paths) {
+        page.drawSvgPath(
+          path,
+          { stroke: annotation.strokeColor, lineWidth: annotation.strokeWidth * scale },
+          { x: offsetX, y: offsetY, scaleX: scale, scaleY: scale }
+        );
+      }
+      break;
+    case 'textbox': {
+      if (annotation.backgroundColor) {
+        page.drawRect(rect, { fill: annotation.backgroundColor });
+      }
+      const size = annotation.fontSize * scale;
+      annotation.text.split('\n').forEach((line, index) => {
+        page.drawText(
+          line,
+          rect.x + 8 * scale,
+          rect.y + (annotation.fontSize + 8) * scale + index * size * 1.2,
+          { size, color: annotation.fontColor }
+        );
+      });
+      break;
+    }
+  }
+};
+
+const drawSignature = (
+  page: PDFPage,
+  instance: SignatureInstance,
+  signature: SavedSignature,
+  mapping: CanvasMapping
+) => {
+  const { offsetX, offsetY, scale } = mapping;
+  // The saved path is drawn in its own viewBox, stretched over the instance
+  const scaleX = (instance.width / signature.width) * scale;
+  const scaleY = (instance.height / signature.height) * scale;
+  page.drawSvgPath(
+    signature.svgPath,
+    { stroke: '#000000', lineWidth: 2 * Math.min(scaleX, scaleY) },
+    {
+      x: offsetX + instance.x * scale,
+      y: offsetY + instance.y * scale,
+      scaleX,
+      scaleY,
+    }
+  );
+};
+
+// Lay the page's OCR text invisibly over its image. Words go in their own
+// boxes; lines without word boxes are stretched over the whole line. Pages
+// with text but no layout get their lines spread evenly down the image, so
+// they are still searchable. Returns how many pieces of text were placed.
+const drawTextLayer = (page: PDFPage, documentPage: DocumentPage, imageRect: PDFRect): number => {
+  const toPage = (bbox: OCRBoundingBox): PDFRect => ({
+    x: imageRect.x + bbox.x * imageRect.width,
+    y: imageRect.y + bbox.y * imageRect.height,
+    width: bbox.width * imageRect.width,
+    height: bbox.height * imageRect.height,
+  });
+  let placed = 0;
+
+  if (documentPage.ocrLayout) {
+    for (const block of documentPage.ocrLayout.blocks) {
+      for (const line of block.lines) {
+        if (line.words.length > 0) {
+          for (const word of line.words) {
+            page.drawInvisibleText(word.text, toPage(word.bbox));
+            placed++;
+          }
+        } else if (line.text.trim()) {
+          page.drawInvisibleText(line.text, toPage(line.bbox));
+          placed++;
+        }
+      }
+    }
+    return placed;
+  }
+
+  const lines = (documentPage.extractedText ?? '').split('\n').filter(line => line.trim());
+  lines.forEach((line, index) => {
+    const height = 1 / lines.length;
+    page.drawInvisibleText(line.trim(), toPage({ x: 0, y: index * height, width: 1, height }));
+    placed++;
+  });
+  return placed;
+};
+
+/**
+ * Build a PDF of a scanned document: one page per scan, fitted to the page
+ * size, with annotations and placed signatures drawn over it when the options
+ * ask for them. Annotations without a page belong to the first page. A
+ * searchable PDF also carries each page's OCR text, invisible but selectable.
+ */
+export const buildDocumentPDF = async (
+  document: AnnotatedDocument,
+  options: PDFExportOptions,
+  savedSignatures: SavedSignature[] = []
+): Promise<Uint8Array> => {
+  if (document.pages.length === 0) {
+    throw new Error('No pages to export');
+  }
+  const pageSize = getPDFPageSize(options.pageSize, options.orientation);
+  const writer = new PDFWriter({ title: document.title });
+  const pages = [...document.pages].sort((a, b) => a.order - b.order);
+
+  for (const [index, documentPage] of pages.entries()) {
+    const { maxDimension, compress } = QUALITY_SETTINGS[options.quality];
+    const { data, originalWidth, originalHeight } = await loadImageJpeg(documentPage.imageUri, maxDimension, compress);
+    const image = createPDFImage(data);
+    const page = writer.addPage(pageSize.width, pageSize.height);
+    const imageRect = fitContain(originalWidth, originalHeight, { x: 0, y: 0, ...pageSize });
+    page.drawImage(image, imageRect);
+
+    if (options.searchable) {
+      const placed = drawTextLayer(page, documentPage, imageRect);
+      if (placed === 0) {
+        console.warn(`⚠️ Page ${documentPage.id} has no OCR text; it will not be searchable`);
+      }
+    }
+
+    if (!options.includeAnnotations) continue;
+
+    // Where the image sat on the editing canvas, in canvas units
+    const canvas = document.canvasSize;
+    const imageOnCanvas = canvas
+      ? fitContain(originalWidth, originalHeight, { x: 0, y: 0, ...canvas })
+      : { x: 0, y: 0, width: originalWidth, height: originalHeight };
+    const scale = imageRect.width / imageOnCanvas.width;
+    const mapping = {
+      offsetX: imageRect.x - imageOnCanvas.x * scale,
+      offsetY: imageRect.y - imageOnCanvas.y * scale,
+      scale,
+    };
+
+    document.annotations
+      .filter(annotation => annotation.pageId ? annotation.pageId === documentPage.id : index === 0)
+      .forEach(annotation => drawAnnotation(page, annotation, mapping));
+
+    for (const instance of documentPage.signatures ?? []) {
+      const signature = savedSignatures.find(sig => sig.id === instance.signatureId);
+      if (signature) {
+        drawSignature(page, instance, signature, mapping);
+      } else {
+        console.warn(`⚠️ Signature ${instance.signatureId} not found; left out of the PDF`);
+      }
+    }
+  }
+
+  console.log(`📄 Built ${options.searchable ? 'searchable ' : ''}PDF with ${writer.pageCount} pages (${options.pageSize}, ${options.orientation}, ${options.quality})`);
+  return writer.save();
+};
+
+interface LaidOutPiece {
+  text: string;
+  run: PDFTextRun;
+  width: number;
+}
+
+interface LaidOutLine {
+  pieces: LaidOutPiece[];
+  width: number;
+  height: number;
+  align: 'left' | 'center' | 'right';
+}
+
+// Break styled runs into lines no wider than maxWidth, wrapping at spaces and
+// inside words only when a word is wider than a whole line
+const layoutTextRuns = (runs: PDFTextRun[], maxWidth: number): LaidOutLine[] => {
+  // Split the runs into paragraphs at line breaks
+  const paragraphs: PDFTextRun[][] = [[]];
+  for (const run of runs) {
+    run.text.split('\n').forEach((part, index) => {
+      if (index > 0) paragraphs.push([]);
+      if (part) paragraphs[paragraphs.length - 1].push({ ...run, text: part });
+    });
+  }
+
+  const lines: LaidOutLine[] = [];
+  for (const paragraph of paragraphs) {
+    const align = paragraph.find(run => run.align)?.align ?? 'left';
+    const emptyHeight = (paragraph[0]?.size ?? DEFAULT_TEXT_SIZE) * TEXT_LINE_SPACING;
+    let line: LaidOutLine = { pieces: [], width: 0, height: emptyHeight, align };
+
+    const finishLine = () => {
+      // Spaces at the end of a wrapped line take no room
+      while (line.pieces.length > 0 && !line.pieces[line.pieces.length - 1].text.trim()) {
+        line.width -= line.pieces.pop()!.width;
+      }
+      lines.push(line);
+      line = { pieces: [], width: 0, height: emptyHeight, align };
+    };
+    const addPiece = (text: string, run: PDFTextRun, width: number) => {
+      line.pieces.push({ text, run, width });
+      line.width += width;
+      line.height = Math.max(
+        line.pieces.length === 1 ? 0 : line.height,
+        (run.size ?? DEFAULT_TEXT_SIZE) * TEXT_LINE_SPACING
+      );
+    };
+
+    for (const run of paragraph) {
+      const font = run.font ?? 'Helvetica';
+      const size = run.size ?? DEFAULT_TEXT_SIZE;
+      for (const token of run.text.split(/(\s+)/)) {
+        if (!token) continue;
+        const width = measureText(token, font, size);
+        if (!token.trim()) {
+          if (line.pieces.length > 0) addPiece(token, run, width);
+          continue;
+        }
+        if (line.pieces.length > 0 && line.width + width > maxWidth) finishLine();
+        if (width <= maxWidth) {
+          addPiece(token, run, width);
+          continue;
+        }
+        // A word longer than a line is broken wherever it runs out of room
+        let chunk = '';
+        for (const char of token) {
+          if (chunk && line.width + measureText(chunk + char, font, size) > maxWidth) {
+            addPiece(chunk, run, measureText(chunk, font, size));
+            finishLine();
+            chunk = '';
+          }
+          chunk += char;
+        }
+        if (chunk) addPiece(chunk, run, measureText(chunk, font, size));
+      }
+    }
+    finishLine();
+  }
+  return lines;
+};
+
+/**
+ * Build a PDF of formatted text: wrapped over as many pages as it needs, with
+ * signatures stacked at the right below it. The standard fonts only cover
+ * Western European scripts; other characters come out as question marks.
+ */
+export const buildTextPDF = (
+  runs: PDFTextRun[],
+  signatures: SignatureStroke[],
+  options: Pick<PDFExportOptions, 'pageSize' | 'orientation'>,
+  title?: string
+): Uint8Array => {
+  const pageSize = getPDFPageSize(options.pageSize, options.orientation);
+  const contentWidth = pageSize.width - TEXT_PAGE_MARGIN * 2;
+  const bottom = pageSize.height - TEXT_PAGE_MARGIN;
+  const writer = new PDFWriter({ title });
+
+  let page = writer.addPage(pageSize.width, pageSize.height);
+  let y = TEXT_PAGE_MARGIN;
+  const makeRoom = (height: number) => {
+    if (y + height > bottom && y > TEXT_PAGE_MARGIN) {
+      page = writer.addPage(pageSize.width, pageSize.height);
+      y = TEXT_PAGE_MARGIN;
+    }
+  };
+
+  for (const line of layoutTextRuns(runs, contentWidth)) {
+    makeRoom(line.height);
+    let x = TEXT_PAGE_MARGIN;
+    if (line.align === 'center') x += (contentWidth - line.width) / 2;
+    if (line.align === 'right') x += contentWidth - line.width;
+
+    for (const piece of line.pieces) {
+      const size = piece.run.size ?? DEFAULT_TEXT_SIZE;
+      // Baseline sits where the larger spacing leaves room for ascenders
+      const baseline = y + line.height - (line.height - size) / 2 - size * 0.2;
+      page.drawText(piece.text, x, baseline, { font: piece.run.font, size, color: piece.run.color });
+      if (piece.run.underline) {
+        page.drawRect(
+          { x, y: baseline + size * 0.1, width: piece.width, height: Math.max(0.5, size * 0.05) },
+          { fill: piece.run.color ?? '#000000' }
+        );
+      }
+      x += piece.width;
+    }
+    y += line.height;
+  }
+
+  for (const signature of signatures) {
+    if (signature.points.length === 0) continue;
+    y += SIGNATURE_SPACING;
+    makeRoom(SIGNATURE_BOX_HEIGHT);
+
+    const xs = signature.points.map(point => point.x);
+    const ys = signature.points.map(point => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const box = fitContain(
+      Math.max(1, Math.max(...xs) - minX),
+      Math.max(1, Math.max(...ys) - minY),
+      {
+        x: pageSize.width - TEXT_PAGE_MARGIN - SIGNATURE_BOX_WIDTH,
+        y,
+        width: SIGNATURE_BOX_WIDTH,
+        height: SIGNATURE_BOX_HEIGHT,
+      }
+    );
+    const scale = box.width / Math.max(1, Math.max(...xs) - minX);
+    const path = signature.points
+      .map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`)
+      .join(' ');
+    page.drawSvgPath(
+      path,
+      { stroke: signature.color, lineWidth: Math.max(0.75, signature.strokeWidth * scale) },
+      { x: box.x - minX * scale, y: box.y - minY * scale, scaleX: scale, scaleY: scale }
+    );
+    y += SIGNATURE_BOX_HEIGHT;
+  }
+
+  return writer.save();
+};
+
+const PDF_FILE = { extension: 'pdf', mimeType: 'application/pdf' };
+
+export interface DocumentPDFInput {
+  document: AnnotatedDocument;
+  options: PDFExportOptions;
+  savedSignatures?: SavedSignature[];
+}
+
+/** Encoder for the export service: a scanned document as a PDF */
+export const documentPDFEncoder: ExportEncoder<DocumentPDFInput> = {
+  ...PDF_FILE,
+  encode: ({ document, options, savedSignatures }) => buildDocumentPDF(document, options, savedSignatures),
+};
+
+export interface TextPDFInput {
+  runs: PDFTextRun[];
+  signatures: SignatureStroke[];
+  options: Pick<PDFExportOptions, 'pageSize' | 'orientation'>;
+  title?: string;
+}
+
+/** Encoder for the export service: formatted text as a PDF */
+export const textPDFEncoder: ExportEncoder<TextPDFInput> = {
+  ...PDF_FILE,
+  encode: async ({ runs, signatures, options, title }) => buildTextPDF(runs, signatures, options, title),
+};
@@ -0,0 +1,781 @@
+// A small PDF 1.4 writer: pages with JPEG images, vector paths and text in the
+// standard Helvetica fonts. Pure TypeScript with no React Native imports.
+//
+// Coordinates are in points (1/72 inch) from the top-left corner of the page,
+// like a screen; they are flipped to PDF's bottom-left origin when written.
+
+export type PDFFont = 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique' | 'Helvetica-BoldOblique';
+
+export interface PDFRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PDFColor {
+  r: number;
+  g: number;
+  b: number;
+  // 0-1
+  alpha: number;
+}
+
+export interface PDFShapeStyle {
+  // Any CSS hex, rgb() or rgba() colour; left out for no fill or no stroke
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+  opacity?: number;
+}
+
+// Places path coordinates on the page: page = offset + path * scale
+export interface PDFPathTransform {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+export interface PDFTextStyle {
+  font?: PDFFont;
+  size: number;
+  color?: string;
+  opacity?: number;
+}
+
+// A JPEG embedded as-is; PDF viewers decode it themselves
+export interface PDFImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  components: number;
+}
+
+export interface PDFDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+// Advance widths per 1000 units of font size for characters 32-126, from the
+// Adobe font metrics. The oblique faces share the upright widths.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Close enough for the accented letters and symbols above 126
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Characters WinAnsiEncoding places in 0x80-0x9F; Latin-1 covers 0xA0-0xFF
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+// Shown for characters the standard fonts cannot draw
+const MISSING_GLYPH = 0x3f;
+
+// Invisible text is set in a font without glyphs whose character codes are
+// UTF-16 code units, so any script the OCR read can be searched and copied.
+// Every code is one em wide; horizontal scaling stretches words to their box.
+const TEXT_LAYER_FONT = 'F-TextLayer';
+const TEXT_LAYER_GLYPH_WIDTH = 1000;
+// Baseline position within a word box, leaving room for descenders
+const TEXT_LAYER_BASELINE = 0.8;
+// Characters outside the Basic Multilingual Plane
+const REPLACEMENT_CHARACTER = 0xfffd;
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+};
+
+/**
+ * Parse a CSS colour: #rgb, #rrggbb, #rrggbbaa, rgb(), rgba() or a few names.
+ * Unknown colours come out black.
+ */
+export const parseColor = (color: string): PDFColor => {
+  const value = color.trim().toLowerCase();
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, alpha: 0 };
+
+  const named = NAMED_COLORS[value];
+  if (named) return { r: named[0] / 255, g: named[1] / 255, b: named[2] / 255, alpha: 1 };
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3) hex = hex.split('').map(digit => digit + digit).join('');
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+      return {
+        r: parseInt(hex.slice(0, 2), 16) / 255,
+        g: parseInt(hex.slice(2, 4), 16) / 255,
+        b: parseInt(hex.slice(4, 6), 16) / 255,
+        alpha: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+      };
+    }
+  }
+
+  const rgb = value.match(/^rgba?\(([^)]+)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(',').map(part => parseFloat(part));
+    if (parts.length >= 3 && parts.every(Number.isFinite)) {
+      return {
+        r: Math.min(255, Math.max(0, parts[0])) / 255,
+        g: Math.min(255, Math.max(0, parts[1])) / 255,
+        b: Math.min(255, Math.max(0, parts[2])) / 255,
+        alpha: parts.length > 3 ? Math.min(1, Math.max(0, parts[3])) : 1,
+      };
+    }
+  }
+
+  return { r: 0, g: 0, b: 0, alpha: 1 };
+};
+
+// WinAnsiEncoding byte for a character
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return WIN_ANSI_EXTRAS[char] ?? MISSING_GLYPH;
+};
+
+const encodeWinAnsi = (text: string): number[] => Array.from(text, toWinAnsi);
+
+/**
+ * Width of a line of text in points when drawn in one of the standard fonts
+ */
+export const measureText = (text: string, font: PDFFont, size: number): number => {
+  const widths = font === 'Helvetica-Bold' || font === 'Helvetica-BoldOblique'
+    ? HELVETICA_BOLD_WIDTHS
+    : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const code of encodeWinAnsi(text)) {
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+  }
+  return (units * size) / 1000;
+};
+
+/**
+ * Read the size and colour channels of a JPEG from its start-of-frame marker
+ */
+export const readJpegInfo = (data: Uint8Array): { width: number; height: number; components: number } => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      throw new Error('Corrupt JPEG marker');
+    }
+    const marker = data[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8],
+        components: data[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no frame header');
+};
+
+/**
+ * Wrap an embedded JPEG for drawing on pages
+ */
+export const createPDFImage = (jpeg: Uint8Array): PDFImage => ({
+  data: jpeg,
+  ...readJpegInfo(jpeg),
+});
+
+// PDF numbers: at most three decimals, never exponent notation or -0
+const num = (value: number): string => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const hexString = (bytes: number[]): string =>
+  `<${bytes.map(byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+
+// Text strings outside content streams (document info) as UTF-16BE with a
+// byte order mark, so any script survives
+const textString = (text: string): string => {
+  const bytes = [0xfe, 0xff];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code >> 8, code & 0xff);
+  }
+  return hexString(bytes);
+};
+
+const latin1Bytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const SVG_PATH_TOKEN = /([MmLlHhVvCcSsQqTtAaZz])|(-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+
+/**
+ * Convert SVG path data to PDF path operators. Quadratic curves become cubic
+ * ones; elliptical arcs are approximated by a straight line to their end.
+ */
+const svgPathToOperators = (d: string, toPage: (x: number, y: number) => [number, number]): string[] => {
+  const tokens: string[] = [];
+  let match: RegExpExecArray | null;
+  SVG_PATH_TOKEN.lastIndex = 0;
+  while ((match = SVG_PATH_TOKEN.exec(d)) !== null) {
+    tokens.push(match[0]);
+  }
+
+  const ops: string[] = [];
+  const point = (x: number, y: number) => toPage(x, y).map(num).join(' ');
+  let index = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control point, for the smooth curve commands
+  let controlX = 0;
+  let controlY = 0;
+  let previous = '';
+
+  const next = () => parseFloat(tokens[index++]);
+  const hasNumber = () => index < tokens.length && !/^[A-Za-z]$/.test(tokens[index]);
+
+  while (index < tokens.length) {
+    if (/^[A-Za-z]$/.test(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      // Numbers before any command
+      index++;
+      continue;
+    }
+    const relative = command === command.toLowerCase();
+    const baseX = relative ? x : 0;
+    const baseY = relative ? y : 0;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        if (!hasNumber()) break;
+        x = baseX + next();
+        y = baseY + next();
+        startX = x;
+        startY = y;
+        ops.push(`${point(x, y)} m`);
+        // Further pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        if (!hasNumber()) break;
+        x = baseX + next();
+        y = baseY + next();
+        ops.push(`${point(x, y)} l`);
+        break;
+      case 'H':
+        if (!hasNumber()) break;
+        x = baseX + next();
+        ops.push(`${point(x, y)} l`);
+        break;
+      case 'V':
+        if (!hasNumber()) break;
+        y = baseY + next();
+        ops.push(`${point(x, y)} l`);
+        break;
+      case 'C': {
+        if (!hasNumber()) break;
+        const x1 = baseX + next();
+        const y1 = baseY + next();
+        controlX = baseX + next();
+        controlY = baseY + next();
+        x = baseX + next();
+        y = baseY + next();
+        ops.push(`${point(x1, y1)} ${point(controlX, controlY)} ${point(x, y)} c`);
+        break;
+      }
+      case 'S': {
+        if (!hasNumber()) break;
+        const reflect = /^[CS]$/i.test(previous);
+        const x1 = reflect ? 2 * x - controlX : x;
+        const y1 = reflect ? 2 * y - controlY : y;
+        controlX = baseX + next();
+        controlY = baseY + next();
+        x = baseX + next();
+        y = baseY + next();
+        ops.push(`${point(x1, y1)} ${point(controlX, controlY)} ${point(x, y)} c`);
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        if (!hasNumber()) break;
+        let qx: number;
+        let qy: number;
+        if (command.toUpperCase() === 'Q') {
+          qx = baseX + next();
+          qy = baseY + next();
+        } else {
+          const reflect = /^[QT]$/i.test(previous);
+          qx = reflect ? 2 * x - controlX : x;
+          qy = reflect ? 2 * y - controlY : y;
+        }
+        const endX = baseX + next();
+        const endY = baseY + next();
+        const x1 = x + (2 / 3) * (qx - x);
+        const y1 = y + (2 / 3) * (qy - y);
+        const x2 = endX + (2 / 3) * (qx - endX);
+        const y2 = endY + (2 / 3) * (qy - endY);
+        ops.push(`${point(x1, y1)} ${point(x2, y2)} ${point(endX, endY)} c`);
+        controlX = qx;
+        controlY = qy;
+        x = endX;
+        y = endY;
+        break;
+      }
+      case 'A': {
+        if (!hasNumber()) break;
+        // Radii, rotation and the two flags
+        index += 5;
+        x = baseX + next();
+        y = baseY + next();
+        ops.push(`${point(x, y)} l`);
+        break;
+      }
+      case 'Z':
+        ops.push('h');
+        x = startX;
+        y = startY;
+        break;
+      default:
+        index++;
+    }
+    previous = command;
+    // Z takes no numbers, so a following number would never be consumed
+    if (command.toUpperCase() === 'Z' && hasNumber()) index++;
+  }
+  return ops;
+};
+
+/**
+ * One page of a PDF being written. Drawing calls are recorded in order, so
+ * later calls paint over earlier ones.
+ */
+export class PDFPage {
+  readonly width: number;
+  readonly height: number;
+  private readonly writer: PDFWriter;
+  private readonly content: string[] = [];
+  readonly images = new Map<PDFImage, string>();
+  readonly fonts = new Set<PDFFont>();
+  readonly opacities = new Set<number>();
+  private textLayer = false;
+
+  constructor(writer: PDFWriter, width: number, height: number) {
+    this.writer = writer;
+    this.width = width;
+    this.height = height;
+  }
+
+  /** Whether the page has invisible text drawn on it */
+  get hasTextLayer(): boolean {
+    return this.textLayer;
+  }
+
+  /** Content stream operators for the page */
+  get contentStream(): string {
+    return this.content.join('\n');
+  }
+
+  // PDF's origin is the bottom-left corner
+  private flipY(y: number): number {
+    return this.height - y;
+  }
+
+  private setOpacity(opacity: number) {
+    const rounded = Math.round(Math.min(1, Math.max(0, opacity)) * 1000) / 1000;
+    if (rounded >= 1) return;
+    this.opacities.add(rounded);
+    this.content.push(`/${PDFWriter.opacityName(rounded)} gs`);
+  }
+
+  private applyShapeStyle(style: PDFShapeStyle): string | null {
+    const fill = style.fill ? parseColor(style.fill) : null;
+    const stroke = style.stroke ? parseColor(style.stroke) : null;
+    const hasFill = !!fill && fill.alpha > 0;
+    const hasStroke = !!stroke && stroke.alpha > 0;
+    if (!hasFill && !hasStroke) return null;
+
+    // PDF has one fill and one stroke opacity per state; the colour's own
+    // alpha is folded into the style's opacity
+    const alpha = (hasFill ? fill.alpha : stroke!.alpha) * (style.opacity ?? 1);
+    this.setOpacity(alpha);
+    if (hasFill) this.content.push(`${num(fill.r)} ${num(fill.g)} ${num(fill.b)} rg`);
+    if (hasStroke) {
+      this.content.push(`${num(stroke.r)} ${num(stroke.g)} ${num(stroke.b)} RG`);
+      this.content.push(`${num(style.lineWidth ?? 1)} w 1 J 1 j`);
+    }
+    return hasFill && hasStroke ? 'B' : hasFill ? 'f' : 'S';
+  }
+
+  /** Draw a JPEG stretched over a rectangle */
+  drawImage(image: PDFImage, rect: PDFRect): void {
+    let name = this.images.get(image);
+    if (!name) {
+      name = `Im${this.writer.imageId(image)}`;
+      this.images.set(image, name);
+    }
+    this.content.push(
+      'q',
+      `${num(rect.width)} 0 0 ${num(rect.height)} ${num(rect.x)} ${num(this.flipY(rect.y + rect.height))} cm`,
+      `/${name} Do`,
+      'Q'
+    );
+  }
+
+  /** Fill and/or stroke a rectangle */
+  drawRect(rect: PDFRect, style: PDFShapeStyle): void {
+    this.content.push('q');
+    const paint = this.applyShapeStyle(style);
+    if (paint) {
+      this.content.push(
+        `${num(rect.x)} ${num(this.flipY(rect.y + rect.height))} ${num(rect.width)} ${num(rect.height)} re ${paint}`
+      );
+    }
+    this.content.push('Q');
+  }
+
+  /** Fill and/or stroke SVG path data, placed with a transform */
+  drawSvgPath(
+    d: string,
+    style: PDFShapeStyle,
+    transform: PDFPathTransform = { x: 0, y: 0, scaleX: 1, scaleY: 1 }
+  ): void {
+    const ops = svgPathToOperators(d, (px, py) => [
+      transform.x + px * transform.scaleX,
+      this.flipY(transform.y + py * transform.scaleY),
+    ]);
+    if (ops.length === 0) return;
+    this.content.push('q');
+    const paint = this.applyShapeStyle(style);
+    if (paint) {
+      this.content.push(...ops, paint);
+    }
+    this.content.push('Q');
+  }
+
+  /**
+   * Draw a line of text with its baseline at y. Characters the standard fonts
+   * lack (anything outside Windows-1252) are drawn as question marks.
+   */
+  drawText(text: string, x: number, y: number, style: PDFTextStyle): void {
+    if (!text) return;
+    const font = style.font ?? 'Helvetica';
+    const color = parseColor(style.color ?? '#000000');
+    this.fonts.add(font);
+    this.content.push('q');
+    this.setOpacity(color.alpha * (style.opacity ?? 1));
+    this.content.push(
+      `${num(color.r)} ${num(color.g)} ${num(color.b)} rg`,
+      'BT',
+      // Render mode and scaling are graphics state, so set them explicitly
+      '0 Tr',
+      '100 Tz',
+      `/${PDFWriter.fontName(font)} ${num(style.size)} Tf`,
+      `${num(x)} ${num(this.flipY(y))} Td`,
+      `${hexString(encodeWinAnsi(text))} Tj`,
+      'ET',
+      'Q'
+    );
+  }
+
+  /**
+   * Place text that is never painted but can be searched, selected and copied,
+   * stretched to fill the box so a selection lines up with the words beneath.
+   */
+  drawInvisibleText(text: string, box: PDFRect): void {
+    const codes = Array.from(text, char => {
+      const code = char.codePointAt(0)!;
+      return code > 0xffff ? REPLACEMENT_CHARACTER : code;
+    });
+    if (codes.length === 0 || box.width <= 0 || box.height <= 0) return;
+
+    this.textLayer = true;
+    const size = box.height;
+    const naturalWidth = (codes.length * TEXT_LAYER_GLYPH_WIDTH * size) / 1000;
+    const bytes = codes.flatMap(code => [code >> 8, code & 0xff]);
+    // Saved and restored so the render mode and scaling do not leak into
+    // whatever is drawn afterwards
+    this.content.push(
+      'q',
+      'BT',
+      // Render mode 3 neither fills nor strokes
+      '3 Tr',
+      `/${TEXT_LAYER_FONT} ${num(size)} Tf`,
+      `${num((box.width / naturalWidth) * 100)} Tz`,
+      `${num(box.x)} ${num(this.flipY(box.y + box.height * TEXT_LAYER_BASELINE))} Td`,
+      `${hexString(bytes)} Tj`,
+      'ET',
+      'Q'
+    );
+  }
+}
+
+// Maps every two-byte code of the text layer font to the same UTF-16 code
+// unit. Ranges may only vary in their last byte, so there is one per high
+// byte; surrogates are left out since codes above the BMP are replaced.
+const textLayerToUnicode = (): string => {
+  const ranges: string[] = [];
+  for (let high = 0; high < 256; high++) {
+    if (high >= 0xd8 && high <= 0xdf) continue;
+    const prefix = high.toString(16).padStart(2, '0');
+    ranges.push(`<${prefix}00> <${prefix}ff> <${prefix}00>`);
+  }
+  // At most 100 entries per section
+  const sections: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const chunk = ranges.slice(i, i + 100);
+    sections.push(`${chunk.length} beginbfrange`, ...chunk, 'endbfrange');
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <ffff>',
+    'endcodespacerange',
+    ...sections,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+/**
+ * Builds a PDF page by page and serializes it with a cross-reference table.
+ * Images and fonts are written once however many pages use them.
+ */
+export class PDFWriter {
+  private readonly pages: PDFPage[] = [];
+  private readonly imageIds = new Map<PDFImage, number>();
+  private readonly info: PDFDocumentInfo;
+
+  constructor(info: PDFDocumentInfo = {}) {
+    this.info = info;
+  }
+
+  static fontName(font: PDFFont): string {
+    return `F-${font}`;
+  }
+
+  static opacityName(opacity: number): string {
+    return `GS${Math.round(opacity * 1000)}`;
+  }
+
+  /** Stable number for an image, used in its resource name */
+  imageId(image: PDFImage): number {
+    let id = this.imageIds.get(image);
+    if (id === undefined) {
+      id = this.imageIds.size + 1;
+      this.imageIds.set(image, id);
+    }
+    return id;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Add a page of the given size in points */
+  addPage(width: number, height: number): PDFPage {
+    const page = new PDFPage(this, width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /** Serialize the document */
+  save(): Uint8Array {
+    if (this.pages.length === 0) {
+      throw new Error('A PDF needs at least one page');
+    }
+
+    // Object numbers: 1 catalog, 2 page tree, 3 info, then everything else
+    const bodies: (string | Uint8Array[])[] = [];
+    const reserve = () => {
+      bodies.push('');
+      return bodies.length;
+    };
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const infoId = reserve();
+
+    const imageObjects = new Map<PDFImage, number>();
+    for (const image of this.imageIds.keys()) {
+      const id = reserve();
+      const colorSpace = image.components === 1 ? '/DeviceGray' : image.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      // Adobe writes CMYK JPEGs inverted
+      const decode = image.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+      bodies[id - 1] = [
+        latin1Bytes(
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode} /Length ${image.data.length} >>\nstream\n`
+        ),
+        image.data,
+        latin1Bytes('\nendstream'),
+      ];
+      imageObjects.set(image, id);
+    }
+
+    const fontObjects = new Map<PDFFont, number>();
+    const opacityObjects = new Map<number, number>();
+    for (const page of this.pages) {
+      for (const font of page.fonts) {
+        if (fontObjects.has(font)) continue;
+        const id = reserve();
+        bodies[id - 1] = `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`;
+        fontObjects.set(font, id);
+      }
+      for (const opacity of page.opacities) {
+        if (opacityObjects.has(opacity)) continue;
+        const id = reserve();
+        bodies[id - 1] = `<< /Type /ExtGState /ca ${num(opacity)} /CA ${num(opacity)} >>`;
+        opacityObjects.set(opacity, id);
+      }
+    }
+
+    // Glyphless font for invisible text: not embedded, since it never paints
+    let textLayerFontId = 0;
+    if (this.pages.some(page => page.hasTextLayer)) {
+      textLayerFontId = reserve();
+      const cidFontId = reserve();
+      const descriptorId = reserve();
+      const toUnicodeId = reserve();
+      bodies[textLayerFontId - 1] =
+        `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ` +
+        `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`;
+      bodies[cidFontId - 1] =
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+        `/FontDescriptor ${descriptorId} 0 R /DW ${TEXT_LAYER_GLYPH_WIDTH} /CIDToGIDMap /Identity >>`;
+      bodies[descriptorId - 1] =
+        `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 -200 ${TEXT_LAYER_GLYPH_WIDTH} 800] ` +
+        `/ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 800 /StemV 80 >>`;
+      const cmap = latin1Bytes(textLayerToUnicode());
+      bodies[toUnicodeId - 1] = [
+        latin1Bytes(`<< /Length ${cmap.length} >>\nstream\n`),
+        cmap,
+        latin1Bytes('\nendstream'),
+      ];
+    }
+
+    const pageIds: number[] = [];
+    for (const page of this.pages) {
+      const pageId = reserve();
+      const contentId = reserve();
+      pageIds.push(pageId);
+
+      const fonts = Array.from(page.fonts, font => `/${PDFWriter.fontName(font)} ${fontObjects.get(font)} 0 R`);
+      if (page.hasTextLayer) fonts.push(`/${TEXT_LAYER_FONT} ${textLayerFontId} 0 R`);
+      const images = Array.from(page.images, ([image, name]) => `/${name} ${imageObjects.get(image)} 0 R`);
+      const states = Array.from(page.opacities, opacity => `/${PDFWriter.opacityName(opacity)} ${opacityObjects.get(opacity)} 0 R`);
+      const resources = [
+        fonts.length > 0 ? `/Font << ${fonts.join(' ')} >>` : '',
+        images.length > 0 ? `/XObject << ${images.join(' ')} >>` : '',
+        states.length > 0 ? `/ExtGState << ${states.join(' ')} >>` : '',
+      ].filter(Boolean).join(' ');
+
+      bodies[pageId - 1] =
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << ${resources} >> /Contents ${contentId} 0 R >>`;
+      const content = latin1Bytes(page.contentStream);
+      bodies[contentId - 1] = [
+        latin1Bytes(`<< /Length ${content.length} >>\nstream\n`),
+        content,
+        latin1Bytes('\nendstream'),
+      ];
+    }
+
+    bodies[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    bodies[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    const info = [
+      this.info.title ? `/Title ${textString(this.info.title)}` : '',
+      this.info.author ? `/Author ${textString(this.info.author)}` : '',
+      this.info.subject ? `/Subject ${textString(this.info.subject)}` : '',
+      `/Producer ${textString('Document Scanner App')}`,
+    ].filter(Boolean).join(' ');
+    bodies[infoId - 1] = `<< ${info} >>`;
+
+    // The binary comment tells transfer tools the file is not plain text
+    const chunks: Uint8Array[] = [latin1Bytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    const append = (chunk: Uint8Array) => {
+      chunks.push(chunk);
+      length += chunk.length;
+    };
+
+    bodies.forEach((body, index) => {
+      offsets.push(length);
+      append(latin1Bytes(`${index + 1} 0 obj\n`));
+      if (typeof body === 'string') {
+        append(latin1Bytes(body));
+      } else {
+        body.forEach(append);
+      }
+      append(latin1Bytes('\nendobj\n'));
+    });
+
+    const xrefOffset = length;
+    const xref = [
+      'xref',
+      `0 ${bodies.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${bodies.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(xrefOffset),
+      '%%EOF',
+      '',
+    ].join('\n');
+    append(latin1Bytes(xref));
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+}
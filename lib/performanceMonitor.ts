@@ -8,6 +8,7 @@ interface PerformanceMetric {
 
 class PerformanceMonitor {
   private metrics: Map<string, PerformanceMetric> = new Map();
+  private counters: Map<string, number> = new Map();
   private isEnabled: boolean = __DEV__; // Only enable in development
 
   start(name: string, metadata?: Record<string, any>): void {
@@ -128,6 +129,15 @@ class PerformanceMonitor {
     return { excellent: 100, good: 500, acceptable: 1000 };
   }
 
+  increment(name: string, by: number = 1): void {
+    if (!this.isEnabled) return;
+    this.counters.set(name, (this.counters.get(name) || 0) + by);
+  }
+
+  getCounter(name: string): number {
+    return this.counters.get(name) || 0;
+  }
+
   getMetric(name: string): PerformanceMetric | undefined {
     return this.metrics.get(name);
   }
@@ -138,12 +148,13 @@ class PerformanceMonitor {
 
   clear(): void {
     this.metrics.clear();
+    this.counters.clear();
   }
 
   generateReport(): string {
     const metrics = this.getAllMetrics().filter(m => m.duration !== undefined);
     
-    if (metrics.length === 0) {
+    if (metrics.length === 0 && this.counters.size === 0) {
       return 'No performance metrics recorded.';
     }
 
@@ -163,6 +174,13 @@ class PerformanceMonitor {
         }
       });
     
+    if (this.counters.size > 0) {
+      report += '-'.repeat(50) + '\n';
+      this.counters.forEach((value, name) => {
+        report += `🔢 ${name}: ${value}\n`;
+      });
+    }
+    
     report += '='.repeat(50);
     return report;
   }
@@ -187,6 +205,10 @@ class PerformanceMonitor {
     this.start(`Thumbnail Generation: ${documentId}`, { documentId });
     return () => this.end(`Thumbnail Generation: ${documentId}`);
   }
+
+  trackOCRCacheLookup(hit: boolean) {
+    this.increment(hit ? 'OCR Cache Hits' : 'OCR Cache Misses');
+  }
 }
 
 // Create singleton instance
@@ -204,6 +226,8 @@ export const trackPerformance = {
     performanceMonitor.trackImageLoad(imageUri, metadata),
   documentListLoad: (count: number) => performanceMonitor.trackDocumentListLoad(count),
   thumbnailGeneration: (documentId: string) => performanceMonitor.trackThumbnailGeneration(documentId),
+  ocrCacheLookup: (hit: boolean) => performanceMonitor.trackOCRCacheLookup(hit),
+  increment: (name: string, by?: number) => performanceMonitor.increment(name, by),
   report: () => console.log(performanceMonitor.generateReport()),
   clear: () => performanceMonitor.clear(),
 };
@@ -0,0 +1,150 @@
+import { Point } from '@/lib/borderDetection';
+import { RGBAImage } from '@/lib/imageFilters';
+
+export interface Quad {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+}
+
+// Row-major 3x3 matrix with the bottom-right entry fixed at 1
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+// Solves the 8x8 system by Gaussian elimination with partial pivoting
+const solveLinearSystem = (matrix: number[][], values: number[]): number[] | null => {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-10) return null;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k++) {
+        rows[row][k] -= factor * rows[column][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= rows[row][k] * solution[k];
+    }
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+/**
+ * Compute the homography that maps each `from` point onto the matching `to`
+ * point. Returns null when three of the points are collinear.
+ */
+export const computeHomography = (from: Point[], to: Point[]): Homography | null => {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  }
+
+  const h = solveLinearSystem(matrix, values);
+  return h ? [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1] : null;
+};
+
+export const applyHomography = (h: Homography, point: Point): Point => {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+};
+
+/**
+ * Size of the flattened page: the longer of each pair of opposite edges, so
+ * the side nearer the camera keeps its resolution
+ */
+export const getRectifiedSize = (quad: Quad): { width: number; height: number } => {
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  return {
+    width: Math.max(1, Math.round(Math.max(
+      distance(quad.topLeft, quad.topRight),
+      distance(quad.bottomLeft, quad.bottomRight)
+    ))),
+    height: Math.max(1, Math.round(Math.max(
+      distance(quad.topLeft, quad.bottomLeft),
+      distance(quad.topRight, quad.bottomRight)
+    ))),
+  };
+};
+
+/**
+ * Warp the quad onto a width x height rectangle. Every output pixel is mapped
+ * back into the source and bilinearly interpolated; samples outside the source
+ * are clamped to its edge.
+ */
+export const warpPerspective = (
+  image: RGBAImage,
+  quad: Quad,
+  width: number,
+  height: number
+): RGBAImage => {
+  const rectangle = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+  const corners = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+  const h = computeHomography(rectangle, corners);
+  if (!h) {
+    throw new Error('Document corners do not form a quadrilateral');
+  }
+
+  const { width: sourceWidth, height: sourceHeight, data: source } = image;
+  const maxX = sourceWidth - 1;
+  const maxY = sourceHeight - 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Sample at pixel centres on both sides of the mapping
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = h[6] * u + h[7] * v + h[8];
+      const sx = Math.min(maxX, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w - 0.5));
+      const sy = Math.min(maxY, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w - 0.5));
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const topLeft = (y0 * sourceWidth + x0) * 4;
+      const topRight = (y0 * sourceWidth + x1) * 4;
+      const bottomLeft = (y1 * sourceWidth + x0) * 4;
+      const bottomRight = (y1 * sourceWidth + x1) * 4;
+      const out = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = source[topLeft + c] + (source[topRight + c] - source[topLeft + c]) * fx;
+        const bottom = source[bottomLeft + c] + (source[bottomRight + c] - source[bottomLeft + c]) * fx;
+        data[out + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,80 @@
+import { RGBAImage } from '@/lib/imageFilters';
+import { crc32 } from '@/lib/zipWriter';
+
+// Stored deflate blocks hold at most this many bytes
+const MAX_STORED_BLOCK = 0xffff;
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+// zlib stream of uncompressed blocks; fine for the small images written here
+const zlibStore = (data: Uint8Array): Uint8Array => {
+  const blocks = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const output = new Uint8Array(2 + data.length + blocks * 5 + 4);
+  const view = new DataView(output.buffer);
+  output[0] = 0x78;
+  output[1] = 0x01;
+  let position = 2;
+  for (let block = 0; block < blocks; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+    output[position] = block === blocks - 1 ? 1 : 0;
+    view.setUint16(position + 1, length, true);
+    view.setUint16(position + 3, ~length & 0xffff, true);
+    output.set(data.subarray(start, start + length), position + 5);
+    position += 5 + length;
+  }
+  view.setUint32(position, adler32(data));
+  return output;
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const output = new Uint8Array(12 + data.length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+  output.set(data, 8);
+  view.setUint32(8 + data.length, crc32(output.subarray(4, 8 + data.length)));
+  return output;
+};
+
+/**
+ * Encode pixels as an RGBA PNG, keeping transparency. The image data is not
+ * compressed, so this is meant for small images such as signatures.
+ */
+export const encodePNG = ({ width, height, data }: RGBAImage): Uint8Array => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bits per channel
+  header[9] = 6; // RGBA
+
+  // Each row starts with its filter type, 0 for none
+  const rowSize = width * 4;
+  const raw = new Uint8Array((rowSize + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowSize, (y + 1) * rowSize), y * (rowSize + 1) + 1);
+  }
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibStore(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+};
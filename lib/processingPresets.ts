@@ -0,0 +1,312 @@
+// Image processing presets: named, ordered pipelines of processing steps.
+// Presets are plain data so they can be stored, edited and shared as JSON.
+
+export type PresetStep =
+  | { type: 'borders' }
+  | { type: 'perspective' }
+  | { type: 'dewarp' }
+  | { type: 'deskew'; maxAngle?: number }
+  | { type: 'orientation' }
+  | { type: 'glare' }
+  | { type: 'shadows' }
+  | { type: 'contrast' }
+  | { type: 'sharpen'; amount?: number; threshold?: number }
+  | { type: 'grayscale' }
+  | { type: 'whiteboard'; saturation?: number }
+  | { type: 'binarize'; windowRadius?: number; k?: number };
+
+export type PresetStepType = PresetStep['type'];
+
+export interface ProcessingPreset {
+  id: string;
+  name: string;
+  description?: string;
+  steps: PresetStep[];
+  // JPEG quality of the result, 0-1
+  quality: number;
+  // Shipped with the app; built-in presets cannot be edited or deleted
+  builtIn?: boolean;
+}
+
+export interface PresetParamInfo {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  // Left out when the step picks a value from the image
+  defaultValue?: number;
+}
+
+export interface PresetStepInfo {
+  label: string;
+  description: string;
+  params: PresetParamInfo[];
+}
+
+export const PRESET_STEP_INFO: Record<PresetStepType, PresetStepInfo> = {
+  borders: {
+    label: 'Border Detection',
+    description: 'Find the page outline',
+    params: [],
+  },
+  perspective: {
+    label: 'Perspective Correction',
+    description: 'Crop to the page and flatten it',
+    params: [],
+  },
+  dewarp: {
+    label: 'Page Curl Correction',
+    description: 'Straighten text lines that curve towards a book spine',
+    params: [],
+  },
+  orientation: {
+    label: 'Orientation',
+    description: 'Turn sideways or upside-down pages upright',
+    params: [],
+  },
+  deskew: {
+    label: 'Deskew',
+    description: 'Straighten tilted text lines',
+    params: [{ key: 'maxAngle', label: 'Max angle (°)', min: 1, max: 45, defaultValue: 15 }],
+  },
+  glare: {
+    label: 'Glare Removal',
+    description: 'Fill in reflections from glossy paper',
+    params: [],
+  },
+  shadows: {
+    label: 'Shadow Removal',
+    description: 'Even out shadows and uneven lighting',
+    params: [],
+  },
+  contrast: {
+    label: 'Contrast Enhancement',
+    description: 'Stretch tones to full black and white',
+    params: [],
+  },
+  sharpen: {
+    label: 'Sharpening',
+    description: 'Crisp up the edges of text',
+    params: [
+      { key: 'amount', label: 'Amount', min: 0, max: 3, defaultValue: 0.6 },
+      { key: 'threshold', label: 'Threshold', min: 0, max: 50, defaultValue: 3 },
+    ],
+  },
+  grayscale: {
+    label: 'Grayscale',
+    description: 'Remove colour',
+    params: [],
+  },
+  whiteboard: {
+    label: 'Whiteboard Cleanup',
+    description: 'White board, bold marker colours, no glare',
+    params: [{ key: 'saturation', label: 'Colour boost', min: 1, max: 3, defaultValue: 1.8 }],
+  },
+  binarize: {
+    label: 'B&W Document',
+    description: 'Adaptive black and white for text-only pages',
+    params: [
+      { key: 'windowRadius', label: 'Window radius (px)', min: 2, max: 200 },
+      { key: 'k', label: 'Sensitivity (k)', min: 0.01, max: 1, defaultValue: 0.2 },
+    ],
+  },
+};
+
+export const PRESET_STEP_TYPES = Object.keys(PRESET_STEP_INFO) as PresetStepType[];
+
+export const DEFAULT_PRESET_ID = 'document';
+
+export const BUILT_IN_PRESETS: ProcessingPreset[] = [
+  {
+    id: 'document',
+    name: 'Document',
+    description: 'Full clean-up for the best OCR results',
+    steps: [
+      { type: 'borders' },
+      { type: 'perspective' },
+      { type: 'orientation' },
+      { type: 'deskew' },
+      { type: 'shadows' },
+      { type: 'contrast' },
+      { type: 'sharpen' },
+    ],
+    quality: 0.95,
+    builtIn: true,
+  },
+  {
+    id: 'quick',
+    name: 'Quick',
+    description: 'Border detection and contrast only',
+    steps: [{ type: 'borders' }, { type: 'contrast' }],
+    quality: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'receipt',
+    name: 'Receipt',
+    description: 'Long, faint thermal paper to crisp black and white',
+    steps: [
+      { type: 'borders' },
+      { type: 'perspective' },
+      { type: 'deskew' },
+      { type: 'shadows' },
+      { type: 'contrast' },
+      { type: 'binarize', k: 0.15 },
+    ],
+    quality: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'whiteboard',
+    name: 'Whiteboard',
+    description: 'Glossy boards under room lighting',
+    steps: [
+      { type: 'borders' },
+      { type: 'perspective' },
+      { type: 'whiteboard' },
+      { type: 'sharpen', amount: 0.4 },
+    ],
+    quality: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'photo',
+    name: 'Photo',
+    description: 'Keeps colours and tones; crops and flattens only',
+    steps: [{ type: 'borders' }, { type: 'perspective' }, { type: 'contrast' }],
+    quality: 0.95,
+    builtIn: true,
+  },
+  {
+    id: 'book-page',
+    name: 'Book page',
+    description: 'Flattens the curl and shadow towards the spine',
+    steps: [
+      { type: 'borders' },
+      { type: 'perspective' },
+      { type: 'dewarp' },
+      { type: 'orientation' },
+      { type: 'deskew' },
+      { type: 'shadows' },
+      { type: 'contrast' },
+      { type: 'sharpen' },
+    ],
+    quality: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'grayscale-text',
+    name: 'Grayscale text',
+    description: 'Clean gray pages that keep pencil and faint print',
+    steps: [
+      { type: 'borders' },
+      { type: 'perspective' },
+      { type: 'orientation' },
+      { type: 'deskew' },
+      { type: 'shadows' },
+      { type: 'grayscale' },
+      { type: 'contrast' },
+      { type: 'sharpen' },
+    ],
+    quality: 0.9,
+    builtIn: true,
+  },
+];
+
+export const getBuiltInPreset = (id: string): ProcessingPreset => {
+  const preset = BUILT_IN_PRESETS.find(candidate => candidate.id === id);
+  if (!preset) {
+    throw new Error(`Unknown built-in preset: ${id}`);
+  }
+  return preset;
+};
+
+// Bumped when the shared file format changes incompatibly
+const PRESET_FILE_VERSION = 1;
+
+export const createPresetId = (): string =>
+  `preset-${Date.now().toString()}${Math.random().toString(36).slice(2, 11)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseStep = (value: unknown, presetName: string): PresetStep => {
+  if (!isRecord(value) || typeof value.type !== 'string' || !(value.type in PRESET_STEP_INFO)) {
+    throw new Error(`Preset "${presetName}" has an unknown step`);
+  }
+  const type = value.type as PresetStepType;
+  const step: Record<string, unknown> = { type };
+
+  for (const param of PRESET_STEP_INFO[type].params) {
+    const paramValue = value[param.key];
+    if (paramValue === undefined || paramValue === null) continue;
+    if (typeof paramValue !== 'number' || !Number.isFinite(paramValue)
+      || paramValue < param.min || paramValue > param.max) {
+      throw new Error(
+        `Preset "${presetName}": ${param.label} must be between ${param.min} and ${param.max}`
+      );
+    }
+    step[param.key] = paramValue;
+  }
+  return step as PresetStep;
+};
+
+const parsePreset = (value: unknown): ProcessingPreset => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('Every preset needs a name');
+  }
+  const name = value.name.trim();
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    throw new Error(`Preset "${name}" has no steps`);
+  }
+  const quality = value.quality ?? 0.9;
+  if (typeof quality !== 'number' || quality <= 0 || quality > 1) {
+    throw new Error(`Preset "${name}": quality must be between 0 and 1`);
+  }
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createPresetId(),
+    name,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    steps: value.steps.map(step => parseStep(step, name)),
+    quality,
+  };
+};
+
+/**
+ * Presets as a JSON document for sharing. The built-in flag is dropped so
+ * shared copies of built-ins import as ordinary, editable presets.
+ */
+export const serializePresets = (presets: ProcessingPreset[]): string =>
+  JSON.stringify(
+    {
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ builtIn: _builtIn, ...preset }) => preset),
+    },
+    null,
+    2
+  );
+
+/**
+ * Parse shared presets: a file written by serializePresets, a bare array of
+ * presets or a single preset. Throws with a readable message when invalid.
+ */
+export const parsePresets = (json: string): ProcessingPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Presets must be valid JSON');
+  }
+
+  if (isRecord(parsed) && Array.isArray(parsed.presets)) {
+    if (typeof parsed.version === 'number' && parsed.version > PRESET_FILE_VERSION) {
+      throw new Error('These presets were made by a newer version of the app');
+    }
+    return parsed.presets.map(parsePreset);
+  }
+  if (Array.isArray(parsed)) {
+    return parsed.map(parsePreset);
+  }
+  return [parsePreset(parsed)];
+};
@@ -0,0 +1,82 @@
+import { RGBAImage } from '@/lib/imageFilters';
+import { parseColor } from '@/lib/pdfWriter';
+
+/** A hand-drawn signature as the points of one stroke */
+export interface SignatureStroke {
+  points: { x: number; y: number }[];
+  color: string;
+  strokeWidth: number;
+}
+
+export interface SignatureRasterOptions {
+  width: number;
+  height: number;
+  // Transparent border kept clear of the stroke, in pixels
+  padding?: number;
+}
+
+/**
+ * Draw a signature stroke onto a transparent image, scaled to fit. Edges are
+ * anti-aliased by each pixel's distance from the nearest segment.
+ */
+export const rasterizeSignature = (
+  stroke: SignatureStroke,
+  { width, height, padding = 4 }: SignatureRasterOptions
+): RGBAImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const { points } = stroke;
+  if (points.length === 0) return { width, height, data };
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(1, Math.max(...xs) - minX);
+  const spanY = Math.max(1, Math.max(...ys) - minY);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  const placed = points.map(point => ({
+    x: offsetX + (point.x - minX) * scale,
+    y: offsetY + (point.y - minY) * scale,
+  }));
+
+  const radius = Math.max(0.75, (stroke.strokeWidth * Math.min(1, scale)) / 2);
+  const coverage = new Float32Array(width * height);
+  // A single point is drawn as a dot
+  const segments = placed.length === 1 ? [[placed[0], placed[0]]] : placed.slice(1).map((end, i) => [placed[i], end]);
+
+  for (const [start, end] of segments) {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const left = Math.max(0, Math.floor(Math.min(start.x, end.x) - radius - 1));
+    const right = Math.min(width - 1, Math.ceil(Math.max(start.x, end.x) + radius + 1));
+    const top = Math.max(0, Math.floor(Math.min(start.y, end.y) - radius - 1));
+    const bottom = Math.min(height - 1, Math.ceil(Math.max(start.y, end.y) + radius + 1));
+
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        const px = x + 0.5;
+        const py = y + 0.5;
+        const t = lengthSquared > 0
+          ? Math.max(0, Math.min(1, ((px - start.x) * dx + (py - start.y) * dy) / lengthSquared))
+          : 0;
+        const distance = Math.hypot(px - (start.x + t * dx), py - (start.y + t * dy));
+        const value = Math.max(0, Math.min(1, radius + 0.5 - distance));
+        const index = y * width + x;
+        if (value > coverage[index]) coverage[index] = value;
+      }
+    }
+  }
+
+  const color = parseColor(stroke.color);
+  for (let i = 0; i < coverage.length; i++) {
+    if (coverage[i] === 0) continue;
+    data[i * 4] = color.r * 255;
+    data[i * 4 + 1] = color.g * 255;
+    data[i * 4 + 2] = color.b * 255;
+    data[i * 4 + 3] = coverage[i] * color.alpha * 255;
+  }
+  return { width, height, data };
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ExportFile } from '@/lib/exportService';
+import { utf8Bytes } from '@/lib/zipWriter';
 
 // Replace these with your actual Supabase project URL and anon key
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
@@ -431,6 +433,26 @@ export const storage = {
     }
   },
 
+  // Exports go to a private bucket; the returned path is only readable by the user
+  uploadExport: async (userId: string, file: ExportFile) => {
+    try {
+      const path = `${userId}/${Date.now()}-${file.fileName}`;
+      const body = typeof file.data === 'string' ? utf8Bytes(file.data) : file.data;
+
+      const { data, error } = await supabase.storage
+        .from('document-exports')
+        .upload(path, body, { contentType: file.mimeType });
+
+      if (error) {
+        return { data: null, error };
+      }
+      return { data, error: null };
+    } catch (err) {
+      console.error('Export upload error:', err);
+      return { data: null, error: { message: 'Failed to upload export' } };
+    }
+  },
+
   deleteImage: async (path: string) => {
     try {
       const { error } = await supabase.storage
@@ -2,6 +2,8 @@ import { createTRPCReact } from "@trpc/react-query";
 import { httpLink } from "@trpc/client";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import superjson from "superjson";
+import { supabase } from "@/lib/supabase";
+import { OCR_CLIENT_TIMEOUT_MS } from "@/lib/ocrTimeouts";
 
 export const trpc = createTRPCReact<AppRouter>();
 
@@ -15,6 +17,26 @@ const getBaseUrl = () => {
   );
 };
 
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Aborts when either the caller's signal fires or the timeout elapses
+const withTimeout = (signal: AbortSignal | undefined, timeoutMs: number): AbortSignal => {
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  if (!signal) {
+    return timeoutSignal;
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal.aborted) {
+    abort();
+  } else {
+    signal.addEventListener('abort', abort, { once: true });
+    timeoutSignal.addEventListener('abort', abort, { once: true });
+  }
+  return controller.signal;
+};
+
 // Lazy initialize tRPC client to improve cold start
 let _trpcClient: ReturnType<typeof trpc.createClient> | null = null;
 
@@ -26,12 +48,21 @@ export const trpcClient = (() => {
         httpLink({
           url: `${getBaseUrl()}/api/trpc`,
           transformer: superjson,
+          // Forward the Supabase access token so the server can verify the user
+          headers: async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            return session?.access_token
+              ? { authorization: `Bearer ${session.access_token}` }
+              : {};
+          },
           // Optimize for faster requests
           fetch: (url, options) => {
+            // OCR runs retries server-side, so it gets a longer budget
+            const timeoutMs = url.toString().includes('/ocr.') ? OCR_CLIENT_TIMEOUT_MS : REQUEST_TIMEOUT_MS;
             return fetch(url, {
               ...options,
-              // Add timeout for faster failure
-              signal: AbortSignal.timeout(10000), // 10 second timeout
+              // Add timeout for faster failure, keeping tRPC's own abort signal
+              signal: withTimeout(options?.signal ?? undefined, timeoutMs),
             });
           },
         }),
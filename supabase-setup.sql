@@ -289,4 +289,23 @@ CREATE TRIGGER on_auth_user_created
 --   FOR DELETE USING (
 --     bucket_id = 'document-images' AND 
 --     auth.uid()::text = (storage.foldername(name))[1]
---   );
\ No newline at end of file
+--   );
+-- 12. Private storage bucket for exported documents, one folder per user
+-- INSERT INTO storage.buckets (id, name, public)
+-- VALUES ('document-exports', 'document-exports', false)
+-- ON CONFLICT (id) DO NOTHING;
+
+-- DROP POLICY IF EXISTS "Users can upload their own exports" ON storage.objects;
+-- DROP POLICY IF EXISTS "Users can view their own exports" ON storage.objects;
+
+-- CREATE POLICY "Users can upload their own exports" ON storage.objects
+--   FOR INSERT WITH CHECK (
+--     bucket_id = 'document-exports' AND 
+--     auth.uid()::text = (storage.foldername(name))[1]
+--   );
+
+-- CREATE POLICY "Users can view their own exports" ON storage.objects
+--   FOR SELECT USING (
+--     bucket_id = 'document-exports' AND 
+--     auth.uid()::text = (storage.foldername(name))[1]
+--   );
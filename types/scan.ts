@@ -9,10 +9,49 @@ export interface DocumentPage {
   id: string;
   imageUri: string;
   extractedText?: string;
+  ocrLayout?: OCRLayout;
+  // Which engine read the text; on-device results come from the offline fallback
+  ocrEngine?: 'cloud' | 'on-device';
   order: number;
   signatures?: SignatureInstance[];
 }
 
+// Bounding boxes are normalized to the source image (0-1 on both axes) so they
+// stay valid when the page is rendered at any size.
+export interface OCRBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number; // 0-1
+  bbox: OCRBoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: OCRBoundingBox;
+  words: OCRWord[];
+}
+
+export interface OCRBlock {
+  text: string;
+  confidence: number;
+  bbox: OCRBoundingBox;
+  lines: OCRLine[];
+}
+
+export interface OCRLayout {
+  imageWidth: number;
+  imageHeight: number;
+  confidence: number;
+  blocks: OCRBlock[];
+}
+
 export interface MultiPageDocument {
   id: string;
   title: string;
@@ -88,6 +127,9 @@ export interface DocumentSplitOptions {
 
 export interface AnnotatedDocument extends MultiPageDocument {
   annotations: Annotation[];
+  // Size of the view annotations and signatures were placed on, with the page
+  // image fitted inside it; without it they are taken as image pixels
+  canvasSize?: { width: number; height: number };
 }
 
 export interface PDFExportOptions {
@@ -95,9 +137,11 @@ export interface PDFExportOptions {
   includeAnnotations: boolean;
   pageSize: 'A4' | 'Letter' | 'Legal';
   orientation: 'portrait' | 'landscape';
+  // Adds the OCR text as an invisible layer over each page image
+  searchable?: boolean;
 }
 
-export type ScanMode = 'document' | 'id-card' | 'qr-code';
+export type ScanMode = 'document' | 'whiteboard' | 'book' | 'id-card' | 'qr-code';
 
 export interface IDCardScan {
   id: string;